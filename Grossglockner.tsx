@@ -0,0 +1,1556 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Position } from 'geojson';
+import type { CircleMarker, LatLngTuple, Layer, LeafletMouseEvent, Map as LeafletMap, PolylineOptions, TileLayer, TileLayerOptions } from 'leaflet';
+import { CONFIG, ALERT_SEVERITIES, HEALTH_SOURCES, SAR_PRODUCTS, BASEMAPS, ROAD_CONDITIONS, MAP_TOOLS, ROUTING_PROFILES, TERRAIN_LAYERS } from './src/config';
+import { LatLonBounds } from './src/crs';
+import { Aoi, RoadFeature, RoadNetwork, downloadFile, escapeHtml, geoUtils, roadUtils, aoiUtils } from './src/utils';
+import { StationWeather, WeatherState, INITIAL_WEATHER, getWeatherProvider } from './src/weather';
+import { RoadAlert, RoadStatusRule, roadStatusUtils } from './src/roadStatus';
+import { Orthophoto, PointQuery, Raster, TerrainRasters, rasterUtils, terrainUtils } from './src/raster';
+import { Catchment, HydroLayers, HydrologyData, hydrologyUtils, runoffUtils } from './src/hydrology';
+import { avalancheUtils } from './src/avalanche';
+import { vegetationUtils } from './src/vegetation';
+import { DodSettings, dodUtils } from './src/dod';
+import { SarManifest, SarSettings, sarUtils } from './src/sar';
+import { Profile, profileUtils } from './src/profile';
+import { Closure, RouteRequest, routingUtils } from './src/routing';
+import { healthUtils } from './src/health';
+import { CacheInfo, OfflineProgress, offlineUtils } from './src/offline';
+import { HistoryDay, HistoryStatus, HistoryView, historyUtils } from './src/history';
+import { INCIDENT_SYNC_ADAPTERS, Incident, IncidentDraft, IncidentGeometry, IncidentFilter, IncidentSyncState, incidentUtils } from './src/incidents';
+import { LayerVisibility, SavedView, viewStateUtils } from './src/viewState';
+import { reportUtils } from './src/report';
+import { createLayerRegistry } from './src/layers';
+import { loadLeaflet, loadJsPdf } from './src/libs';
+import { HealthContext, useHealthMonitor } from './src/components/health';
+import { Footer } from './src/components/footer';
+import { ViewNotice, Header } from './src/components/header';
+import { BasemapCompare, Drawing, ReportStatus, TerrainSettings, canFinishDrawing, SarTimeSlider, SwipeDivider, MapControls, ScaleBar, NorthArrow } from './src/components/mapControls';
+import { HydrologyPanel, RunoffPanel, getPointQueryHtml, PointQueryPanel, ProfilePanel, DodPanel, RoutePanel } from './src/components/analysisPanels';
+import { Camera3D, Terrain3DView } from './src/components/terrain3d';
+import { WeatherWidget, AlertsPanel, WeatherPanel, HistoryPanel } from './src/components/weather';
+import { IncidentPanel } from './src/components/incidents';
+import { InfoPanel } from './src/components/info';
+
+// ============================================================================
+// MAIN APP COMPONENT
+// ============================================================================
+
+// Initially visible map layers; their keys are also the layers a link may switch on
+const DEFAULT_LAYERS: LayerVisibility = {
+  conditions: true,
+  alerts: true,
+  incidents: true,
+  avalanche: false,
+  vegetation: false,
+  ...Object.fromEntries(
+    Object.entries(CONFIG.roads.networks).map(([key, network]) => [key, network.visible])
+  )
+};
+
+export default function App() {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<LeafletMap | null>(null);
+  const [mapLayers] = useState(createLayerRegistry);
+
+  // View state from the URL hash, read once. A linked road segment and SAR date
+  // are applied by effects once their data has loaded.
+  const [initialView] = useState(() => viewStateUtils.parse(window.location.hash, DEFAULT_LAYERS));
+  const [linkedFeature, setLinkedFeature] = useState<string | null>(initialView.state.feature || null);
+  const [linkedSarDate, setLinkedSarDate] = useState<string | null>(initialView.state.sarDate || null);
+  const [viewWarnings, setViewWarnings] = useState(initialView.warnings);
+  const [savedViews, setSavedViews] = useState(viewStateUtils.loadSaved);
+  const [mapView, setMapView] = useState({
+    center: initialView.state.center || CONFIG.map.center,
+    zoom: initialView.state.zoom ?? CONFIG.map.zoom
+  });
+  const [selectedFeature, setSelectedFeature] = useState<string | null>(initialView.state.feature || null);
+  
+  const [weather, setWeather] = useState<WeatherState>(INITIAL_WEATHER);
+  
+  const [layersVisible, setLayersVisible] = useState<LayerVisibility>(initialView.state.layersVisible || DEFAULT_LAYERS);
+  
+  const [roadNetworks, setRoadNetworks] = useState<Record<string, RoadNetwork>>({});
+  const [stationWeather, setStationWeather] = useState<StationWeather[]>([]);
+  const [stationObservations, setStationObservations] = useState<StationWeather[]>([]);
+  const [roadStatusRules, setRoadStatusRules] = useState<RoadStatusRule[]>([]);
+  const [rulesError, setRulesError] = useState<string | null>(null);
+
+  const roadAlerts = useMemo(
+    () => roadStatusUtils.evaluate(roadStatusRules, stationWeather),
+    [roadStatusRules, stationWeather]
+  );
+  const [aoi, setAoi] = useState<Aoi | null>(null);
+  
+  const [basemap, setBasemap] = useState(initialView.state.basemap || 'satellite');
+  const [compare, setCompare] = useState<BasemapCompare>({ enabled: false, basemap: 'orthophoto', position: 0.5 });
+  const [orthophoto, setOrthophoto] = useState<Orthophoto>({ status: 'idle', url: null, bounds: null, date: null });
+  const orthophotoRequested = useRef(false);
+  const [terrain, setTerrain] = useState<TerrainSettings>({ layer: initialView.state.terrain || 'hillshade', ...CONFIG.terrain.sun });
+  const [rasters, setRasters] = useState<TerrainRasters>({});
+  const [pointQuery, setPointQuery] = useState<PointQuery | null>(null);
+  const [mapTool, setMapTool] = useState('query');
+  const [drawing, setDrawing] = useState<Drawing | null>(null);
+  const [route, setRoute] = useState<RouteRequest>({ mode: 'drive', origin: null, destination: null });
+  const [closures, setClosures] = useState<Closure[]>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(CONFIG.routing.storageKey) || 'null') || [];
+    } catch {
+      return [];
+    }
+  });
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [profileHover, setProfileHover] = useState<number | null>(null);
+  const [hydrology, setHydrology] = useState<HydrologyData>({ errors: {} });
+  const [hydroLayers, setHydroLayers] = useState<HydroLayers>({ streams: true, watersheds: true, hand: false });
+  const [catchment, setCatchment] = useState<Catchment | null>(null);
+  const hydrologyRequested = useRef(false);
+  const [dod, setDod] = useState<DodSettings>({ enabled: false, from: 0, to: CONFIG.dod.epochs.length - 1, polygon: null });
+  const [dodRasters, setDodRasters] = useState<Record<string, Raster>>({});
+  const [dodStatus, setDodStatus] = useState('idle');
+  const dodRequested = useRef(false);
+  const [sar, setSar] = useState<SarSettings>({
+    enabled: !!initialView.state.sarDate, mode: 'backscatter', band: 0, index: 0, reference: 0, threshold: CONFIG.sar.changeThreshold
+  });
+  const [sarManifest, setSarManifest] = useState<SarManifest | null>(null);
+  const [sarStatus, setSarStatus] = useState('idle');
+  const [sarRasters, setSarRasters] = useState<Record<string, Raster>>({});
+  const sarRequested = useRef(new Set<string>());
+  const healthMonitor = useHealthMonitor();
+  const { report } = healthMonitor;
+  const [cacheInfo, setCacheInfo] = useState<CacheInfo | null>(null);
+  const [offlineProgress, setOfflineProgress] = useState<OfflineProgress | null>(null);
+  const [offlineError, setOfflineError] = useState<string | null>(null);
+  const [historyDays, setHistoryDays] = useState<HistoryDay[]>([]);
+  const [historyView, setHistoryView] = useState<HistoryView>({ station: CONFIG.weather.stations[0].id, season: null });
+  const [historyStatus, setHistoryStatus] = useState<HistoryStatus>({ error: null, imported: null });
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [reportStatus, setReportStatus] = useState<ReportStatus>({ busy: false, message: null });
+  const [incidentDraft, setIncidentDraft] = useState<IncidentDraft | null>(null);
+  const [incidentFilter, setIncidentFilter] = useState<IncidentFilter>({ category: 'all', severity: 'info', resolved: false });
+  const [incidentSync, setIncidentSync] = useState<IncidentSyncState>({ status: 'idle', at: null, error: null });
+  const [terrainStatus, setTerrainStatus] = useState('loading');
+  const [activeView, setActiveView] = useState(initialView.state.activeView || 'map');
+  const [camera3d, setCamera3d] = useState<Camera3D | null>(null);
+  const [mapReady, setMapReady] = useState(false);
+
+  // Basemap health: one report per load cycle (all visible tiles done), and
+  // only the first tile error of a cycle
+  const monitorTiles = (layer: TileLayer) => {
+    let start = 0;
+    let failed = false;
+    layer.on('loading', () => {
+      start = performance.now();
+      failed = false;
+    });
+    layer.on('tileerror', () => {
+      if (!failed) report('tiles', { ok: false, error: 'Tile request failed' });
+      failed = true;
+    });
+    layer.on('load', () => {
+      if (!failed) report('tiles', { ok: true, latency: performance.now() - start });
+    });
+  };
+
+  // Initialize map with Leaflet
+  useEffect(() => {
+    let map: LeafletMap;
+    
+    loadLeaflet().then((L) => {
+      if (mapRef.current) return;
+
+      map = L.map(mapContainer.current!, {
+        center: mapView.center,
+        zoom: mapView.zoom,
+        zoomControl: false
+      });
+
+      mapRef.current = map;
+      mapLayers.attach(map);
+
+      // Raster overlays sit between the basemap and vector layers
+      map.createPane('terrain').style.zIndex = '350';
+      // The swipe comparison basemap sits just above the main one
+      map.createPane('compare').style.zIndex = '250';
+
+      map.on('click', (e) => handleMapClickRef.current(e));
+      map.on('dblclick', (e) => handleMapDblClickRef.current(e));
+      map.on('moveend', () => {
+        const center = map.getCenter();
+        setMapView({ center: [center.lat, center.lng], zoom: map.getZoom() });
+      });
+
+      // Add base layer
+      const baseLayer = L.tileLayer(CONFIG.map.tiles.satellite, {
+        maxZoom: 18,
+        subdomains: CONFIG.map.subdomains.satellite,
+        attribution: '© Google Maps'
+      });
+      monitorTiles(baseLayer);
+      mapLayers.set('base', baseLayer);
+
+      // Add AOI outline (reprojected from its source CRS)
+      aoiUtils.loadAoi(CONFIG.aoi.url)
+        .then((result) => {
+          if (mapRef.current !== map) return;
+          const aoiLayer = L.geoJSON(result.geojson, { style: CONFIG.aoi.style, interactive: false });
+          mapLayers.set('aoi', aoiLayer);
+          setAoi(result);
+        })
+        .catch((error) => console.error('AOI failed to load:', error));
+
+      // Add road network layers (shown by the visibility effect)
+      Object.entries(CONFIG.roads.networks).forEach(([key, network]) => {
+        healthUtils.track(report, 'roads', () => roadUtils.loadNetwork(network.url))
+          .then((geojson) => {
+            if (mapRef.current !== map) return;
+            mapLayers.set(`road:${key}`, L.geoJSON(geojson, {
+              style: (feature) => roadUtils.getStyle(feature as RoadFeature),
+              onEachFeature: (feature, layer) => {
+                const featureId = `${key}:${feature.properties.fid}`;
+                layer.bindPopup(roadUtils.getPopupHtml(feature.properties));
+                layer.on('click', (e) => handleFeatureClickRef.current(feature as RoadFeature, e));
+                layer.on('popupopen', () => setSelectedFeature(featureId));
+                layer.on('popupclose', () => setSelectedFeature(f => (f === featureId ? null : f)));
+              }
+            }), false);
+            setRoadNetworks(s => ({ ...s, [key]: { geojson, ...roadUtils.summarize(geojson) } }));
+          })
+          .catch((error) => console.error(`Road network "${key}" failed to load:`, error));
+      });
+
+      // Add marker for Großglockner
+      const customIcon = L.divIcon({
+        className: 'custom-marker',
+        html: `<div style="
+          width: 16px;
+          height: 16px;
+          background: #e11;
+          border: 2px solid white;
+          border-radius: 50%;
+          box-shadow: 0 0 6px rgba(0,0,0,0.4);
+        "></div>`,
+        iconSize: [16, 16],
+        iconAnchor: [8, 8]
+      });
+
+      L.marker(CONFIG.map.center, { icon: customIcon })
+        .addTo(map)
+        .bindPopup('<strong>Großglockner</strong><br/>3,798 m');
+
+      setMapReady(true);
+    });
+
+    return () => {
+      if (map) {
+        mapLayers.clear();
+        mapLayers.attach(null);
+        map.remove();
+        mapRef.current = null;
+      }
+    };
+  }, []);
+
+  // Leaflet layer for a BASEMAPS key. The orthophoto sits on the satellite
+  // tiles so the surroundings of the mosaic keep their context; a COG mosaic
+  // joins once it has loaded.
+  const createBaseLayer = (key: string, pane = 'tilePane') => {
+    const L = window.L;
+    const tiles = (template: string, options: TileLayerOptions) => {
+      const layer = L.tileLayer(template, { pane, ...options });
+      monitorTiles(layer);
+      return layer;
+    };
+    if (key !== 'orthophoto') {
+      return tiles(CONFIG.map.tiles[key], {
+        maxZoom: BASEMAPS[key].maxZoom,
+        subdomains: CONFIG.map.subdomains[key],
+        attribution: BASEMAPS[key].attribution
+      });
+    }
+
+    const { source, xyzUrl, maxNativeZoom, acquired } = CONFIG.orthophoto;
+    const attribution = `${BASEMAPS.orthophoto.attribution}, acquired ${orthophoto.date || acquired}`;
+    const layers: Layer[] = [tiles(CONFIG.map.tiles.satellite, {
+      maxZoom: BASEMAPS.orthophoto.maxZoom,
+      subdomains: CONFIG.map.subdomains.satellite,
+      attribution: BASEMAPS.satellite.attribution
+    })];
+    if (source === 'xyz') {
+      layers.push(tiles(xyzUrl, { maxZoom: BASEMAPS.orthophoto.maxZoom, maxNativeZoom, attribution }));
+    } else if (orthophoto.url && orthophoto.bounds) {
+      layers.push(L.imageOverlay(orthophoto.url, orthophoto.bounds, { pane, attribution }));
+    }
+    return L.layerGroup(layers);
+  };
+
+  // The COG mosaic is read once, the first time the orthophoto is shown
+  useEffect(() => {
+    const wanted = basemap === 'orthophoto' || (compare.enabled && compare.basemap === 'orthophoto');
+    if (!wanted || CONFIG.orthophoto.source !== 'cog' || orthophotoRequested.current) return;
+    orthophotoRequested.current = true;
+    setOrthophoto(o => ({ ...o, status: 'loading' }));
+    rasterUtils.loadImage(CONFIG.orthophoto.cogUrl, CONFIG.orthophoto.maxSize)
+      .then((image) => setOrthophoto({ status: 'ready', date: image.date, ...rasterUtils.warpImage(image) }))
+      .catch((error) => {
+        console.error('Orthophoto failed to load:', error);
+        setOrthophoto(o => ({ ...o, status: 'unavailable' }));
+      });
+  }, [basemap, compare.enabled, compare.basemap]);
+
+  // Handle basemap changes
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    mapLayers.set('base', createBaseLayer(basemap));
+  }, [basemap, orthophoto, mapReady]);
+
+  // Swipe comparison: a second basemap in its own pane, clipped to the right
+  // of the divider. The clip is in layer coordinates, so it follows pans and zooms.
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    mapLayers.remove('compare');
+    if (!compare.enabled) return;
+
+    const compareLayer = createBaseLayer(compare.basemap, 'compare');
+    mapLayers.set('compare', compareLayer);
+  }, [compare.enabled, compare.basemap, orthophoto, mapReady]);
+
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const map = mapRef.current;
+    const pane = map.getPane('compare')!;
+    pane.style.clip = '';
+    if (!compare.enabled) return;
+
+    const updateClip = () => {
+      const nw = map.containerPointToLayerPoint([0, 0]);
+      const se = map.containerPointToLayerPoint(map.getSize());
+      const divider = nw.x + map.getSize().x * compare.position;
+      pane.style.clip = `rect(${nw.y}px, ${se.x}px, ${se.y}px, ${divider}px)`;
+    };
+    updateClip();
+    map.on('move zoom resize', updateClip);
+    return () => {
+      map.off('move zoom resize', updateClip);
+    };
+  }, [compare.enabled, compare.position, mapReady]);
+
+  // Toggle layer visibility
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    Object.keys(CONFIG.roads.networks).forEach((key) => mapLayers.show(`road:${key}`, layersVisible[key]));
+  }, [layersVisible, mapReady, roadNetworks]);
+
+  // Load the DTM/DSM/nDSM once the map exists (all derivatives are computed
+  // client-side); only the DTM is required, the others enrich point queries
+  useEffect(() => {
+    if (!mapReady) return;
+    healthUtils.track(report, 'rasters', () => rasterUtils.loadRaster(CONFIG.terrain.dtmUrl))
+      .then((raster) => {
+        setRasters(r => ({ ...r, dtm: raster }));
+        setTerrainStatus('ready');
+      })
+      .catch((error) => {
+        console.error('DTM failed to load:', error);
+        setTerrainStatus('unavailable');
+      });
+    ([['dsm', CONFIG.terrain.dsmUrl], ['ndsm', CONFIG.terrain.ndsmUrl]] as [keyof TerrainRasters, string][]).forEach(([key, url]) => {
+      rasterUtils.loadRaster(url)
+        .then((raster) => setRasters(r => ({ ...r, [key]: raster })))
+        .catch((error) => console.warn(`Optional raster "${key}" not available:`, error));
+    });
+  }, [mapReady]);
+
+  const dtm = rasters.dtm;
+  const dtmWarp = useMemo(() => dtm && rasterUtils.buildWarp(dtm), [dtm]);
+  const dtmGradients = useMemo(() => dtm && terrainUtils.gradients(dtm), [dtm]);
+  const dtmStats = useMemo(() => (dtm ? rasterUtils.getStats(dtm.data) : null), [dtm]);
+  const roadCrossings = useMemo(() => {
+    const roads = CONFIG.runoff.networks.flatMap((key) => (roadNetworks[key] ? roadNetworks[key].geojson.features : []));
+    if (!roads.length || !hydrology.accumulation || !hydrology.d8 || !stationWeather.length) return null;
+    return runoffUtils.assessCrossings(
+      runoffUtils.findCrossings(roads, hydrology.accumulation), hydrology.d8, stationWeather
+    );
+  }, [roadNetworks, hydrology.accumulation, hydrology.d8, stationWeather]);
+  const vegetation = useMemo(() => {
+    const heights = vegetationUtils.heights(rasters);
+    if (!heights) return null;
+    const classes = vegetationUtils.classify(heights);
+    const polygons = aoi && aoi.geojson.features.flatMap((f) => (f.geometry ? geoUtils.polygons(f.geometry) : []));
+    const mask = polygons && rasterUtils.polygonMask(heights.raster, polygons);
+    return {
+      ...heights,
+      classes,
+      warp: rasterUtils.buildWarp(heights.raster),
+      stats: vegetationUtils.coverStats(heights, classes, mask),
+      inAoi: !!mask,
+      treeline: rasters.dtm ? vegetationUtils.treeline(heights, classes, rasters.dtm) : { bands: [], elevation: null }
+    };
+  }, [rasters, aoi]);
+  // The runout scan only depends on terrain, so forecast refreshes just rescore it
+  const avalancheZones = useMemo(() => {
+    if (!dtm || !dtmGradients) return null;
+    const roads = CONFIG.avalanche.networks.flatMap((key) => (roadNetworks[key] ? roadNetworks[key].geojson.features : []));
+    return avalancheUtils.startingZones(roads, dtm, dtmGradients);
+  }, [dtm, dtmGradients, roadNetworks]);
+  const avalanche = useMemo(() => {
+    if (!dtm || !dtmGradients || !avalancheZones || !weather.daily.length || !weather.hourly.length) return null;
+    const conditions = avalancheUtils.getConditions(weather);
+    const model = avalancheUtils.classify(dtm, dtmGradients, conditions);
+    const segments = avalancheUtils.roadExposure(avalancheZones, model);
+    return { model, segments, bullets: avalancheUtils.describe(model, segments, conditions) };
+  }, [dtm, dtmGradients, weather, avalancheZones]);
+  const d8Warp = useMemo(() => hydrology.d8 && rasterUtils.buildWarp(hydrology.d8), [hydrology.d8]);
+  const handOverlay = useMemo(() => {
+    if (!hydrology.hand) return null;
+    const warp = rasterUtils.buildWarp(hydrology.hand);
+    const url = rasterUtils.toImageUrl(
+      rasterUtils.applyWarp(warp, hydrology.hand.data), warp.width, warp.height, hydrologyUtils.handColor
+    );
+    return { url, bounds: warp.bounds };
+  }, [hydrology.hand]);
+
+  // The routing graph is only built while the route panel is in use
+  const routing = mapTool === 'route' || mapTool === 'close-road' || !!route.origin;
+  const routeGraph = useMemo(() => {
+    const network = routing && roadNetworks[ROUTING_PROFILES[route.mode].network];
+    return network ? routingUtils.buildGraph(network.geojson, dtm, route.mode) : null;
+  }, [routing, roadNetworks, dtm, route.mode]);
+  const routeAlertClosures = useMemo(
+    () => (routeGraph ? routingUtils.alertClosures(routeGraph, roadAlerts, stationWeather) : []),
+    [routeGraph, roadAlerts, stationWeather]
+  );
+  const routeResult = useMemo(() => {
+    if (!routeGraph || !route.origin || !route.destination) return null;
+    const closed = new Set([...routeAlertClosures, ...closures.map((c) => c.id)]);
+    return routingUtils.route(routeGraph, route.origin, route.destination, closed);
+  }, [routeGraph, routeAlertClosures, closures, route.origin, route.destination]);
+
+  useEffect(() => {
+    localStorage.setItem(CONFIG.routing.storageKey, JSON.stringify(closures));
+  }, [closures]);
+
+  const toggleClosure = (feature: RoadFeature) => {
+    const id = routingUtils.segmentId(feature.properties);
+    setClosures(c => (c.some((x) => x.id === id)
+      ? c.filter((x) => x.id !== id)
+      : [...c, { id, name: roadUtils.firstValue(feature.properties.name) || 'Unnamed road' }]));
+  };
+
+  const openProfile = (name: string, coordinates: Position[]) => {
+    if (!dtm) {
+      console.warn('Elevation profile needs the DTM, which is not loaded');
+      return;
+    }
+    setProfile({ name, ...profileUtils.computeProfile(coordinates, dtm) });
+    setProfileHover(null);
+    setActiveView('map');
+  };
+
+  // A placed or drawn incident opens the report form; the tool goes back to
+  // query so further clicks don't replace the geometry
+  const startIncident = (geometry: IncidentGeometry) => {
+    setIncidentDraft({ geometry, category: 'other', severity: 'warning', status: 'open', notes: '', photos: [] });
+    setActiveView('incidents');
+    setMapTool('query');
+  };
+
+  const finishDrawing = () => {
+    if (!canFinishDrawing(drawing)) return;
+    if (drawing.tool === 'profile-draw') {
+      openProfile('User-drawn line', drawing.vertices);
+    }
+    if (drawing.tool === 'dod-draw') {
+      setDod(d => ({ ...d, enabled: true, polygon: [...drawing.vertices, drawing.vertices[0]] }));
+      setActiveView('map');
+    }
+    if (drawing.tool === 'incident-line') {
+      startIncident({ type: 'LineString', coordinates: drawing.vertices });
+    }
+    if (drawing.tool === 'incident-area') {
+      startIncident({ type: 'Polygon', coordinates: [[...drawing.vertices, drawing.vertices[0]]] });
+    }
+    setDrawing(null);
+  };
+
+  // Map clicks are dispatched on the active tool. Drawing and catchment clicks
+  // go through features (closing their popups); the query tool leaves clicks
+  // on interactive features (roads, markers) to their own popups.
+  const handleMapClickRef = useRef<(e: LeafletMouseEvent) => void>(() => {});
+  handleMapClickRef.current = (e) => {
+    const onFeature = !!(e.originalEvent.target as Element).closest('.leaflet-interactive');
+    const position: Position = [e.latlng.lng, e.latlng.lat];
+    if (onFeature && mapTool !== 'query') mapRef.current!.closePopup();
+
+    if (MAP_TOOLS[mapTool].draw) {
+      setDrawing(d => {
+        if (!d || d.tool !== mapTool) return { tool: mapTool, vertices: [position] };
+        // The two clicks of a finishing double-click land on the same spot
+        const last = d.vertices[d.vertices.length - 1];
+        if (geoUtils.distance(last, position) < 0.5) return d;
+        return { ...d, vertices: [...d.vertices, position] };
+      });
+      return;
+    }
+    if (mapTool === 'catchment') {
+      if (!hydrology.d8) return;
+      setCatchment(hydrologyUtils.catchmentAt(hydrology.d8, hydrology.accumulation, e.latlng.lat, e.latlng.lng));
+      setActiveView('hydrology');
+      return;
+    }
+    if (mapTool === 'incident-point') {
+      startIncident({ type: 'Point', coordinates: position });
+      return;
+    }
+    if (mapTool === 'route') {
+      setRoute(r => (!r.origin || r.destination
+        ? { ...r, origin: position, destination: null }
+        : { ...r, destination: position }));
+      return;
+    }
+    if (mapTool === 'query' && !onFeature) {
+      const query = terrainUtils.queryPoint(rasters, dtmGradients, e.latlng.lat, e.latlng.lng);
+      setPointQuery(query);
+      window.L.popup()
+        .setLatLng(e.latlng)
+        .setContent(getPointQueryHtml(query))
+        .openOn(mapRef.current!);
+    }
+  };
+
+  const handleMapDblClickRef = useRef<(e: LeafletMouseEvent) => void>(() => {});
+  handleMapDblClickRef.current = () => finishDrawing();
+
+  const handleFeatureClickRef = useRef<(feature: RoadFeature, e: LeafletMouseEvent) => void>(() => {});
+  handleFeatureClickRef.current = (feature) => {
+    if (mapTool !== 'profile-road') return;
+    mapRef.current!.closePopup();
+    openProfile(roadUtils.firstValue(feature.properties.name) || 'Unnamed road', geoUtils.lines(feature.geometry).flat());
+  };
+
+  // Drawing tools: no double-click zoom, and a fresh sketch per tool
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+    if (MAP_TOOLS[mapTool].draw) {
+      mapRef.current.doubleClickZoom.disable();
+    } else {
+      mapRef.current.doubleClickZoom.enable();
+    }
+    setDrawing(null);
+  }, [mapTool, mapReady]);
+
+  // Sketch of the geometry being drawn
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('drawing');
+    if (!drawing) return;
+
+    const latLngs = drawing.vertices.map(([lon, lat]): LatLngTuple => [lat, lon]);
+    const sketchStyle: PolylineOptions = { color: '#f59e0b', weight: 3, dashArray: '4 4', interactive: false };
+    const drawingLayer = L.layerGroup([
+      MAP_TOOLS[drawing.tool].draw === 'polygon' ? L.polygon(latLngs, sketchStyle) : L.polyline(latLngs, sketchStyle),
+      ...latLngs.map((ll) => L.circleMarker(ll, { radius: 4, color: '#f59e0b', interactive: false }))
+    ]);
+    mapLayers.set('drawing', drawingLayer);
+  }, [drawing, mapReady]);
+
+  // Profile line on the map, hover-synced with the chart
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('profile');
+    if (!profile) return;
+
+    const profileLayer = L.polyline(profile.points.map((p) => [p.lat, p.lon]), {
+      color: '#1d4ed8',
+      weight: 5,
+      opacity: 0.8,
+      bubblingMouseEvents: false
+    });
+    profileLayer.on('mousemove', (e) => {
+      setProfileHover(profileUtils.nearestIndex(profile.points, e.latlng.lat, e.latlng.lng));
+    });
+    profileLayer.on('mouseout', () => setProfileHover(null));
+    mapLayers.set('profile', profileLayer);
+  }, [profile, mapReady]);
+
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+    const point = profile && profileHover !== null ? profile.points[profileHover] : null;
+
+    if (!point) {
+      mapLayers.remove('profileCursor');
+      return;
+    }
+    if (!mapLayers.get('profileCursor')) {
+      mapLayers.set('profileCursor', L.circleMarker([point.lat, point.lon], {
+        radius: 7, color: '#fff', weight: 2, fillColor: '#f59e0b', fillOpacity: 1, interactive: false
+      }));
+    } else {
+      mapLayers.get<CircleMarker>('profileCursor')!.setLatLng([point.lat, point.lon]);
+    }
+  }, [profile, profileHover, mapReady]);
+
+  // Route, its end points and closed segments. While closing segments every
+  // edge of the routing network is clickable, visible or not.
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('route');
+    if (!routeGraph) return;
+
+    const routeLayer = L.layerGroup();
+    const alertClosed = new Set(routeAlertClosures);
+    const manualClosed = new Set(closures.map((c) => c.id));
+    routeGraph.edges.forEach((edge) => {
+      const latLngs = edge.line.map(([lon, lat]): LatLngTuple => [lat, lon]);
+      const closed = manualClosed.has(edge.id) || alertClosed.has(edge.id);
+      if (closed) {
+        L.polyline(latLngs, {
+          color: manualClosed.has(edge.id) ? '#111827' : ALERT_SEVERITIES.critical.color,
+          weight: 6,
+          dashArray: '2 8',
+          interactive: false
+        }).addTo(routeLayer);
+      }
+      if (mapTool === 'close-road') {
+        L.polyline(latLngs, { color: '#ffffff', weight: 14, opacity: closed ? 0 : 0.15, bubblingMouseEvents: false })
+          .on('click', () => toggleClosure(edge.feature))
+          .addTo(routeLayer);
+      }
+    });
+    if (routeResult && !('error' in routeResult)) {
+      L.polyline(routeResult.coordinates.map(([lon, lat]): LatLngTuple => [lat, lon]), {
+        color: '#7c3aed', weight: 6, opacity: 0.85, interactive: false
+      }).addTo(routeLayer);
+    }
+    ([[route.origin, '#16a34a'], [route.destination, '#dc2626']] as [Position | null, string][]).forEach(([position, color]) => {
+      if (!position) return;
+      L.circleMarker([position[1], position[0]], {
+        radius: 7, color: '#fff', weight: 2, fillColor: color, fillOpacity: 1, interactive: false
+      }).addTo(routeLayer);
+    });
+    mapLayers.set('route', routeLayer);
+  }, [routeGraph, routeResult, routeAlertClosures, closures, route.origin, route.destination, mapTool, mapReady]);
+
+  // Render the selected terrain derivative as an image overlay
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('terrain');
+    if (!dtm || !dtmWarp || !dtmGradients || terrain.layer === 'none') return;
+
+    const values = terrain.layer === 'hillshade'
+      ? terrainUtils.hillshade(dtmGradients, terrain)
+      : terrainUtils[terrain.layer as 'slope' | 'aspect'](dtmGradients);
+    const warped = rasterUtils.applyWarp(dtmWarp, values);
+    const url = rasterUtils.toImageUrl(
+      warped, dtmWarp.width, dtmWarp.height, rasterUtils.colorRamp(TERRAIN_LAYERS[terrain.layer].stops)
+    );
+
+    const terrainLayer = L.imageOverlay(url, dtmWarp.bounds, {
+      opacity: CONFIG.terrain.opacity[terrain.layer],
+      pane: 'terrain',
+      interactive: false
+    });
+    mapLayers.set('terrain', terrainLayer);
+  }, [dtm, dtmWarp, dtmGradients, terrain, mapReady]);
+
+  // nDSM height classes; bare ground stays transparent
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('vegetation');
+    if (!vegetation || !layersVisible.vegetation) return;
+
+    const { warp, classes } = vegetation;
+    const values = Float32Array.from(classes, (c) => (c === 255 || c === 0 ? NaN : c));
+    const url = rasterUtils.toImageUrl(rasterUtils.applyWarp(warp, values), warp.width, warp.height, vegetationUtils.color);
+
+    const vegetationLayer = L.imageOverlay(url, warp.bounds, {
+      opacity: CONFIG.vegetation.opacity,
+      pane: 'terrain',
+      interactive: false
+    });
+    mapLayers.set('vegetation', vegetationLayer);
+  }, [vegetation, layersVisible.vegetation, mapReady]);
+
+  // Avalanche terrain exposure above the terrain derivative; cells that can't
+  // release stay transparent
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('avalanche');
+    if (!avalanche || !dtmWarp || !layersVisible.avalanche) return;
+
+    const values = avalanche.model.index.map((v) => (v > 0 ? v : NaN));
+    const url = rasterUtils.toImageUrl(
+      rasterUtils.applyWarp(dtmWarp, values), dtmWarp.width, dtmWarp.height, avalancheUtils.levelColor
+    );
+
+    const avalancheLayer = L.imageOverlay(url, dtmWarp.bounds, {
+      opacity: CONFIG.avalanche.opacity,
+      pane: 'terrain',
+      interactive: false
+    });
+    mapLayers.set('avalanche', avalancheLayer);
+  }, [avalanche, dtmWarp, layersVisible.avalanche, mapReady]);
+
+  // Both ALS epochs are loaded the first time elevation change is switched on
+  useEffect(() => {
+    if (!dod.enabled || dodRequested.current) return;
+    dodRequested.current = true;
+    setDodStatus('loading');
+    Promise.all(CONFIG.dod.epochs.map((epoch) =>
+      rasterUtils.loadRaster(epoch.url)
+        .then((raster) => setDodRasters(r => ({ ...r, [epoch.id]: raster })))
+        .then(() => true)
+        .catch((error) => {
+          console.error(`DTM epoch ${epoch.label} failed to load:`, error);
+          return false;
+        })
+    )).then((loaded) => setDodStatus(loaded.every(Boolean) ? 'ready' : 'some epochs unavailable'));
+  }, [dod.enabled]);
+
+  const dodResult = useMemo(() => {
+    if (!dod.enabled || dod.from === dod.to) return null;
+    const [earlier, later] = [dod.from, dod.to].sort((a, b) => a - b).map((i) => dodRasters[CONFIG.dod.epochs[i].id]);
+    if (!earlier || !later) return null;
+    const result = dodUtils.difference(earlier, later);
+    return { ...result, warp: rasterUtils.buildWarp(result.raster) };
+  }, [dod.enabled, dod.from, dod.to, dodRasters]);
+
+  const dodVolumes = useMemo(() => {
+    if (!dodResult) return null;
+    const polygons = dod.polygon
+      ? [[dod.polygon]]
+      : aoi && aoi.geojson.features.flatMap((f) => (f.geometry ? geoUtils.polygons(f.geometry) : []));
+    if (!polygons) return null;
+    return dodUtils.volumes(dodResult, rasterUtils.polygonMask(dodResult.raster, polygons));
+  }, [dodResult, dod.polygon, aoi]);
+
+  // Elevation change above the terrain derivatives, with the measured polygon
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('dod');
+    if (!dod.enabled) return;
+
+    const layers = [];
+    if (dodResult) {
+      const { warp, values } = dodResult;
+      const url = rasterUtils.toImageUrl(
+        rasterUtils.applyWarp(warp, dodUtils.displayValues(values)), warp.width, warp.height, dodUtils.color
+      );
+      layers.push(L.imageOverlay(url, warp.bounds, { opacity: CONFIG.dod.opacity, pane: 'terrain', interactive: false }));
+    }
+    if (dod.polygon) {
+      layers.push(L.polygon(dod.polygon.map(([lon, lat]) => [lat, lon]), {
+        color: '#111827', weight: 2, fill: false, interactive: false
+      }));
+    }
+    mapLayers.set('dod', L.layerGroup(layers));
+  }, [dod.enabled, dod.polygon, dodResult, mapReady]);
+
+  // The SAR manifest is fetched when the slider is first opened; acquisitions
+  // are loaded per band as the slider reaches them and kept for comparisons
+  useEffect(() => {
+    if (!sar.enabled || sarStatus !== 'idle') return;
+    setSarStatus('loading');
+    sarUtils.loadManifest(CONFIG.sar.manifestUrl)
+      .then((manifest) => {
+        setSarManifest(manifest);
+        setSar(s => ({ ...s, index: Math.max(0, manifest.acquisitions.length - 1), reference: 0 }));
+        setSarStatus(manifest.acquisitions.length ? 'ready' : 'no acquisitions');
+      })
+      .catch((error) => {
+        console.error('SAR manifest failed to load:', error);
+        setSarStatus('unavailable');
+      });
+  }, [sar.enabled, sarStatus]);
+
+  const sarKey = (index: number) => sarManifest && sarManifest.acquisitions[index]
+    ? `${sarManifest.acquisitions[index].url}#${sar.band}`
+    : '';
+
+  useEffect(() => {
+    if (!sar.enabled || !sarManifest) return;
+    const needed = sar.mode === 'backscatter' ? [sar.index] : [sar.index, sar.reference];
+    needed.forEach((index) => {
+      const key = sarKey(index);
+      if (!key || sarRequested.current.has(key)) return;
+      sarRequested.current.add(key);
+      const acquisition = sarManifest.acquisitions[index];
+      sarUtils.loadAcquisition(acquisition, sar.band)
+        .then((raster) => setSarRasters(r => ({ ...r, [key]: raster })))
+        .catch((error) => {
+          console.error(`SAR acquisition ${acquisition.label} failed to load:`, error);
+          setSarStatus(`${acquisition.label} unavailable`);
+        });
+    });
+  }, [sar.enabled, sar.mode, sar.index, sar.reference, sar.band, sarManifest]);
+
+  const sarProduct = useMemo(() => {
+    if (!sar.enabled || !sarManifest) return null;
+    const product = sarUtils.product(sar, sarRasters[sarKey(sar.index)], sarRasters[sarKey(sar.reference)]);
+    return product && { ...product, mode: sar.mode, warp: rasterUtils.buildWarp(product.raster) };
+  }, [sar, sarManifest, sarRasters]);
+
+  // Sentinel-1 product above the terrain derivatives
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('sar');
+    if (!sarProduct) return;
+
+    const { warp, values, mode } = sarProduct;
+    const url = rasterUtils.toImageUrl(
+      rasterUtils.applyWarp(warp, values), warp.width, warp.height, rasterUtils.colorRamp(SAR_PRODUCTS[mode].stops)
+    );
+
+    const sarLayer = L.imageOverlay(url, warp.bounds, {
+      opacity: CONFIG.sar.opacity,
+      pane: 'terrain',
+      interactive: false
+    });
+    mapLayers.set('sar', sarLayer);
+  }, [sarProduct, mapReady]);
+
+  // Hydrology data is only fetched the first time the view is opened
+  useEffect(() => {
+    if (activeView !== 'hydrology' || hydrologyRequested.current) return;
+    hydrologyRequested.current = true;
+
+    const load = <K extends keyof HydrologyData>(key: K, promise: Promise<HydrologyData[K]>) => promise
+      .then((value) => setHydrology(h => ({ ...h, [key]: value })))
+      .catch((error) => {
+        console.error(`Hydrology layer "${key}" failed to load:`, error);
+        setHydrology(h => ({ ...h, errors: { ...h.errors, [key]: error.message } }));
+      });
+
+    load('streams', hydrologyUtils.loadVectors(CONFIG.hydrology.streamsUrl));
+    load('watersheds', hydrologyUtils.loadVectors(CONFIG.hydrology.watershedsUrl).then(hydrologyUtils.summarizeWatersheds));
+    load('hand', rasterUtils.loadRaster(CONFIG.hydrology.handUrl));
+    load('d8', hydrologyUtils.loadGrid(CONFIG.hydrology.d8Url));
+    load('accumulation', hydrologyUtils.loadGrid(CONFIG.hydrology.flowAccumulationUrl));
+  }, [activeView]);
+
+  // Hydrology overlays are shown while the hydrology view is open
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('hydrology');
+    if (activeView !== 'hydrology') return;
+
+    const hydrologyLayer = L.layerGroup();
+    if (hydroLayers.hand && handOverlay) {
+      L.imageOverlay(handOverlay.url, handOverlay.bounds, {
+        opacity: CONFIG.hydrology.opacity.hand,
+        pane: 'terrain',
+        interactive: false
+      }).addTo(hydrologyLayer);
+    }
+    if (hydroLayers.watersheds && hydrology.watersheds) {
+      L.geoJSON(hydrology.watersheds.geojson, {
+        style: { color: '#7c3aed', weight: 1.5, fillColor: '#a78bfa', fillOpacity: 0.1 },
+        onEachFeature: (feature, layer) => {
+          layer.bindPopup(`<strong>Subbasin ${feature.properties.VALUE ?? feature.properties.FID ?? ''}</strong><br/>` +
+            `Area: ${feature.properties.areaKm2.toFixed(3)} km²`);
+        }
+      }).addTo(hydrologyLayer);
+    }
+    if (hydroLayers.streams && hydrology.streams) {
+      L.geoJSON(hydrology.streams, {
+        style: (feature) => ({
+          color: '#0ea5e9',
+          weight: Math.min(5, 1 + (feature!.properties.STRM_VAL || 1) * 0.5),
+          opacity: 0.9
+        }),
+        interactive: false
+      }).addTo(hydrologyLayer);
+    }
+    (roadCrossings || []).forEach((c) => {
+      L.circleMarker([c.lat, c.lon], { radius: 7, color: '#fff', weight: 2, fillColor: c.risk.color, fillOpacity: 1 })
+        .bindPopup(`<strong>${escapeHtml(c.road)}</strong><br/>Runoff risk: ${c.risk.label}<br/>` +
+          `Catchment: ${c.areaKm2.toFixed(2)} km²<br/>Runoff: ${Math.round(c.volume).toLocaleString()} m³/day`)
+        .addTo(hydrologyLayer);
+    });
+    mapLayers.set('hydrology', hydrologyLayer);
+  }, [activeView, hydrology.streams, hydrology.watersheds, handOverlay, hydroLayers, roadCrossings, mapReady]);
+
+  // Delineated catchment (rendered on the D8 grid)
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('catchment');
+    if (!catchment || !d8Warp) return;
+
+    const values = Float32Array.from(catchment.mask, (m) => (m ? 1 : NaN));
+    const url = rasterUtils.toImageUrl(rasterUtils.applyWarp(d8Warp, values), d8Warp.width, d8Warp.height, () => [249, 115, 22]);
+    const catchmentLayer = L.layerGroup([
+      L.imageOverlay(url, d8Warp.bounds, { opacity: CONFIG.hydrology.opacity.catchment, pane: 'terrain', interactive: false }),
+      L.circleMarker([catchment.outlet.lat, catchment.outlet.lon], { radius: 6, color: '#c2410c', fillOpacity: 1 })
+        .bindPopup(`<strong>Catchment outlet</strong><br/>${catchment.areaKm2.toFixed(3)} km²`)
+    ]);
+    mapLayers.set('catchment', catchmentLayer);
+  }, [catchment, d8Warp, mapReady]);
+
+  // Per-segment weather overlay on the road network
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+    const network = roadNetworks[CONFIG.roads.conditionNetwork];
+
+    mapLayers.remove('conditions');
+    if (!network || !stationWeather.length || !layersVisible.conditions) return;
+
+    const conditionsLayer = L.geoJSON(network.geojson, {
+      style: (feature) => roadUtils.getConditionStyle(feature as RoadFeature, stationWeather),
+      onEachFeature: (feature, layer) => {
+        const obs = roadUtils.nearestStation(feature as RoadFeature, stationWeather);
+        if (!obs) return;
+        layer.bindPopup(
+          `<strong>${obs.station.name}</strong> (${obs.station.elevation} m)<br/>` +
+          `Temperature: ${obs.temp !== null ? obs.temp.toFixed(1) : '—'} °C<br/>` +
+          `Road: ${ROAD_CONDITIONS[obs.roadCondition].label}`
+        );
+      }
+    });
+    mapLayers.set('conditions', conditionsLayer);
+    conditionsLayer.bringToBack();
+  }, [stationWeather, roadNetworks, layersVisible.conditions, mapReady]);
+
+  // Highlight road segments and stations with active alerts
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+    const network = roadNetworks[CONFIG.roads.conditionNetwork];
+
+    mapLayers.remove('alerts');
+    const active = roadAlerts.filter((a) => roadStatusUtils.isActive(a));
+    if (!active.length || !layersVisible.alerts) return;
+
+    // Highest severity per station (alerts are already sorted by severity)
+    const byStation: Record<string, RoadAlert> = {};
+    active.forEach((alert) => {
+      if (!byStation[alert.segment.stationId]) byStation[alert.segment.stationId] = alert;
+    });
+
+    const alertsLayer = L.layerGroup();
+    if (network) {
+      L.geoJSON(network.geojson, {
+        filter: (feature) => {
+          const obs = roadUtils.nearestStation(feature as RoadFeature, stationWeather);
+          return !!(obs && byStation[obs.station.id]);
+        },
+        style: (feature) => {
+          const obs = roadUtils.nearestStation(feature as RoadFeature, stationWeather)!;
+          return { color: ALERT_SEVERITIES[byStation[obs.station.id].severity].color, weight: 6, dashArray: '8 6' };
+        }
+      }).addTo(alertsLayer);
+    }
+    Object.values(byStation).forEach((alert) => {
+      L.circleMarker([alert.segment.lat, alert.segment.lon], {
+        radius: 9,
+        color: '#fff',
+        weight: 2,
+        fillColor: ALERT_SEVERITIES[alert.severity].color,
+        fillOpacity: 0.9
+      })
+        .bindPopup(`<strong>${alert.title}</strong><br/>${alert.segment.name} (${alert.segment.elevation} m)<br/>${alert.message}`)
+        .addTo(alertsLayer);
+    });
+    mapLayers.set('alerts', alertsLayer);
+  }, [roadAlerts, roadNetworks, stationWeather, layersVisible.alerts, mapReady]);
+
+  const incidentAdapter = INCIDENT_SYNC_ADAPTERS[CONFIG.incidents.sync];
+
+  const loadIncidents = () => incidentUtils.loadAll()
+    .then((list) => setIncidents(list.filter((i) => !i.deleted)))
+    .catch((error) => console.error('Incidents could not be loaded:', error));
+
+  const syncIncidents = () => {
+    if (!incidentAdapter) return Promise.resolve();
+    setIncidentSync(s => ({ ...s, status: 'syncing' }));
+    return incidentUtils.sync(incidentAdapter)
+      .then(() => {
+        setIncidentSync({ status: 'idle', at: Date.now(), error: null });
+        return loadIncidents();
+      })
+      .catch((error) => {
+        console.error('Incident sync failed:', error);
+        setIncidentSync(s => ({ ...s, status: 'error', error: error.message }));
+      });
+  };
+
+  useEffect(() => {
+    loadIncidents().then(() => syncIncidents());
+    if (!incidentAdapter) return undefined;
+    const timer = setInterval(() => syncIncidents(), CONFIG.incidents.syncInterval);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Local writes show at once; the sync runs behind them
+  const changeIncident = (write: Promise<unknown>) => write
+    .then(() => loadIncidents())
+    .then(() => syncIncidents())
+    .catch((error: unknown) => console.error('Incident could not be saved:', error));
+
+  const saveIncidentDraft = () => {
+    if (!incidentDraft) return;
+    const incident = incidentDraft.id ? incidentDraft as Incident : incidentUtils.create(incidentDraft.geometry, incidentDraft);
+    setIncidentDraft(null);
+    changeIncident(incidentUtils.save(incident));
+  };
+
+  const roadIncidents = useMemo(() => {
+    const roads = CONFIG.incidents.roadNetworks.flatMap((key) => (roadNetworks[key] ? roadNetworks[key].geojson.features : []));
+    return incidentUtils.nearRoads(incidents, roads);
+  }, [incidents, roadNetworks]);
+
+  const zoomToIncident = (incident: Incident) => {
+    if (!mapRef.current) return;
+    const positions = incidentUtils.positions(incident.geometry).map(([lon, lat]): LatLngTuple => [lat, lon]);
+    mapRef.current.fitBounds(positions, { maxZoom: 16, padding: [40, 40] });
+  };
+
+  // Incidents matching the panel filter, plus the geometry of an open report form
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const L = window.L;
+
+    mapLayers.remove('incidents');
+
+    const incidentLayer = L.layerGroup();
+    if (layersVisible.incidents) {
+      const shown = incidents.filter((incident) => incidentUtils.matchesFilter(incident, incidentFilter));
+      L.geoJSON(incidentUtils.toGeoJSON(shown), {
+        style: (feature) => ({
+          color: incidentUtils.category(feature!.properties.category).color,
+          weight: 2 + incidentUtils.severity(feature!.properties.severity).rank,
+          opacity: feature!.properties.status === 'resolved' ? 0.4 : 0.9,
+          fillOpacity: feature!.properties.status === 'resolved' ? 0.1 : 0.3
+        }),
+        pointToLayer: (feature, latlng) => L.circleMarker(latlng, {
+          radius: 5 + 2 * incidentUtils.severity(feature.properties.severity).rank,
+          fillColor: incidentUtils.category(feature.properties.category).color,
+          color: '#fff',
+          weight: 2,
+          fillOpacity: feature.properties.status === 'resolved' ? 0.4 : 0.95
+        }),
+        onEachFeature: (feature, layer) => {
+          const incident = shown.find((i) => i.id === feature.properties.id);
+          if (incident) layer.bindPopup(incidentUtils.getPopupContent(incident));
+        }
+      }).addTo(incidentLayer);
+    }
+    if (incidentDraft) {
+      L.geoJSON(incidentDraft.geometry, {
+        style: () => ({ color: '#f59e0b', weight: 3, dashArray: '4 4' }),
+        pointToLayer: (feature, latlng) => L.circleMarker(latlng, { radius: 8, color: '#f59e0b', weight: 3 }),
+        interactive: false
+      }).addTo(incidentLayer);
+    }
+    mapLayers.set('incidents', incidentLayer);
+  }, [incidents, incidentFilter, incidentDraft, layersVisible.incidents, mapReady]);
+
+  // Situation report of the current map view, weather, active alerts and road
+  // incidents
+  const exportReport = async (format: string) => {
+    if (!mapRef.current) return;
+    const map = mapRef.current;
+    setReportStatus({ busy: true, message: 'Rendering map…' });
+    try {
+      const rendered = await reportUtils.renderMap(map);
+      reportUtils.annotateMap(rendered, reportUtils.metersPerPixel(map.getCenter().lat, map.getZoom()));
+      const timestamp = new Date();
+      const report = {
+        timestamp,
+        weather,
+        alerts: roadAlerts.filter((a) => roadStatusUtils.isActive(a)),
+        incidents: roadIncidents,
+        legend: reportUtils.legend({ layersVisible, terrainLayer: terrain.layer, basemap })
+      };
+      const stamp = `${historyUtils.localDate(timestamp)}_${String(timestamp.getHours()).padStart(2, '0')}${String(timestamp.getMinutes()).padStart(2, '0')}`;
+      if (format === 'pdf') {
+        const jsPDF = await loadJsPdf();
+        downloadFile(`situation_report_${stamp}.pdf`, reportUtils.renderPdf(jsPDF, rendered, report).output('blob'), 'application/pdf');
+      } else {
+        const canvas = reportUtils.renderPng(rendered, report);
+        // toBlob hands back null when the canvas is too large to encode
+        const blob = await new Promise<Blob>((resolve, reject) => canvas.toBlob(
+          (result) => (result ? resolve(result) : reject(new Error(`the ${canvas.width} × ${canvas.height} px image could not be encoded`))),
+          'image/png'
+        ));
+        downloadFile(`situation_report_${stamp}.png`, blob, 'image/png');
+      }
+      setReportStatus({
+        busy: false,
+        message: rendered.skipped ? `${rendered.skipped} map images could not be exported (no CORS on their server)` : null
+      });
+    } catch (error) {
+      console.error('Situation report failed:', error);
+      setReportStatus({ busy: false, message: `Export failed: ${(error as Error).message}` });
+    }
+  };
+
+  // Mirror the shareable view state into the URL hash (without a history entry)
+  const sarAcquisition = sar.enabled && sarManifest ? sarManifest.acquisitions[sar.index] : null;
+  useEffect(() => {
+    const hash = viewStateUtils.serialize({
+      activeView,
+      basemap,
+      terrain: terrain.layer,
+      layersVisible,
+      center: mapView.center,
+      zoom: mapView.zoom,
+      feature: selectedFeature,
+      sarDate: sarAcquisition ? sarAcquisition.date : sar.enabled ? linkedSarDate : null
+    });
+    if (window.location.hash.slice(1) !== hash) window.history.replaceState(null, '', `#${hash}`);
+  }, [activeView, basemap, terrain.layer, layersVisible, mapView, selectedFeature, sarAcquisition, sar.enabled, linkedSarDate]);
+
+  // Applies a view link to the running app; only setters and refs are used,
+  // so the hashchange listener below can keep the first render's copy
+  const applyViewHash = (hash: string) => {
+    const { state, warnings } = viewStateUtils.parse(hash, DEFAULT_LAYERS);
+    setViewWarnings(warnings);
+    if (state.activeView) setActiveView(state.activeView);
+    if (state.basemap) setBasemap(state.basemap);
+    const { terrain: layer } = state;
+    if (layer) setTerrain(t => ({ ...t, layer }));
+    if (state.layersVisible) setLayersVisible(state.layersVisible);
+    if (state.center && mapRef.current) mapRef.current.setView(state.center, state.zoom);
+    if (mapRef.current) mapRef.current.closePopup();
+    setLinkedFeature(state.feature || null);
+    setLinkedSarDate(state.sarDate || null);
+    setSar(s => ({ ...s, enabled: !!state.sarDate }));
+  };
+
+  // Links opened in a running app arrive as hash changes
+  useEffect(() => {
+    const onHashChange = () => applyViewHash(window.location.hash);
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  // A saved view whose hash equals the current one would fire no hashchange,
+  // so it is applied directly; pushState keeps a history entry without one
+  const openView = (view: SavedView) => {
+    window.history.pushState(null, '', view.hash);
+    applyViewHash(view.hash);
+  };
+
+  // Open the popup of a linked road segment once its network has loaded
+  useEffect(() => {
+    if (!linkedFeature || !mapRef.current || !mapReady) return;
+    const [key, fid] = linkedFeature.split(':');
+    const network = roadNetworks[key];
+    if (!network) return;
+
+    setLinkedFeature(null);
+    const feature = network.geojson.features.find((f) => String(f.properties.fid) === fid);
+    if (!feature) {
+      setViewWarnings(w => [...w, `Road segment ${linkedFeature} no longer exists`]);
+      return;
+    }
+    const [lon, lat] = geoUtils.lineMidpoint(geoUtils.lines(feature.geometry).flat());
+    window.L.popup()
+      .setLatLng([lat, lon])
+      .setContent(roadUtils.getPopupHtml(feature.properties))
+      .on('remove', () => setSelectedFeature(f => (f === linkedFeature ? null : f)))
+      .openOn(mapRef.current);
+    setSelectedFeature(linkedFeature);
+  }, [linkedFeature, roadNetworks, mapReady]);
+
+  // Move the SAR slider to a linked acquisition once the manifest is loaded
+  useEffect(() => {
+    if (!linkedSarDate || !sarManifest) return;
+    const index = sarManifest.acquisitions.findIndex((a) => a.date.startsWith(linkedSarDate));
+    if (index >= 0) setSar(s => ({ ...s, index }));
+    else setViewWarnings(w => [...w, `SAR acquisition ${linkedSarDate} is not available`]);
+    setLinkedSarDate(null);
+  }, [linkedSarDate, sarManifest]);
+
+  useEffect(() => {
+    viewStateUtils.save(savedViews);
+  }, [savedViews]);
+
+  // Saving under an existing name replaces that view
+  const saveView = (name: string) => {
+    const view = { name, hash: window.location.hash, savedAt: new Date().toISOString() };
+    setSavedViews(v => [...v.filter((x) => x.name !== name), view]);
+  };
+
+  // The map shrinks to a side column in the 3D view and shows where the 3D
+  // camera is and what it looks at
+  useEffect(() => {
+    if (mapRef.current) mapRef.current.invalidateSize();
+    if (activeView !== '3d') setCamera3d(null);
+  }, [activeView]);
+
+  useEffect(() => {
+    if (!mapRef.current || !mapReady) return;
+
+    const map = mapRef.current;
+    const L = window.L;
+
+    mapLayers.remove('camera');
+    if (activeView !== '3d' || !camera3d) return;
+
+    const position: LatLngTuple = [camera3d.lat, camera3d.lon];
+    const cameraLayer = L.layerGroup([
+      L.polyline([position, [camera3d.targetLat, camera3d.targetLon]], { color: '#f59e0b', weight: 2, dashArray: '4 3' }),
+      L.circleMarker(position, { radius: 6, color: '#ffffff', weight: 2, fillColor: '#f59e0b', fillOpacity: 1 })
+        .bindTooltip(`3D camera · ${Math.round(camera3d.elevation)} m`)
+    ]);
+    mapLayers.set('camera', cameraLayer);
+    if (!map.getBounds().contains(position)) map.panTo(position);
+  }, [camera3d, activeView, mapReady]);
+
+  // Re-reads the cache sizes once `pending` settles; a failure (storage blocked,
+  // private mode) leaves the offline cache marked unavailable
+  const refreshCacheInfo = (pending: Promise<unknown>) => pending
+    .then(() => offlineUtils.getCacheInfo())
+    .then(setCacheInfo)
+    .catch((error: Error) => {
+      setCacheInfo(null);
+      setOfflineError(`Offline cache unavailable: ${error.message}`);
+    });
+
+  // Service worker for offline use
+  useEffect(() => {
+    refreshCacheInfo(offlineUtils.register());
+  }, []);
+
+  const offline = {
+    cacheInfo,
+    progress: offlineProgress,
+    error: offlineError,
+    // The AOI, or the current map view while the AOI hasn't loaded
+    onDownload: () => {
+      const view = mapRef.current && mapRef.current.getBounds();
+      const bounds: LatLonBounds | null = aoi ? aoi.bounds : view && [[view.getSouth(), view.getWest()], [view.getNorth(), view.getEast()]];
+      if (!bounds) return;
+      setOfflineError(null);
+      refreshCacheInfo(offlineUtils.downloadArea(bounds, setOfflineProgress)
+        .catch((error) => setOfflineError(error.message)));
+    },
+    onClear: () => {
+      setOfflineError(null);
+      refreshCacheInfo(offlineUtils.clear());
+      setOfflineProgress(null);
+    }
+  };
+
+  // Weather history: every station refresh is archived with the alerts it raised
+  const loadHistory = () => historyUtils.loadDays()
+    .then(setHistoryDays)
+    .catch((error) => setHistoryStatus(h => ({ ...h, error: error.message })));
+
+  useEffect(() => {
+    loadHistory();
+  }, []);
+
+  useEffect(() => {
+    if (!stationWeather.length) return;
+    historyUtils.record(stationWeather, roadAlerts, 'forecast')
+      .then(loadHistory)
+      .catch((error) => console.warn('Weather history not recorded:', error));
+  }, [stationWeather]);
+
+  useEffect(() => {
+    if (!stationObservations.length) return;
+    historyUtils.record(stationObservations, [], 'observed')
+      .then(loadHistory)
+      .catch((error) => console.warn('Weather history not recorded:', error));
+  }, [stationObservations]);
+
+  const importHistory = (file: File) => {
+    file.text()
+      .then((text) => {
+        const { rows, errors } = historyUtils.parseArchive(text, file.name);
+        return historyUtils.importDays(rows)
+          .then(() => setHistoryStatus({ error: null, imported: { file: file.name, rows: rows.length, errors } }));
+      })
+      .then(loadHistory)
+      .catch((error) => setHistoryStatus({ error: `Import failed: ${error.message}`, imported: null }));
+  };
+
+  const clearHistory = () => {
+    if (!window.confirm('Delete all archived weather history?')) return;
+    historyUtils.clear()
+      .then(() => setHistoryStatus({ error: null, imported: null }))
+      .then(loadHistory)
+      .catch((error) => setHistoryStatus(h => ({ ...h, error: error.message })));
+  };
+
+  // Load road status rules
+  useEffect(() => {
+    roadStatusUtils.loadRules(CONFIG.roadStatus.rulesUrl)
+      .then(setRoadStatusRules)
+      .catch((error) => {
+        console.error('Road status rules failed to load:', error);
+        setRulesError(error.message);
+      });
+  }, []);
+
+  // Fetch weather data; failed refreshes back off and retry, and the last
+  // good values stay on screen (flagged stale by the health monitor)
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = <T,>(source: string, request: () => Promise<T>, apply: (data: T) => void,
+      check: ((data: T) => string | null) | null = null) => healthUtils
+      .retry(
+        () => healthUtils.track(report, source, request, check),
+        (attempt, delay) => report(source, { retry: { attempt, delay } }),
+        () => cancelled
+      )
+      .then((data) => !cancelled && apply(data))
+      .catch((error) => {
+        report(source, { retry: null });
+        console.error(`${HEALTH_SOURCES[source].label} refresh failed:`, error);
+      });
+
+    const fetchData = () => {
+      refresh(
+        'weather',
+        () => getWeatherProvider(CONFIG.weather.provider).fetchWeather(CONFIG.map.center[0], CONFIG.map.center[1]),
+        setWeather,
+        (data) => (data.fromCache ? 'Network unavailable, forecast served from offline cache' : null)
+      );
+      refresh('stations', () => getWeatherProvider(CONFIG.weather.provider).fetchStations(CONFIG.weather.stations), setStationWeather);
+      if (CONFIG.weather.observationProvider) {
+        refresh(
+          'observations',
+          () => getWeatherProvider(CONFIG.weather.observationProvider).fetchObservations!(CONFIG.weather.stations),
+          setStationObservations
+        );
+      }
+    };
+
+    fetchData();
+    const interval = setInterval(fetchData, CONFIG.weather.updateInterval);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [report]);
+
+  // Map control handlers
+  const handleZoomIn = () => {
+    if (mapRef.current) mapRef.current.zoomIn();
+  };
+
+  const handleZoomOut = () => {
+    if (mapRef.current) mapRef.current.zoomOut();
+  };
+
+  const handleFitBounds = () => {
+    if (!mapRef.current || !window.L) return;
+    if (aoi) {
+      mapRef.current.fitBounds(aoi.bounds);
+    } else {
+      mapRef.current.setView(CONFIG.map.center, CONFIG.map.zoom);
+    }
+  };
+
+  return (
+    <HealthContext.Provider value={healthMonitor}>
+      <div className="h-screen bg-white flex flex-col">
+        <Header
+          activeView={activeView}
+          setActiveView={setActiveView}
+          views={savedViews}
+          onSaveView={saveView}
+          onOpenView={openView}
+          onDeleteView={(view) => setSavedViews(v => v.filter((x) => x.name !== view.name))}
+        />
+
+        <div className="flex-1 flex overflow-hidden">
+          {activeView === '3d' && (
+            <div className="flex-1 relative bg-gray-900">
+              <Terrain3DView
+                dtm={dtm}
+                basemap={basemap}
+                setBasemap={setBasemap}
+                orthophoto={orthophoto}
+                roadNetworks={roadNetworks}
+                layersVisible={layersVisible}
+                alerts={roadAlerts}
+                onCamera={setCamera3d}
+              />
+            </div>
+          )}
+
+          <div className={activeView === '3d' ? 'w-96 relative bg-gray-100 border-l' : 'flex-1 relative bg-gray-100'}>
+            {activeView !== '3d' && <MapControls
+              layersVisible={layersVisible}
+              setLayersVisible={setLayersVisible}
+              basemap={basemap}
+              setBasemap={setBasemap}
+              compare={compare}
+              setCompare={setCompare}
+              orthophotoStatus={orthophoto.status}
+              terrain={terrain}
+              setTerrain={setTerrain}
+              terrainStatus={terrainStatus}
+              sar={sar}
+              setSar={setSar}
+              setDod={setDod}
+              mapTool={mapTool}
+              setMapTool={setMapTool}
+              drawing={drawing}
+              onFinishDrawing={finishDrawing}
+              onCancelDrawing={() => setDrawing(null)}
+              onZoomIn={handleZoomIn}
+              onZoomOut={handleZoomOut}
+              onFitBounds={handleFitBounds}
+              reportStatus={reportStatus}
+              onExportReport={exportReport}
+            />}
+          
+            {activeView !== '3d' && <WeatherWidget weather={weather} alerts={roadAlerts} incidents={roadIncidents} />}
+
+            <div className="w-full h-full relative bg-gray-800">
+              <div ref={mapContainer} className="absolute inset-0" />
+
+              {viewWarnings.length > 0 && <ViewNotice warnings={viewWarnings} onClose={() => setViewWarnings([])} />}
+
+              {compare.enabled && <SwipeDivider basemap={basemap} compare={compare} setCompare={setCompare} />}
+
+              {sar.enabled && (
+                <SarTimeSlider sar={sar} setSar={setSar} manifest={sarManifest} status={sarStatus} product={sarProduct} />
+              )}
+
+              <div className="absolute bottom-4 left-4 bg-white bg-opacity-90 px-3 py-2 rounded text-xs z-[1000] flex items-end gap-3">
+                <div>
+                  <ScaleBar center={mapView.center} zoom={mapView.zoom} />
+                  <div className="text-gray-600">© Open Data / Contributors</div>
+                </div>
+                <NorthArrow />
+              </div>
+            </div>
+          </div>
+
+          {(activeView === 'weather' || activeView === 'info' || activeView === 'alerts' || activeView === 'history' ||
+            activeView === 'incidents' ||
+            activeView === 'hydrology' || (activeView === 'map' && (pointQuery || profile || dod.enabled || routing))) && (
+            <div className="w-96 bg-white border-l shadow-xl overflow-y-auto">
+              {activeView === 'weather' && <WeatherPanel weather={weather} stationWeather={stationWeather} observations={stationObservations} avalanche={avalanche} />}
+              {activeView === 'info' && <InfoPanel roadNetworks={roadNetworks} aoi={aoi} dtmStats={dtmStats} vegetation={vegetation} offline={offline} />}
+              {activeView === 'alerts' && <AlertsPanel alerts={roadAlerts} rulesError={rulesError} />}
+              {activeView === 'incidents' && (
+                <IncidentPanel
+                  incidents={incidents}
+                  draft={incidentDraft}
+                  setDraft={setIncidentDraft}
+                  onSaveDraft={saveIncidentDraft}
+                  filter={incidentFilter}
+                  setFilter={setIncidentFilter}
+                  syncState={incidentSync}
+                  onSync={syncIncidents}
+                  onUpdate={(incident, changes) => changeIncident(incidentUtils.save({ ...incident, ...changes }))}
+                  onDelete={(incident) => changeIncident(incidentUtils.remove(incident, !!incidentAdapter))}
+                  onZoom={zoomToIncident}
+                  setMapTool={setMapTool}
+                />
+              )}
+              {activeView === 'history' && (
+                <HistoryPanel days={historyDays} view={historyView} setView={setHistoryView} status={historyStatus}
+                  onImport={importHistory} onClear={clearHistory} />
+              )}
+              {activeView === 'hydrology' && (
+                <HydrologyPanel
+                  hydrology={hydrology}
+                  hydroLayers={hydroLayers}
+                  setHydroLayers={setHydroLayers}
+                  catchment={catchment}
+                  mapTool={mapTool}
+                  setMapTool={setMapTool}
+                />
+              )}
+              {activeView === 'hydrology' && (
+                <RunoffPanel
+                  crossings={roadCrossings || []}
+                  ready={!!roadCrossings}
+                  onSelect={(c) => mapRef.current && mapRef.current.setView([c.lat, c.lon], 16)}
+                />
+              )}
+              {activeView === 'map' && dod.enabled && (
+                <DodPanel
+                  dod={dod}
+                  setDod={setDod}
+                  status={dodStatus}
+                  result={dodResult}
+                  volumes={dodVolumes}
+                  onDrawPolygon={() => setMapTool('dod-draw')}
+                  onClose={() => setDod(d => ({ ...d, enabled: false }))}
+                />
+              )}
+              {activeView === 'map' && routing && (
+                <RoutePanel
+                  route={route}
+                  setRoute={setRoute}
+                  result={routeResult}
+                  alertClosures={routeAlertClosures}
+                  closures={closures}
+                  setClosures={setClosures}
+                  mapTool={mapTool}
+                  setMapTool={setMapTool}
+                  onClose={() => {
+                    setRoute(r => ({ ...r, origin: null, destination: null }));
+                    setMapTool('query');
+                  }}
+                />
+              )}
+              {activeView === 'map' && profile && (
+                <ProfilePanel
+                  profile={profile}
+                  hoverIndex={profileHover}
+                  onHover={setProfileHover}
+                  onClose={() => setProfile(null)}
+                />
+              )}
+              {activeView === 'map' && pointQuery && (
+                <PointQueryPanel query={pointQuery} onClose={() => setPointQuery(null)} />
+              )}
+            </div>
+          )}
+        </div>
+
+        <Footer weather={weather} cacheInfo={cacheInfo} offlineError={offlineError} />
+      </div>
+    </HealthContext.Provider>
+  );
+}
@@ -0,0 +1,70 @@
+// Local stand-in for the incident REST endpoint, for testing sync without a
+// backend: `node incident_mock_server.js [port]`, then set
+// CONFIG.incidents.sync = 'rest' in src/config.ts. Incidents are kept in
+// memory only; stop the server to reset.
+//
+//   GET /incidents?since=<syncedAt>  incidents stored after `since`
+//   PUT /incidents/<id>              store one incident (the later updatedAt wins)
+
+import http from 'node:http';
+
+const port = Number(process.argv[2]) || 8787;
+const incidents = {};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+// syncedAt must grow strictly so `since` never skips an incident stored in the
+// same millisecond
+let lastSyncedAt = 0;
+const nextSyncedAt = () => {
+  lastSyncedAt = Math.max(Date.now(), lastSyncedAt + 1);
+  return new Date(lastSyncedAt).toISOString();
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${port}`);
+  const match = url.pathname.match(/^\/incidents(?:\/([^/]+))?$/);
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (!match) return send(res, 404, { error: 'Not found' });
+
+  if (req.method === 'GET' && !match[1]) {
+    const since = url.searchParams.get('since') || '';
+    return send(res, 200, Object.values(incidents).filter((i) => i.syncedAt > since));
+  }
+
+  if (req.method === 'PUT' && match[1]) {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      let incident;
+      try {
+        incident = JSON.parse(body);
+      } catch (error) {
+        return send(res, 400, { error: 'Invalid JSON' });
+      }
+      const id = decodeURIComponent(match[1]);
+      if (incident.id !== id || !incident.updatedAt) return send(res, 400, { error: 'id and updatedAt are required' });
+
+      const current = incidents[id];
+      if (!current || current.updatedAt <= incident.updatedAt) {
+        incidents[id] = { ...incident, syncedAt: nextSyncedAt() };
+      }
+      console.log(`PUT ${id} (${incident.deleted ? 'deleted' : incident.category})`);
+      return send(res, 200, incidents[id]);
+    });
+    return undefined;
+  }
+
+  return send(res, 405, { error: 'Method not allowed' });
+});
+
+server.listen(port, () => console.log(`Incident mock server on http://localhost:${port}/incidents`));
@@ -0,0 +1,182 @@
+import { CONFIG, AVALANCHE_SLOPE_CLASSES, AVALANCHE_LEVELS } from './config';
+import { DEG, crsUtils } from './crs';
+import { RoadFeature, geoUtils, roadUtils } from './utils';
+import { WeatherState, weatherUtils } from './weather';
+import { Gradients, Raster, rasterUtils, terrainUtils } from './raster';
+
+// ============================================================================
+// AVALANCHE TERRAIN
+// ============================================================================
+
+export type AvalancheLevel = (typeof AVALANCHE_LEVELS)[number];
+
+export interface AvalancheConditions {
+  freshSnow: number; // cm over CONFIG.avalanche.snowDays
+  wind: number | null; // km/h
+  windDirection: number | null; // degrees the wind blows from
+  snowLine: number; // m
+}
+
+export interface AvalancheModel {
+  index: Float32Array; // hazard index per DTM cell, 0 = no release
+  counts: Record<number, number>; // cells per AVALANCHE_LEVELS level
+  releaseShare: number; // of the valid DTM cells
+}
+
+// Release-steep cells above each road sample, from startingZones
+export interface StartingZones {
+  name: string;
+  samples: { step: number; cells: Int32Array }[]; // step = m of road the sample stands for
+}
+
+// One road segment from roadExposure, lengths in m
+export interface AvalancheSegment {
+  name: string;
+  exposed: number;
+  length: number;
+  level: AvalancheLevel;
+}
+
+export const avalancheUtils = {
+  // Snow and wind inputs for the model, taken from the summit forecast
+  getConditions: (weather: WeatherState): AvalancheConditions => ({
+    freshSnow: weather.daily.slice(0, CONFIG.avalanche.snowDays).reduce((sum, d) => sum + (d.snowfall || 0), 0),
+    wind: weather.wind,
+    windDirection: weather.windDirection,
+    snowLine: weatherUtils.getSnowLine(weather.hourly) ?? 0
+  }),
+
+  // Shaded northern slopes keep weak layers longer; lee slopes (facing away
+  // from the wind) collect drifted snow when it blows above windLoading
+  aspectWeight: (aspect: number, { wind, windDirection }: AvalancheConditions) => {
+    if (aspect < 0) return 1;
+    let weight = 1 + 0.2 * Math.cos(aspect * DEG);
+    if (wind !== null && wind > CONFIG.avalanche.windLoading && windDirection !== null && windDirection !== undefined) {
+      const lee = (windDirection + 180) % 360;
+      const diff = Math.abs(((aspect - lee + 540) % 360) - 180);
+      if (diff <= 45) weight *= 1.3;
+    }
+    return weight;
+  },
+
+  snowWeight: ({ freshSnow }: AvalancheConditions) => 1 + Math.min(1, freshSnow / 30),
+
+  levelColor: (index: number) => {
+    const hex = (avalancheUtils.levelFor(index) ?? AVALANCHE_LEVELS[0]).color;
+    return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  },
+
+  levelFor: (index: number): AvalancheLevel | null =>
+    (index > 0 ? [...AVALANCHE_LEVELS].reverse().find((l) => index >= l.min) ?? null : null),
+
+  // Hazard index per DTM cell; 0 where the slope can't release or lies below the snow line
+  classify: (dtm: Raster, gradients: Gradients, conditions: AvalancheConditions): AvalancheModel => {
+    const slope = terrainUtils.slope(gradients);
+    const aspect = terrainUtils.aspect(gradients);
+    const index = new Float32Array(slope.length);
+    const snow = avalancheUtils.snowWeight(conditions);
+    const counts: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0 };
+    let valid = 0;
+
+    for (let i = 0; i < slope.length; i++) {
+      if (Number.isNaN(dtm.data[i])) continue;
+      valid++;
+      if (dtm.data[i] < conditions.snowLine) continue;
+      const slopeClass = AVALANCHE_SLOPE_CLASSES.find((c) => slope[i] >= c.min && slope[i] < c.max);
+      if (!slopeClass) continue;
+      index[i] = slopeClass.weight * avalancheUtils.aspectWeight(aspect[i], conditions) * snow;
+      counts[avalancheUtils.levelFor(index[i])!.level]++;
+    }
+
+    const release = counts[1] + counts[2] + counts[3] + counts[4];
+    return { index, counts, releaseShare: valid ? release / valid : 0 };
+  },
+
+  // Terrain half of the road exposure, independent of the forecast: for every
+  // road sample, the release-steep cells within maxRunout whose line to the
+  // road is at least alphaAngle steep. Computed once per DTM.
+  startingZones: (roadFeatures: RoadFeature[], dtm: Raster, gradients: Gradients): StartingZones[] => {
+    const [cellX, cellY] = rasterUtils.cellSize(dtm);
+    const spacing = Math.max(CONFIG.avalanche.sampleSpacing, cellX, cellY);
+    const rx = Math.ceil(CONFIG.avalanche.maxRunout / cellX);
+    const ry = Math.ceil(CONFIG.avalanche.maxRunout / cellY);
+    const tanAlpha = Math.tan(CONFIG.avalanche.alphaAngle * DEG);
+    const slope = terrainUtils.slope(gradients);
+    const minSlope = AVALANCHE_SLOPE_CLASSES[0].min;
+    const maxSlope = AVALANCHE_SLOPE_CLASSES[AVALANCHE_SLOPE_CLASSES.length - 1].max;
+    const none = new Int32Array(0);
+
+    const cellsAbove = (lon: number, lat: number) => {
+      const [x, y] = crsUtils.fromWgs84(dtm.epsg, [lon, lat]);
+      const [px, py] = rasterUtils.toPixel(dtm, x, y).map(Math.floor);
+      if (px < 0 || py < 0 || px >= dtm.width || py >= dtm.height) return none;
+      const z = dtm.data[py * dtm.width + px];
+      const cells: number[] = [];
+      for (let yy = Math.max(0, py - ry); yy <= Math.min(dtm.height - 1, py + ry); yy++) {
+        for (let xx = Math.max(0, px - rx); xx <= Math.min(dtm.width - 1, px + rx); xx++) {
+          const i = yy * dtm.width + xx;
+          if (!(slope[i] >= minSlope && slope[i] < maxSlope)) continue;
+          const horizontal = Math.hypot((xx - px) * cellX, (yy - py) * cellY);
+          if (horizontal > CONFIG.avalanche.maxRunout) continue;
+          if (dtm.data[i] - z >= horizontal * tanAlpha) cells.push(i);
+        }
+      }
+      return Int32Array.from(cells);
+    };
+
+    return roadFeatures.map((feature) => {
+      const samples: StartingZones['samples'] = [];
+      geoUtils.lines(feature.geometry).forEach((line) => {
+        const points = geoUtils.densify(line, spacing);
+        points.forEach((p, i) => {
+          if (i === 0) return;
+          samples.push({ step: p.distance - points[i - 1].distance, cells: cellsAbove(p.lon, p.lat) });
+        });
+      });
+      return {
+        name: roadUtils.firstValue(feature.properties.name) || roadUtils.getHighwayClass(feature.properties),
+        samples
+      };
+    });
+  },
+
+  // Metres of each road segment lying below a starting zone that the current
+  // hazard model rates as releasing
+  roadExposure: (zones: StartingZones[], model: AvalancheModel) => zones.map(({ name, samples }) => {
+    let length = 0;
+    let exposed = 0;
+    let worst = 0;
+    samples.forEach(({ step, cells }) => {
+      let threat = 0;
+      for (let k = 0; k < cells.length; k++) threat = Math.max(threat, model.index[cells[k]]);
+      length += step;
+      if (threat > 0) exposed += step;
+      worst = Math.max(worst, threat);
+    });
+    return { name, length, exposed, level: avalancheUtils.levelFor(worst) };
+  }).filter((segment): segment is AvalancheSegment => segment.exposed > 0 && segment.level !== null)
+    .sort((a, b) => b.exposed - a.exposed),
+
+  // Generated analysis bullets for WeatherPanel
+  describe: (model: AvalancheModel, segments: AvalancheSegment[], conditions: AvalancheConditions) => {
+    const bullets: string[] = [];
+    const worst = [...AVALANCHE_LEVELS].reverse().find((l) => model.counts[l.level] > 0);
+    const above = conditions.snowLine > 0 ? ` above ${Math.round(conditions.snowLine / 50) * 50} m` : '';
+    bullets.push(worst
+      ? `${worst.label} avalanche terrain exposure${above} ` +
+        `(${(model.releaseShare * 100).toFixed(1)}% of the DTM is potential release area)`
+      : `No potential release areas${above}`);
+    if (conditions.freshSnow > 0) {
+      bullets.push(`${Math.round(conditions.freshSnow)} cm fresh snow over ${CONFIG.avalanche.snowDays} days loads the starting zones`);
+    }
+    if (conditions.wind !== null && conditions.wind > CONFIG.avalanche.windLoading && conditions.windDirection !== null) {
+      bullets.push(`Wind loading on ${terrainUtils.compassDirection((conditions.windDirection + 180) % 360)}-facing ` +
+        `slopes (${Math.round(conditions.wind)} km/h wind)`);
+    }
+    const exposed = segments.reduce((sum, s) => sum + s.exposed, 0);
+    bullets.push(exposed > 0
+      ? `${(exposed / 1000).toFixed(2)} km of road below steep starting zones`
+      : 'No road sections below steep starting zones');
+    return bullets;
+  }
+};
@@ -0,0 +1,459 @@
+import React from 'react';
+import { Mountain, Crosshair, X, TrendingUp, Download, Droplets, Waves, Navigation } from 'lucide-react';
+import { CONFIG, HAND_CLASSES, DOD_STOPS, MAP_TOOLS, ROUTING_PROFILES } from '../config';
+import { downloadFile } from '../utils';
+import { PointQuery, terrainUtils } from '../raster';
+import { Profile, ProfilePoint, profileUtils } from '../profile';
+import { AssessedCrossing, Catchment, HydroLayers, HydrologyData } from '../hydrology';
+import { DodResult, DodSettings, DodVolumes } from '../dod';
+import { Closure, Route, RouteRequest } from '../routing';
+import { rampGradient } from './mapControls';
+
+// ============================================================================
+// COMPONENTS: ANALYSIS PANELS
+// ============================================================================
+
+interface HydrologyPanelProps {
+  hydrology: HydrologyData;
+  hydroLayers: HydroLayers;
+  setHydroLayers: React.Dispatch<React.SetStateAction<HydroLayers>>;
+  catchment: Catchment | null;
+  mapTool: string;
+  setMapTool: (tool: string) => void;
+}
+
+export const HydrologyPanel = ({ hydrology, hydroLayers, setHydroLayers, catchment, mapTool, setMapTool }: HydrologyPanelProps) => (
+  <div className="p-6">
+    <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+      <Droplets className="text-blue-600" />Hydrology
+    </h2>
+
+    <div className="space-y-4">
+      <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700 space-y-2">
+        <h3 className="font-semibold text-gray-800">Layers</h3>
+        {([['streams', 'Stream network'], ['watersheds', 'Watersheds'], ['hand', 'HAND flood susceptibility']] as [keyof HydroLayers, string][]).map(([key, label]) => (
+          <label key={key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={hydroLayers[key]}
+              onChange={() => setHydroLayers(l => ({ ...l, [key]: !l[key] }))}
+            />
+            {label}
+            {hydrology.errors[key] && <span className="text-xs text-red-600">unavailable</span>}
+          </label>
+        ))}
+      </div>
+
+      {hydroLayers.hand && (
+        <div className="bg-gray-50 rounded-lg p-4">
+          <h3 className="font-semibold text-gray-800 mb-2 text-sm">Height above nearest drainage</h3>
+          {HAND_CLASSES.map((c, i) => (
+            <div key={c.label} className="flex items-center gap-2 text-xs text-gray-600">
+              <span className="w-4 h-3 rounded border" style={{ background: c.color }} />
+              <span className="flex-1">{c.label}</span>
+              <span className="font-mono">
+                {i === 0 ? '0' : HAND_CLASSES[i - 1].max}{c.max === Infinity ? '+' : `–${c.max}`} m
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {hydrology.watersheds && (
+        <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600 space-y-1">
+          <h3 className="font-semibold text-gray-800 mb-2">Watersheds</h3>
+          <div className="flex justify-between"><span>Subbasins:</span><span className="font-mono">{hydrology.watersheds.count}</span></div>
+          <div className="flex justify-between"><span>Total area:</span><span className="font-mono">{hydrology.watersheds.totalKm2.toFixed(2)} km²</span></div>
+          <div className="flex justify-between"><span>Largest:</span><span className="font-mono">{hydrology.watersheds.largestKm2.toFixed(2)} km²</span></div>
+        </div>
+      )}
+
+      <div className="bg-blue-50 rounded-lg p-4 text-sm">
+        <h3 className="font-semibold text-blue-900 mb-2">Upstream catchment</h3>
+        {mapTool !== 'catchment' && (
+          <button onClick={() => setMapTool('catchment')} className="px-3 py-2 bg-blue-600 text-white rounded text-xs">
+            Pick outlet on map
+          </button>
+        )}
+        {mapTool === 'catchment' && !catchment && (
+          <p className="text-blue-800 text-xs">{MAP_TOOLS.catchment.hint}</p>
+        )}
+        {!hydrology.d8 && <p className="text-xs text-gray-500 mt-2">D8 pointer grid not loaded.</p>}
+        {catchment && (
+          <div className="text-blue-800 space-y-1 mt-2">
+            <div className="flex justify-between"><span>Area:</span><span className="font-mono">{catchment.areaKm2.toFixed(3)} km²</span></div>
+            <div className="flex justify-between"><span>Cells:</span><span className="font-mono">{catchment.cells.toLocaleString()}</span></div>
+            <div className="flex justify-between">
+              <span>Outlet:</span>
+              <span className="font-mono">{catchment.outlet.lat.toFixed(5)}, {catchment.outlet.lon.toFixed(5)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+interface RunoffPanelProps {
+  crossings: AssessedCrossing[];
+  ready: boolean;
+  onSelect: (crossing: AssessedCrossing) => void;
+}
+
+export const RunoffPanel = ({ crossings, ready, onSelect }: RunoffPanelProps) => (
+  <div className="p-6 border-t">
+    <h2 className="text-xl font-bold text-gray-800 mb-1 flex items-center gap-2">
+      <Waves className="text-blue-600" />Runoff Risk at Road Crossings
+    </h2>
+    <p className="text-xs text-gray-500 mb-3">
+      Streams above {CONFIG.runoff.accumulationThreshold.toLocaleString()} flow accumulation crossing the road,
+      scored on the wettest of the next {CONFIG.runoff.forecastDays} forecast days (rain + snowmelt).
+    </p>
+
+    {!ready && <div className="text-sm text-gray-500">Waiting for roads, D8 / accumulation grids and station weather…</div>}
+    {ready && crossings.length === 0 && <div className="text-sm text-gray-500">No stream crossings above the threshold.</div>}
+
+    <div className="space-y-2">
+      {crossings.map((c) => (
+        <button
+          key={c.id}
+          onClick={() => onSelect(c)}
+          className="w-full text-left bg-gray-50 hover:bg-gray-100 rounded-lg p-3 text-xs text-gray-700"
+        >
+          <div className="flex items-center justify-between">
+            <span className="font-semibold text-sm">{c.road}</span>
+            <span className="px-2 py-0.5 rounded text-white" style={{ background: c.risk.color }}>{c.risk.label}</span>
+          </div>
+          <div className="flex justify-between mt-1">
+            <span>Catchment {c.areaKm2.toFixed(2)} km²</span>
+            <span>{Math.round(c.waterInput)} mm → {Math.round(c.volume).toLocaleString()} m³/day</span>
+          </div>
+          {c.date && <div className="text-gray-500">Peak day {c.date} · weather from {c.station}</div>}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const formatMeters = (value: number, digits = 1) => (Number.isNaN(value) ? '—' : `${value.toFixed(digits)} m`);
+
+const formatDegrees = (value: number) => (Number.isNaN(value) ? '—' : `${value.toFixed(1)}°`);
+
+export const getPointQueryHtml = (q: PointQuery) =>
+  `<strong>${formatMeters(q.elevation)}</strong> a.s.l.<br/>` +
+  `Object height: ${formatMeters(q.height)}<br/>` +
+  `Slope: ${formatDegrees(q.slope)} · Aspect: ${q.aspect < 0 ? 'flat' : formatDegrees(q.aspect)}`;
+
+export const PointQueryPanel = ({ query, onClose }: { query: PointQuery; onClose: () => void }) => (
+  <div className="p-6">
+    <div className="flex items-center justify-between mb-4">
+      <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+        <Crosshair className="text-blue-600" />Point Query
+      </h2>
+      <button onClick={onClose} className="text-gray-500 hover:text-gray-800"><X size={18} /></button>
+    </div>
+
+    <div className="space-y-4">
+      <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600 space-y-1">
+        <h3 className="font-semibold text-gray-800 mb-2">Terrain</h3>
+        <div className="flex justify-between"><span>Elevation (DTM):</span><span className="font-mono">{formatMeters(query.elevation, 2)}</span></div>
+        <div className="flex justify-between"><span>Surface (DSM):</span><span className="font-mono">{formatMeters(query.surface, 2)}</span></div>
+        <div className="flex justify-between"><span>Vegetation / building (nDSM):</span><span className="font-mono">{formatMeters(query.height, 2)}</span></div>
+        <div className="flex justify-between"><span>Slope:</span><span className="font-mono">{formatDegrees(query.slope)}</span></div>
+        <div className="flex justify-between">
+          <span>Aspect:</span>
+          <span className="font-mono">
+            {Number.isNaN(query.aspect) ? '—' : `${query.aspect < 0 ? '' : formatDegrees(query.aspect)} ${terrainUtils.compassDirection(query.aspect)}`}
+          </span>
+        </div>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600 space-y-1">
+        <h3 className="font-semibold text-gray-800 mb-2">Coordinates</h3>
+        <div className="flex justify-between"><span>WGS84 lat / lon:</span><span className="font-mono">{query.lat.toFixed(6)}, {query.lon.toFixed(6)}</span></div>
+        <div className="flex justify-between">
+          <span>EPSG:{CONFIG.map.localCrs} x / y:</span>
+          <span className="font-mono">{query.local[0].toFixed(2)}, {query.local[1].toFixed(2)}</span>
+        </div>
+      </div>
+
+      {Number.isNaN(query.elevation) && (
+        <p className="text-xs text-gray-500">This point lies outside the loaded DTM.</p>
+      )}
+    </div>
+  </div>
+);
+
+// Distance/elevation chart; hovering reports the nearest sample index
+interface ProfileChartProps {
+  points: ProfilePoint[];
+  hoverIndex: number | null;
+  onHover: (index: number | null) => void;
+  width?: number;
+  height?: number;
+}
+
+const ProfileChart = ({ points, hoverIndex, onHover, width = 320, height = 170 }: ProfileChartProps) => {
+  const valid = points.filter((p) => !Number.isNaN(p.elevation));
+  if (valid.length < 2) return null;
+
+  const pad = { top: 10, right: 10, bottom: 22, left: 40 };
+  const innerW = width - pad.left - pad.right;
+  const innerH = height - pad.top - pad.bottom;
+  const maxDistance = points[points.length - 1].distance || 1;
+  const minZ = Math.min(...valid.map((p) => p.elevation));
+  const maxZ = Math.max(...valid.map((p) => p.elevation));
+  const x = (d: number) => pad.left + (d / maxDistance) * innerW;
+  const y = (z: number) => pad.top + innerH - ((z - minZ) / (maxZ - minZ || 1)) * innerH;
+
+  const line = valid.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.distance).toFixed(1)},${y(p.elevation).toFixed(1)}`).join(' ');
+  const area = `${line} L${x(valid[valid.length - 1].distance)},${pad.top + innerH} L${x(valid[0].distance)},${pad.top + innerH} Z`;
+  const hover = hoverIndex !== null ? points[hoverIndex] : null;
+
+  const handleMove = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const d = ((e.clientX - rect.left - pad.left) / innerW) * maxDistance;
+    let best = 0;
+    points.forEach((p, i) => {
+      if (Math.abs(p.distance - d) < Math.abs(points[best].distance - d)) best = i;
+    });
+    onHover(best);
+  };
+
+  return (
+    <svg width={width} height={height} className="text-gray-500" onMouseMove={handleMove} onMouseLeave={() => onHover(null)}>
+      <path d={area} fill="#bfdbfe" />
+      <path d={line} fill="none" stroke="#1d4ed8" strokeWidth="1.5" />
+      <g fontSize="9" fill="currentColor">
+        <text x={pad.left - 3} y={pad.top + 8} textAnchor="end">{Math.round(maxZ)}</text>
+        <text x={pad.left - 3} y={pad.top + innerH} textAnchor="end">{Math.round(minZ)}</text>
+        <text x={pad.left} y={height - 6}>0</text>
+        <text x={width - pad.right} y={height - 6} textAnchor="end">{(maxDistance / 1000).toFixed(2)} km</text>
+      </g>
+      {hover && !Number.isNaN(hover.elevation) && (
+        <g>
+          <line x1={x(hover.distance)} x2={x(hover.distance)} y1={pad.top} y2={pad.top + innerH} stroke="#f59e0b" />
+          <circle cx={x(hover.distance)} cy={y(hover.elevation)} r="3" fill="#f59e0b" />
+          <text x={x(hover.distance) + 4} y={pad.top + 10} fontSize="10" fill="#92400e">
+            {Math.round(hover.elevation)} m · {hover.gradient.toFixed(1)}%
+          </text>
+        </g>
+      )}
+    </svg>
+  );
+};
+
+interface ProfilePanelProps {
+  profile: Profile;
+  hoverIndex: number | null;
+  onHover: (index: number | null) => void;
+  onClose: () => void;
+}
+
+export const ProfilePanel = ({ profile, hoverIndex, onHover, onClose }: ProfilePanelProps) => {
+  const { stats } = profile;
+  const slug = profile.name.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  return (
+    <div className="p-6 border-b">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <TrendingUp className="text-blue-600" />Elevation Profile
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800"><X size={18} /></button>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">{profile.name}</p>
+
+      <ProfileChart points={profile.points} hoverIndex={hoverIndex} onHover={onHover} />
+
+      <div className="bg-gray-50 rounded-lg p-4 mt-3 text-sm text-gray-600 space-y-1">
+        <div className="flex justify-between"><span>Length:</span><span className="font-mono">{(stats.length / 1000).toFixed(2)} km</span></div>
+        <div className="flex justify-between">
+          <span>Elevation:</span>
+          <span className="font-mono">{formatMeters(stats.minElevation, 0)} – {formatMeters(stats.maxElevation, 0)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Ascent / descent:</span>
+          <span className="font-mono">+{Math.round(stats.ascent)} / −{Math.round(stats.descent)} m</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Max gradient ({CONFIG.profile.gradientWindow} m):</span>
+          <span className="font-mono">{stats.maxGradient.toFixed(1)}%</span>
+        </div>
+        {stats.missing > 0 && (
+          <div className="text-xs text-gray-500">{stats.missing} samples outside the DTM</div>
+        )}
+      </div>
+
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={() => downloadFile(`${slug}_profile.csv`, profileUtils.toCsv(profile), 'text/csv')}
+          className="flex-1 px-3 py-2 border rounded text-sm hover:bg-gray-50 flex items-center justify-center gap-1"
+        >
+          <Download size={14} /> CSV
+        </button>
+        <button
+          onClick={() => downloadFile(`${slug}_profile.geojson`, JSON.stringify(profileUtils.toGeoJSON(profile)), 'application/geo+json')}
+          className="flex-1 px-3 py-2 border rounded text-sm hover:bg-gray-50 flex items-center justify-center gap-1"
+        >
+          <Download size={14} /> GeoJSON (3D)
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const formatVolume = (m3: number) => (Math.abs(m3) >= 1e6 ? `${(m3 / 1e6).toFixed(2)} Mio. m³` : `${Math.round(m3).toLocaleString()} m³`);
+
+// Elevation change between two ALS epochs and the volume budget of an area
+interface DodPanelProps {
+  dod: DodSettings;
+  setDod: React.Dispatch<React.SetStateAction<DodSettings>>;
+  status: string;
+  result: DodResult | null;
+  volumes: DodVolumes | null;
+  onDrawPolygon: () => void;
+  onClose: () => void;
+}
+
+export const DodPanel = ({ dod, setDod, status, result, volumes, onDrawPolygon, onClose }: DodPanelProps) => {
+  const { epochs } = CONFIG.dod;
+  const gradient = rampGradient(DOD_STOPS);
+  return (
+    <div className="p-6 border-b">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+          <Mountain className="text-blue-600" />Elevation Change
+        </h2>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800"><X size={18} /></button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+        {([['from', 'Earlier'], ['to', 'Later']] as ['from' | 'to', string][]).map(([key, label]) => (
+          <label key={key} className="text-xs font-medium text-gray-600">
+            {label}
+            <select value={dod[key]} onChange={(e) => setDod(d => ({ ...d, [key]: Number(e.target.value) }))}
+              className="w-full mt-1 p-2 border rounded text-sm">
+              {epochs.map((epoch, i) => <option key={epoch.id} value={i}>{epoch.label}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {status !== 'ready' && <div className="text-sm text-gray-500 mb-3">DTM epochs: {status}</div>}
+      {dod.from === dod.to && <div className="text-sm text-gray-500 mb-3">Choose two different epochs.</div>}
+
+      {result && (
+        <>
+          <div className="h-2 rounded" style={{ background: `linear-gradient(to right, ${gradient})` }} />
+          <div className="flex justify-between text-xs text-gray-600 mt-1 mb-3">
+            <span>{DOD_STOPS[0][0]} m</span>
+            <span>loss · gain (±{CONFIG.dod.levelOfDetection} m hidden)</span>
+            <span>+{DOD_STOPS[DOD_STOPS.length - 1][0]} m</span>
+          </div>
+        </>
+      )}
+
+      {volumes && (
+        <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600 space-y-1">
+          <div className="font-medium text-gray-800">{dod.polygon ? 'Drawn polygon' : 'Area of interest'}</div>
+          <div className="flex justify-between"><span>Area:</span><span className="font-mono">{(volumes.areaM2 / 1e6).toFixed(3)} km²</span></div>
+          <div className="flex justify-between"><span>Changed:</span><span className="font-mono">{(volumes.changedM2 / 1e6).toFixed(3)} km²</span></div>
+          <div className="flex justify-between"><span>Gained:</span><span className="font-mono text-blue-700">+{formatVolume(volumes.gain)}</span></div>
+          <div className="flex justify-between"><span>Lost:</span><span className="font-mono text-red-700">−{formatVolume(volumes.loss)}</span></div>
+          <div className="flex justify-between font-semibold"><span>Net:</span><span className="font-mono">{formatVolume(volumes.net)}</span></div>
+        </div>
+      )}
+
+      <div className="flex gap-2 mt-3">
+        <button onClick={onDrawPolygon}
+          className="flex-1 px-3 py-2 border rounded text-sm hover:bg-gray-50">Draw polygon</button>
+        <button onClick={() => setDod(d => ({ ...d, polygon: null }))} disabled={!dod.polygon}
+          className="flex-1 px-3 py-2 border rounded text-sm hover:bg-gray-50 disabled:text-gray-400">Use AOI</button>
+      </div>
+    </div>
+  );
+};
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Route between two clicked points, avoiding segments closed by alerts or by hand
+interface RoutePanelProps {
+  route: RouteRequest;
+  setRoute: React.Dispatch<React.SetStateAction<RouteRequest>>;
+  result: Route | { error: string } | null;
+  alertClosures: string[];
+  closures: Closure[];
+  setClosures: React.Dispatch<React.SetStateAction<Closure[]>>;
+  mapTool: string;
+  setMapTool: (tool: string) => void;
+  onClose: () => void;
+}
+
+export const RoutePanel = ({ route, setRoute, result, alertClosures, closures, setClosures, mapTool, setMapTool, onClose }: RoutePanelProps) => (
+  <div className="p-6 border-b">
+    <div className="flex items-center justify-between mb-2">
+      <h2 className="text-2xl font-bold text-gray-800 flex items-center gap-2">
+        <Navigation className="text-blue-600" />Route
+      </h2>
+      <button onClick={onClose} className="text-gray-500 hover:text-gray-800"><X size={18} /></button>
+    </div>
+
+    <div className="flex gap-1 mb-3">
+      {Object.entries(ROUTING_PROFILES).map(([key, profile]) => (
+        <button
+          key={key}
+          onClick={() => setRoute(r => ({ ...r, mode: key }))}
+          className={`flex-1 px-3 py-1.5 rounded text-sm ${route.mode === key ? 'bg-blue-600 text-white' : 'border hover:bg-gray-50'}`}
+        >
+          {profile.label}
+        </button>
+      ))}
+    </div>
+
+    <p className="text-sm text-gray-600 mb-3">
+      {!route.origin && 'Click the map to set the origin.'}
+      {route.origin && !route.destination && 'Click the map to set the destination.'}
+      {route.destination && !result && `Loading the ${CONFIG.roads.networks[ROUTING_PROFILES[route.mode].network].label} network…`}
+      {result && 'error' in result && result.error}
+    </p>
+
+    {result && !('error' in result) && (
+      <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-600 space-y-1">
+        <div className="flex justify-between"><span>Distance:</span><span className="font-mono">{(result.distance / 1000).toFixed(2)} km</span></div>
+        <div className="flex justify-between">
+          <span>Ascent / descent:</span>
+          <span className="font-mono">+{Math.round(result.ascent)} / −{Math.round(result.descent)} m</span>
+        </div>
+        <div className="flex justify-between font-semibold"><span>Travel time:</span><span className="font-mono">{formatDuration(result.time)}</span></div>
+      </div>
+    )}
+
+    <div className="flex gap-2 mt-3">
+      <button onClick={() => setMapTool('route')} disabled={mapTool === 'route'}
+        className="flex-1 px-3 py-2 border rounded text-sm hover:bg-gray-50 disabled:text-gray-400">Pick points</button>
+      <button onClick={() => setMapTool('close-road')} disabled={mapTool === 'close-road'}
+        className="flex-1 px-3 py-2 border rounded text-sm hover:bg-gray-50 disabled:text-gray-400">Close segments</button>
+    </div>
+
+    <h3 className="font-semibold text-gray-800 mt-4 mb-2">Closed segments</h3>
+    {alertClosures.length > 0 && (
+      <p className="text-sm text-red-700 mb-2">{alertClosures.length} segments closed by active alerts</p>
+    )}
+    {closures.length === 0 && <p className="text-sm text-gray-500">No manual closures.</p>}
+    <ul className="text-sm text-gray-700 space-y-1">
+      {closures.map((closure) => (
+        <li key={closure.id} className="flex items-center justify-between">
+          <span>{closure.name}</span>
+          <button onClick={() => setClosures(c => c.filter((x) => x.id !== closure.id))}
+            className="text-xs text-blue-600 hover:underline">Reopen</button>
+        </li>
+      ))}
+    </ul>
+    {closures.length > 0 && (
+      <button onClick={() => setClosures([])} className="mt-2 text-xs text-gray-500 hover:underline">Reopen all</button>
+    )}
+  </div>
+);
@@ -0,0 +1,46 @@
+import React, { useContext, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { HEALTH_STATUS } from '../config';
+import { CacheInfo, formatBytes } from '../offline';
+import { WeatherState } from '../weather';
+import { HealthContext, HealthPopover } from './health';
+
+// ============================================================================
+// COMPONENTS: FOOTER
+// ============================================================================
+
+interface FooterProps {
+  weather: WeatherState;
+  cacheInfo: CacheInfo | null;
+  offlineError: string | null; // why the cache could not be read
+}
+
+export const Footer = ({ weather, cacheInfo, offlineError }: FooterProps) => {
+  const { status } = useContext(HealthContext)!;
+  const [showHealth, setShowHealth] = useState(false);
+  return (
+    <footer className="bg-gray-800 text-gray-300 py-3 px-6">
+      <div className="max-w-7xl mx-auto flex items-center justify-between text-xs">
+        <div className="flex items-center gap-4">
+          <span>© 2025 Großglockner Digital Twin</span>
+          <span className="flex items-center gap-1">
+            <Clock size={12} /> Last updated: {
+              weather.fetchedAt ? new Date(weather.fetchedAt).toLocaleString() : '—'
+            }{weather.fromCache && ' (cached)'}
+          </span>
+        </div>
+        <div className="flex items-center gap-4">
+          {cacheInfo && <span>Offline cache: {formatBytes(cacheInfo.bytes)}</span>}
+          {!cacheInfo && offlineError && <span title={offlineError}>Offline cache: unavailable</span>}
+          <div className="relative">
+            <button onClick={() => setShowHealth(v => !v)} className="flex items-center gap-1 hover:text-white">
+              <div className={`w-2 h-2 rounded-full ${HEALTH_STATUS[status].dot}`} />
+              <span>{HEALTH_STATUS[status].label}</span>
+            </button>
+            {showHealth && <HealthPopover onClose={() => setShowHealth(false)} />}
+          </div>
+        </div>
+      </div>
+    </footer>
+  );
+};
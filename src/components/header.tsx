@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { Cloud, Info, AlertTriangle, Map, Mountain, X, Droplets, BarChart3, Box, Bookmark, Flag } from 'lucide-react';
+import { SavedView } from '../viewState';
+
+// ============================================================================
+// COMPONENTS: HEADER
+// ============================================================================
+
+// Named views saved in localStorage; each is a URL hash, so opening one is the
+// same as following a shared link
+interface ViewsMenuProps {
+  views: SavedView[];
+  onSave: (name: string) => void;
+  onOpen: (view: SavedView) => void;
+  onDelete: (view: SavedView) => void;
+}
+
+const ViewsMenu = ({ views, onSave, onOpen, onDelete }: ViewsMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName('');
+  };
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href)
+      .then(() => setCopied(true))
+      .catch((error) => console.warn('Link could not be copied:', error));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => { setOpen(!open); setCopied(false); }}
+        className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${open ? 'bg-blue-700' : 'hover:bg-blue-700'}`}
+      >
+        <Bookmark size={16} /> Views
+      </button>
+      {open && (
+        <div className="absolute top-full right-0 mt-2 w-72 bg-white text-gray-700 rounded-lg shadow-xl p-3 z-[1100]">
+          <div className="flex items-center justify-between mb-2">
+            <span className="font-semibold text-gray-800">Saved views</span>
+            <button onClick={() => setOpen(false)} className="text-gray-500 hover:text-gray-800"><X size={14} /></button>
+          </div>
+          {views.length === 0 && <p className="text-xs text-gray-500 mb-2">No saved views yet.</p>}
+          <ul className="space-y-1 mb-3 max-h-64 overflow-y-auto">
+            {views.map((view) => (
+              <li key={view.name} className="flex items-center justify-between text-sm">
+                <button onClick={() => { onOpen(view); setOpen(false); }} className="text-left text-blue-700 hover:underline truncate">
+                  {view.name}
+                </button>
+                <button onClick={() => onDelete(view)} className="text-gray-400 hover:text-red-600" title="Delete view">
+                  <X size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <form onSubmit={save} className="flex gap-2">
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name this view"
+              className="flex-1 min-w-0 p-1.5 border rounded text-sm" />
+            <button type="submit" disabled={!name.trim()}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded text-sm disabled:bg-gray-300">Save</button>
+          </form>
+          <button onClick={copyLink} className="mt-2 text-xs text-blue-600 hover:underline">
+            {copied ? 'Link copied' : 'Copy link to this view'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Dismissible list of URL parameters that could not be applied
+export const ViewNotice = ({ warnings, onClose }: { warnings: string[]; onClose: () => void }) => (
+  <div className="absolute top-4 left-1/2 -translate-x-1/2 max-w-md bg-amber-50 border border-amber-300 text-amber-900 rounded-lg shadow-lg px-4 py-2 text-xs z-[1000]">
+    <div className="flex items-start justify-between gap-3">
+      <div>
+        <div className="font-semibold mb-1">Some link settings were ignored</div>
+        <ul className="list-disc pl-4">
+          {warnings.map((warning) => <li key={warning}>{warning}</li>)}
+        </ul>
+      </div>
+      <button onClick={onClose} className="text-amber-700 hover:text-amber-900"><X size={14} /></button>
+    </div>
+  </div>
+);
+
+interface HeaderProps {
+  activeView: string;
+  setActiveView: (view: string) => void;
+  views: SavedView[];
+  onSaveView: ViewsMenuProps['onSave'];
+  onOpenView: ViewsMenuProps['onOpen'];
+  onDeleteView: ViewsMenuProps['onDelete'];
+}
+
+export const Header = ({ activeView, setActiveView, views, onSaveView, onOpenView, onDeleteView }: HeaderProps) => (
+  <header className="bg-gradient-to-r from-blue-900 via-blue-800 to-blue-900 text-white shadow-lg">
+    <div className="max-w-7xl mx-auto px-6 py-4 flex items-center justify-between">
+      <div className="flex items-center gap-3">
+        <Mountain className="w-8 h-8" />
+        <div>
+          <h1 className="text-2xl font-bold tracking-wide">GROSSGLOCKNER</h1>
+          <p className="text-xs text-blue-200">High Alpine Road · Digital Twin Platform</p>
+        </div>
+      </div>
+
+      <nav className="flex items-center gap-6 text-sm">
+        <button 
+          onClick={() => setActiveView('map')} 
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${
+            activeView === 'map' ? 'bg-white text-blue-900 font-semibold' : 'hover:bg-blue-700'
+          }`}
+        >
+          <Map size={16} /> Map
+        </button>
+        <button 
+          onClick={() => setActiveView('3d')} 
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${
+            activeView === '3d' ? 'bg-white text-blue-900 font-semibold' : 'hover:bg-blue-700'
+          }`}
+        >
+          <Box size={16} /> 3D
+        </button>
+        <button 
+          onClick={() => setActiveView('weather')} 
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${
+            activeView === 'weather' ? 'bg-white text-blue-900 font-semibold' : 'hover:bg-blue-700'
+          }`}
+        >
+          <Cloud size={16} /> Weather
+        </button>
+        <button 
+          onClick={() => setActiveView('history')} 
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${
+            activeView === 'history' ? 'bg-white text-blue-900 font-semibold' : 'hover:bg-blue-700'
+          }`}
+        >
+          <BarChart3 size={16} /> History
+        </button>
+        <button 
+          onClick={() => setActiveView('info')} 
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${
+            activeView === 'info' ? 'bg-white text-blue-900 font-semibold' : 'hover:bg-blue-700'
+          }`}
+        >
+          <Info size={16} /> Info
+        </button>
+        <button 
+          onClick={() => setActiveView('hydrology')} 
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${
+            activeView === 'hydrology' ? 'bg-white text-blue-900 font-semibold' : 'hover:bg-blue-700'
+          }`}
+        >
+          <Droplets size={16} /> Hydrology
+        </button>
+        <button 
+          onClick={() => setActiveView('alerts')} 
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${
+            activeView === 'alerts' ? 'bg-white text-blue-900 font-semibold' : 'hover:bg-blue-700'
+          }`}
+        >
+          <AlertTriangle size={16} /> Alerts
+        </button>
+        <button 
+          onClick={() => setActiveView('incidents')} 
+          className={`flex items-center gap-2 px-4 py-2 rounded transition-all ${
+            activeView === 'incidents' ? 'bg-white text-blue-900 font-semibold' : 'hover:bg-blue-700'
+          }`}
+        >
+          <Flag size={16} /> Incidents
+        </button>
+        <ViewsMenu views={views} onSave={onSaveView} onOpen={onOpenView} onDelete={onDeleteView} />
+      </nav>
+    </div>
+  </header>
+);
@@ -0,0 +1,96 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { CONFIG, HEALTH_SOURCES, HEALTH_STATUS } from '../config';
+import { HealthReporter, healthUtils, formatAgo } from '../health';
+
+// ============================================================================
+// COMPONENTS: SYSTEM HEALTH
+// ============================================================================
+
+export type HealthMonitor = ReturnType<typeof useHealthMonitor>;
+
+// Data-source health, provided by App and read by the footer and weather displays
+export const HealthContext = createContext<HealthMonitor | null>(null);
+
+// Health state plus connectivity; `now` ticks so staleness shows up even when
+// no request finishes
+export const useHealthMonitor = () => {
+  const [health, setHealth] = useState(healthUtils.initialState);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [now, setNow] = useState(() => Date.now());
+  const report = useMemo((): HealthReporter => (source, update) => setHealth(h => healthUtils.record(h, source, update)), []);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    const interval = setInterval(() => setNow(Date.now()), CONFIG.health.tick);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      clearInterval(interval);
+    };
+  }, []);
+
+  const statuses = useMemo(() => Object.fromEntries(Object.entries(HEALTH_SOURCES).map(([key, source]) => [
+    key, healthUtils.sourceStatus(health[key], source, Math.max(now, Date.now()))
+  ])), [health, now]);
+
+  return { health, statuses, online, now, report, status: healthUtils.overall(statuses, online) };
+};
+
+// Shown next to values that come from a failed or overdue refresh
+export const StaleNotice = ({ source, since, className = '' }: { source: string; since: string | null | undefined; className?: string }) => {
+  const { health, statuses, now } = useContext(HealthContext)!;
+  if (statuses[source] !== 'stale' && statuses[source] !== 'error') return null;
+  const { retry } = health[source];
+  return (
+    <div className={`flex items-center gap-1 text-xs ${className}`}>
+      <AlertTriangle size={12} />
+      {since ? `Stale · data from ${formatAgo(new Date(since).getTime(), now)}` : 'No data'}
+      {retry && ` · retry ${retry.attempt}/${CONFIG.health.retry.attempts - 1}`}
+    </div>
+  );
+};
+
+export const HealthPopover = ({ onClose }: { onClose: () => void }) => {
+  const { health, statuses, now } = useContext(HealthContext)!;
+  return (
+    <div className="absolute bottom-full right-0 mb-2 w-80 bg-white text-gray-700 rounded-lg shadow-xl p-3 z-[1100]">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-gray-800">Data sources</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-800"><X size={14} /></button>
+      </div>
+      <div className="space-y-2">
+        {Object.entries(HEALTH_SOURCES).map(([key, source]) => {
+          const entry = health[key];
+          return (
+            <div key={key} className="text-xs">
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 font-medium">
+                  <span className={`w-2 h-2 rounded-full ${HEALTH_STATUS[statuses[key]].dot}`} />{source.label}
+                </span>
+                <span>{HEALTH_STATUS[statuses[key]].label}</span>
+              </div>
+              <div className="text-gray-500 pl-4">
+                Last success {formatAgo(entry.lastSuccess, now)}
+                {entry.latency !== null && ` · ${Math.round(entry.latency)} ms`}
+                {source.staleAfter && ` · stale after ${Math.round(source.staleAfter / 60000)} min`}
+              </div>
+              {entry.lastError && (
+                <div className="text-red-600 pl-4 truncate" title={entry.lastError.message}>
+                  {formatAgo(entry.lastError.at, now)}: {entry.lastError.message}
+                </div>
+              )}
+              {entry.retry && (
+                <div className="text-amber-600 pl-4">
+                  Retry {entry.retry.attempt} of {CONFIG.health.retry.attempts - 1} in {Math.round(entry.retry.delay / 1000)} s
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { X, Download, Flag, Trash2 } from 'lucide-react';
+import { CONFIG, ALERT_SEVERITIES, INCIDENT_CATEGORIES } from '../config';
+import { downloadFile } from '../utils';
+import { formatAgo } from '../health';
+import { INCIDENT_SYNC_ADAPTERS, Incident, IncidentDraft, IncidentFilter, IncidentSyncState, incidentUtils } from '../incidents';
+
+// ============================================================================
+// COMPONENTS: INCIDENTS
+// ============================================================================
+
+// Category, severity, notes and photos of a new or edited incident
+interface IncidentFormProps {
+  draft: IncidentDraft;
+  setDraft: React.Dispatch<React.SetStateAction<IncidentDraft | null>>;
+  onSave: () => void;
+  onCancel: () => void;
+}
+
+const IncidentForm = ({ draft, setDraft, onSave, onCancel }: IncidentFormProps) => {
+  const [reading, setReading] = useState(false);
+  const addPhotos = (files: FileList | null) => {
+    if (!files) return;
+    setReading(true);
+    Promise.all([...files].map(incidentUtils.readPhoto))
+      .then((photos) => setDraft(d => d && ({ ...d, photos: [...d.photos, ...photos] })))
+      .catch((error) => console.error('Photo could not be read:', error))
+      .finally(() => setReading(false));
+  };
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 mb-4 space-y-2">
+      <div className="font-medium text-gray-800 text-sm">
+        {draft.createdAt ? 'Edit incident' : `New incident (${draft.geometry.type.toLowerCase()})`}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs font-medium text-gray-600">
+          Category
+          <select value={draft.category} onChange={(e) => setDraft(d => d && ({ ...d, category: e.target.value }))}
+            className="w-full mt-1 p-2 border rounded text-sm">
+            {Object.entries(INCIDENT_CATEGORIES).map(([key, c]) => <option key={key} value={key}>{c.label}</option>)}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          Severity
+          <select value={draft.severity} onChange={(e) => setDraft(d => d && ({ ...d, severity: e.target.value }))}
+            className="w-full mt-1 p-2 border rounded text-sm">
+            {Object.entries(ALERT_SEVERITIES).map(([key, sev]) => <option key={key} value={key}>{sev.label}</option>)}
+          </select>
+        </label>
+      </div>
+      <label className="block text-xs font-medium text-gray-600">
+        Notes
+        <textarea value={draft.notes} onChange={(e) => setDraft(d => d && ({ ...d, notes: e.target.value }))} rows={3}
+          className="w-full mt-1 p-2 border rounded text-sm" />
+      </label>
+      <div className="flex flex-wrap gap-2">
+        {draft.photos.map((src, i) => (
+          <div key={i} className="relative">
+            <img src={src} alt="" className="w-16 h-16 object-cover rounded" />
+            <button onClick={() => setDraft(d => d && ({ ...d, photos: d.photos.filter((_, j) => j !== i) }))}
+              className="absolute -top-1 -right-1 bg-white rounded-full shadow text-gray-600 hover:text-red-600">
+              <X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+      <label className="block text-xs text-blue-600 cursor-pointer hover:underline">
+        {reading ? 'Reading photos…' : 'Attach photos'}
+        <input type="file" accept="image/*" multiple className="hidden"
+          onChange={(e) => { addPhotos(e.target.files); e.target.value = ''; }} />
+      </label>
+      <div className="flex gap-2 pt-1">
+        <button onClick={onSave} disabled={reading} className="flex-1 px-3 py-2 bg-blue-600 text-white rounded text-sm disabled:bg-gray-300">
+          Save
+        </button>
+        <button onClick={onCancel} className="flex-1 px-3 py-2 border rounded text-sm hover:bg-gray-50">Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+interface IncidentPanelProps {
+  incidents: Incident[];
+  draft: IncidentDraft | null;
+  setDraft: React.Dispatch<React.SetStateAction<IncidentDraft | null>>;
+  onSaveDraft: () => void;
+  filter: IncidentFilter;
+  setFilter: React.Dispatch<React.SetStateAction<IncidentFilter>>;
+  syncState: IncidentSyncState;
+  onSync: () => void;
+  onUpdate: (incident: Incident, changes: Partial<Incident>) => void;
+  onDelete: (incident: Incident) => void;
+  onZoom: (incident: Incident) => void;
+  setMapTool: (tool: string) => void;
+}
+
+export const IncidentPanel = ({
+  incidents, draft, setDraft, onSaveDraft, filter, setFilter, syncState, onSync,
+  onUpdate, onDelete, onZoom, setMapTool
+}: IncidentPanelProps) => {
+  const shown = incidents
+    .filter((incident) => incidentUtils.matchesFilter(incident, filter))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  const adapter = INCIDENT_SYNC_ADAPTERS[CONFIG.incidents.sync];
+
+  return (
+    <div className="p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <Flag className="text-orange-600" />Incidents
+      </h2>
+
+      <div className="flex gap-2 mb-4">
+        {[['incident-point', 'Point'], ['incident-line', 'Line'], ['incident-area', 'Area']].map(([tool, label]) => (
+          <button key={tool} onClick={() => setMapTool(tool)}
+            className="flex-1 px-3 py-2 border rounded text-sm hover:bg-gray-50">Report {label.toLowerCase()}</button>
+        ))}
+      </div>
+
+      {draft && <IncidentForm draft={draft} setDraft={setDraft} onSave={onSaveDraft} onCancel={() => setDraft(null)} />}
+
+      <div className="grid grid-cols-2 gap-2 mb-2">
+        <select value={filter.category} onChange={(e) => setFilter(f => ({ ...f, category: e.target.value }))}
+          className="p-2 border rounded text-sm">
+          <option value="all">All categories</option>
+          {Object.entries(INCIDENT_CATEGORIES).map(([key, c]) => <option key={key} value={key}>{c.label}</option>)}
+        </select>
+        <select value={filter.severity} onChange={(e) => setFilter(f => ({ ...f, severity: e.target.value }))}
+          className="p-2 border rounded text-sm">
+          {Object.entries(ALERT_SEVERITIES).map(([key, sev]) => <option key={key} value={key}>{sev.label} and above</option>)}
+        </select>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-600 mb-3">
+        <input type="checkbox" checked={filter.resolved} onChange={(e) => setFilter(f => ({ ...f, resolved: e.target.checked }))} />
+        Show resolved
+      </label>
+
+      <div className="space-y-3">
+        {shown.length === 0 && <div className="text-sm text-gray-500">No incidents match the filter.</div>}
+        {shown.map((incident) => {
+          const severity = incidentUtils.severity(incident.severity);
+          return (
+            <div key={incident.id} className={`${severity.card} border-l-4 rounded-lg p-3 ${incident.status === 'resolved' ? 'opacity-60' : ''}`}>
+              <div className="flex items-center justify-between">
+                <span className="flex items-center gap-2 font-semibold text-sm text-gray-800">
+                  <span className="w-2.5 h-2.5 rounded-full" style={{ background: incidentUtils.category(incident.category).color }} />
+                  {incidentUtils.category(incident.category).label}
+                </span>
+                <span className={`text-xs font-medium ${severity.text}`}>
+                  {incident.status === 'resolved' ? 'Resolved' : severity.label}
+                </span>
+              </div>
+              {incident.notes && <p className="text-xs text-gray-700 mt-1">{incident.notes}</p>}
+              <div className="text-xs text-gray-500 mt-1">
+                {new Date(incident.createdAt).toLocaleString()}
+                {incident.photos.length > 0 && ` · ${incident.photos.length} photo${incident.photos.length > 1 ? 's' : ''}`}
+                {adapter && !incident.synced && ' · not synced'}
+              </div>
+              <div className="flex gap-3 mt-2 text-xs">
+                <button onClick={() => onZoom(incident)} className="text-blue-600 hover:underline">Show</button>
+                <button onClick={() => setDraft({ ...incident })} className="text-blue-600 hover:underline">Edit</button>
+                <button onClick={() => onUpdate(incident, { status: incident.status === 'open' ? 'resolved' : 'open' })}
+                  className="text-blue-600 hover:underline">{incident.status === 'open' ? 'Resolve' : 'Reopen'}</button>
+                <button onClick={() => onDelete(incident)} className="ml-auto text-gray-500 hover:text-red-600" title="Delete">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => downloadFile('incidents.geojson', JSON.stringify(incidentUtils.toGeoJSON(shown)), 'application/geo+json')}
+        disabled={!shown.length}
+        className="w-full mt-4 px-3 py-2 border rounded text-sm hover:bg-gray-50 disabled:text-gray-400 flex items-center justify-center gap-1"
+      >
+        <Download size={14} /> Export GeoJSON
+      </button>
+
+      <div className="text-xs text-gray-500 mt-3 flex items-center justify-between">
+        <span>
+          {!adapter && 'Stored on this device only'}
+          {adapter && syncState.status === 'syncing' && `Syncing with ${adapter.label}…`}
+          {adapter && syncState.status === 'error' && <span className="text-red-600">Sync failed: {syncState.error}</span>}
+          {adapter && syncState.status === 'idle' && (syncState.at ? `Synced ${formatAgo(syncState.at)}` : 'Not synced yet')}
+        </span>
+        {adapter && <button onClick={onSync} className="text-blue-600 hover:underline">Sync now</button>}
+      </div>
+    </div>
+  );
+};
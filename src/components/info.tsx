@@ -0,0 +1,179 @@
+import React from 'react';
+import { Info, Download } from 'lucide-react';
+import { CONFIG } from '../config';
+import { getWeatherProvider } from '../weather';
+import { CacheInfo, OfflineProgress, formatBytes } from '../offline';
+import { RasterStats } from '../raster';
+import { Aoi, RoadNetwork } from '../utils';
+import { Vegetation } from '../vegetation';
+
+// ============================================================================
+// COMPONENTS: INFO
+// ============================================================================
+
+const VegetationCard = ({ vegetation }: { vegetation: Vegetation | null }) => (
+  <div className="bg-gray-50 rounded-lg p-4">
+    <h3 className="font-semibold text-gray-800 mb-2">Vegetation & Structures (nDSM)</h3>
+    {vegetation ? (
+      <div className="text-sm text-gray-600 space-y-1">
+        <div className="flex justify-between">
+          <span>Forest cover{vegetation.inAoi ? ' in AOI' : ''}:</span>
+          <span className="font-mono">{(vegetation.stats.forestCover * 100).toFixed(1)}%</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Treeline (≥{CONFIG.vegetation.treelineCover * 100}% forest):</span>
+          <span className="font-mono">{vegetation.treeline.elevation !== null ? `~${vegetation.treeline.elevation} m` : '—'}</span>
+        </div>
+        <div className="flex h-2 rounded overflow-hidden mt-2">
+          {vegetation.stats.shares.map((c) => (
+            <div key={c.key} style={{ width: `${c.share * 100}%`, background: c.color }} title={c.label} />
+          ))}
+        </div>
+        {vegetation.stats.shares.map((c) => (
+          <div key={c.key} className="flex justify-between text-xs">
+            <span className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm" style={{ background: c.color }} />{c.label}
+            </span>
+            <span className="font-mono">{(c.share * 100).toFixed(1)}%</span>
+          </div>
+        ))}
+      </div>
+    ) : (
+      <div className="text-sm text-gray-500">Waiting for the nDSM (or DSM and DTM)…</div>
+    )}
+  </div>
+);
+
+export interface OfflineControls {
+  cacheInfo: CacheInfo | null;
+  progress: OfflineProgress | null;
+  error: string | null;
+  onDownload: () => void;
+  onClear: () => void;
+}
+
+const OfflineCard = ({ cacheInfo, progress, error, onDownload, onClear }: OfflineControls) => {
+  const busy = !!progress && progress.done < progress.total;
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <h3 className="font-semibold text-gray-800 mb-2">Offline Use</h3>
+      <div className="text-sm text-gray-600 space-y-1">
+        <div className="flex justify-between">
+          <span>Cache size:</span>
+          <span className="font-mono">{cacheInfo ? formatBytes(cacheInfo.bytes) : '—'}</span>
+        </div>
+        {cacheInfo && (
+          <div className="flex justify-between">
+            <span>Cached files / tiles / forecasts:</span>
+            <span className="font-mono">{cacheInfo.entries.app} / {cacheInfo.entries.tiles} / {cacheInfo.entries.weather}</span>
+          </div>
+        )}
+        {progress && (
+          <div>
+            <div className="h-2 bg-gray-200 rounded overflow-hidden mt-2">
+              <div className="h-full bg-blue-600" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              {progress.done} / {progress.total}{progress.failed > 0 && ` · ${progress.failed} failed`}
+            </div>
+          </div>
+        )}
+        {error && <div className="text-xs text-red-600">{error}</div>}
+      </div>
+      <div className="flex gap-2 mt-3">
+        <button onClick={onDownload} disabled={busy}
+          className="flex-1 px-3 py-2 border rounded text-sm hover:bg-white flex items-center justify-center gap-1 disabled:text-gray-400">
+          <Download size={14} /> Download area for offline use
+        </button>
+        <button onClick={onClear} disabled={busy}
+          className="px-3 py-2 border rounded text-sm hover:bg-white disabled:text-gray-400">Clear</button>
+      </div>
+      <p className="text-xs text-gray-500 mt-2">
+        Libraries, road, terrain and hydrology data
+        {CONFIG.orthophoto.source === 'xyz' && `, orthophoto tiles for the AOI at zoom ${CONFIG.offline.zooms[0]}–${CONFIG.offline.zooms[1]}`};
+        basemap tiles are kept as you browse and the latest forecast automatically.
+      </p>
+    </div>
+  );
+};
+
+interface InfoPanelProps {
+  roadNetworks: Record<string, RoadNetwork>;
+  aoi: Aoi | null;
+  dtmStats: RasterStats | null;
+  vegetation: Vegetation | null;
+  offline: OfflineControls;
+}
+
+export const InfoPanel = ({ roadNetworks, aoi, dtmStats, vegetation, offline }: InfoPanelProps) => (
+  <div className="p-6">
+    <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+      <Info className="text-blue-600" />Platform Information
+    </h2>
+
+    <div className="space-y-4">
+      <div className="bg-gray-50 rounded-lg p-4">
+        <h3 className="font-semibold text-gray-800 mb-2">Data Sources</h3>
+        <ul className="text-sm text-gray-600 space-y-1">
+          <li>• DTM: Austrian BEV 50 cm (local COG)</li>
+          <li>• Roads: OpenStreetMap via osmnx (GeoPackage)</li>
+          <li>• Weather: {getWeatherProvider(CONFIG.weather.provider).label}
+            {CONFIG.weather.observationProvider && `, observations: ${getWeatherProvider(CONFIG.weather.observationProvider).label}`}</li>
+          <li>• Basemaps: OpenStreetMap & Satellite</li>
+          <li>• Orthophoto: BEV DOP {CONFIG.orthophoto.acquired} ({CONFIG.orthophoto.source === 'cog' ? 'local COG' : 'local XYZ tiles'})</li>
+        </ul>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4">
+        <h3 className="font-semibold text-gray-800 mb-2">Features</h3>
+        <ul className="text-sm text-gray-600 space-y-1">
+          <li>✓ Real-time weather integration</li>
+          <li>✓ Terrain visualization (hillshade, slope, aspect from DTM)</li>
+          <li>✓ Road network overlay</li>
+          <li>✓ Vegetation and structure heights from the nDSM</li>
+          <li>✓ Interactive popups</li>
+        </ul>
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4">
+        <h3 className="font-semibold text-gray-800 mb-2">Technical Specs</h3>
+        <div className="text-sm text-gray-600 space-y-1">
+          <div className="flex justify-between">
+            <span>Elevation range:</span>
+            <span className="font-mono">
+              {dtmStats ? `${Math.round(dtmStats.min).toLocaleString()} - ${Math.round(dtmStats.max).toLocaleString()}m` : '—'}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span>Area covered:</span>
+            <span className="font-mono">{aoi ? `${aoi.areaKm2.toFixed(2)} km²` : '—'}</span>
+          </div>
+          {Object.entries(CONFIG.roads.networks).map(([key, network]) => (
+            <div key={key} className="flex justify-between">
+              <span>Roads ({network.label}):</span>
+              <span className="font-mono">
+                {roadNetworks[key]
+                  ? `${roadNetworks[key].edges} edges · ${roadNetworks[key].km.toFixed(1)} km`
+                  : 'loading…'}
+              </span>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <span>CRS:</span>
+            <span className="font-mono">EPSG:4326</span>
+          </div>
+          {aoi && (
+            <div className="flex justify-between">
+              <span>AOI source CRS:</span>
+              <span className="font-mono">EPSG:{aoi.sourceCrs}</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <VegetationCard vegetation={vegetation} />
+
+      <OfflineCard {...offline} />
+    </div>
+  </div>
+);
@@ -0,0 +1,456 @@
+import React from 'react';
+import { Layers, ZoomIn, ZoomOut, Maximize2, X, Download } from 'lucide-react';
+import type { Position } from 'geojson';
+import { CONFIG, AVALANCHE_LEVELS, NDSM_CLASSES, SAR_PRODUCTS, BASEMAPS, ROAD_CONDITIONS, MAP_TOOLS, TERRAIN_LAYERS, ColorStop } from '../config';
+import { reportUtils } from '../report';
+import { SarManifest, SarProduct, SarSettings } from '../sar';
+import { DodSettings } from '../dod';
+import { LayerVisibility } from '../viewState';
+
+// ============================================================================
+// COMPONENTS: MAP CONTROLS
+// ============================================================================
+
+// Vertices clicked so far with a drawing tool (a MAP_TOOLS key with `draw`)
+export interface Drawing {
+  tool: string;
+  vertices: Position[];
+}
+
+// Swipe comparison of the basemap against a second one
+export interface BasemapCompare {
+  enabled: boolean;
+  basemap: string;
+  position: number; // fraction of the map width
+}
+
+export interface TerrainSettings {
+  layer: string; // TERRAIN_LAYERS key or 'none'
+  azimuth: number; // hillshade sun, degrees
+  altitude: number;
+}
+
+export interface ReportStatus {
+  busy: boolean;
+  message: string | null;
+}
+
+// CSS linear-gradient stops for a [value, colour] ramp
+export const rampGradient = (stops: ColorStop[]) => stops
+  .map(([v, color]) => `${color} ${((v - stops[0][0]) / (stops[stops.length - 1][0] - stops[0][0])) * 100}%`)
+  .join(', ');
+
+// Lines need two vertices, polygons three
+export const canFinishDrawing = (drawing: Drawing | null): drawing is Drawing =>
+  !!drawing && drawing.vertices.length >= (MAP_TOOLS[drawing.tool].draw === 'polygon' ? 3 : 2);
+
+interface MapToolsProps {
+  mapTool: string;
+  setMapTool: (tool: string) => void;
+  drawing: Drawing | null;
+  onFinishDrawing: () => void;
+  onCancelDrawing: () => void;
+}
+
+const MapTools = ({ mapTool, setMapTool, drawing, onFinishDrawing, onCancelDrawing }: MapToolsProps) => (
+  <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+    <div className="p-3 border-b">
+      <label className="text-xs font-medium text-gray-600">Click tool</label>
+      <select
+        value={mapTool}
+        onChange={(e) => setMapTool(e.target.value)}
+        className="w-full mt-1 p-2 border rounded text-sm"
+      >
+        {Object.entries(MAP_TOOLS).map(([key, tool]) => (
+          <option key={key} value={key}>{tool.label}</option>
+        ))}
+      </select>
+      <p className="text-xs text-gray-500 mt-1">{MAP_TOOLS[mapTool].hint}</p>
+    </div>
+    {drawing && (
+      <div className="flex">
+        <button
+          onClick={onFinishDrawing}
+          disabled={!canFinishDrawing(drawing)}
+          className="flex-1 px-3 py-2 text-sm font-medium text-blue-700 hover:bg-blue-50 disabled:text-gray-400"
+        >
+          Finish ({drawing.vertices.length})
+        </button>
+        <button onClick={onCancelDrawing} className="flex-1 px-3 py-2 text-sm text-gray-600 hover:bg-gray-50 border-l">
+          Cancel
+        </button>
+      </div>
+    )}
+  </div>
+);
+
+const TerrainLegend = ({ layer }: { layer: string }) => {
+  const { label, unit, stops } = TERRAIN_LAYERS[layer];
+  const gradient = rampGradient(stops);
+  return (
+    <div className="px-4 pb-3">
+      <div className="h-2 rounded" style={{ background: `linear-gradient(to right, ${gradient})` }} />
+      <div className="flex justify-between text-xs text-gray-600 mt-1">
+        <span>{layer === 'hillshade' ? 'shadow' : `${stops[0][0]}${unit}`}</span>
+        <span>{label}</span>
+        <span>{layer === 'hillshade' ? 'lit' : `${stops[stops.length - 1][0]}${unit}`}</span>
+      </div>
+    </div>
+  );
+};
+
+// Sentinel-1 date slider with product, polarisation and comparison settings
+interface SarTimeSliderProps {
+  sar: SarSettings;
+  setSar: React.Dispatch<React.SetStateAction<SarSettings>>;
+  manifest: SarManifest | null;
+  status: string;
+  product: SarProduct | null;
+}
+
+export const SarTimeSlider = ({ sar, setSar, manifest, status, product }: SarTimeSliderProps) => {
+  const { stops, unit, label } = SAR_PRODUCTS[sar.mode];
+  const gradient = rampGradient(stops);
+  const acquisitions = manifest ? manifest.acquisitions : [];
+  const current = acquisitions[sar.index];
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-white rounded-lg shadow-lg p-3 w-96 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-gray-700">Sentinel-1 SAR{status !== 'ready' && ` · ${status}`}</span>
+        <button onClick={() => setSar(s => ({ ...s, enabled: false }))} className="p-1 hover:bg-gray-100 rounded">
+          <X size={14} />
+        </button>
+      </div>
+      {acquisitions.length > 0 && (
+        <>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <select value={sar.mode} onChange={(e) => setSar(s => ({ ...s, mode: e.target.value }))}
+              className="p-1 border rounded text-xs">
+              {Object.entries(SAR_PRODUCTS).map(([key, p]) => <option key={key} value={key}>{p.label}</option>)}
+            </select>
+            <select value={sar.band} onChange={(e) => setSar(s => ({ ...s, band: Number(e.target.value) }))}
+              className="p-1 border rounded text-xs">
+              {manifest!.bands.map((band, i) => <option key={band} value={i}>{band}</option>)}
+            </select>
+          </div>
+          <label className="block text-xs text-gray-600">
+            {sar.mode === 'backscatter' ? 'Date' : 'Compare'}: <span className="font-semibold">{current && current.label}</span>
+            <input type="range" min="0" max={acquisitions.length - 1} value={sar.index} className="w-full"
+              onChange={(e) => setSar(s => ({ ...s, index: Number(e.target.value) }))} />
+          </label>
+          <div className="flex justify-between text-xs text-gray-500 -mt-1 mb-2">
+            <span>{acquisitions[0].label}</span>
+            <span>{acquisitions[acquisitions.length - 1].label}</span>
+          </div>
+          {sar.mode !== 'backscatter' && (
+            <label className="flex items-center justify-between gap-2 text-xs text-gray-600 mb-2">
+              Against
+              <select value={sar.reference} onChange={(e) => setSar(s => ({ ...s, reference: Number(e.target.value) }))}
+                className="p-1 border rounded text-xs flex-1">
+                {acquisitions.map((a, i) => <option key={a.url} value={i}>{a.label}</option>)}
+              </select>
+            </label>
+          )}
+          {sar.mode === 'change' && (
+            <label className="flex items-center justify-between gap-2 text-xs text-gray-600 mb-2">
+              Threshold ±{sar.threshold} dB
+              <input type="range" min="1" max="10" step="0.5" value={sar.threshold}
+                onChange={(e) => setSar(s => ({ ...s, threshold: Number(e.target.value) }))} />
+            </label>
+          )}
+          <div className="h-2 rounded" style={{ background: `linear-gradient(to right, ${gradient})` }} />
+          <div className="flex justify-between text-xs text-gray-600 mt-1">
+            <span>{sar.mode === 'change' ? 'decrease' : `${stops[0][0]}${unit}`}</span>
+            <span>{label}</span>
+            <span>{sar.mode === 'change' ? 'increase' : `${stops[stops.length - 1][0]}${unit}`}</span>
+          </div>
+          {product && product.stats && (
+            <div className="text-xs text-gray-600 mt-2">
+              Changed: {(product.stats.share * 100).toFixed(1)}% · +{product.stats.increaseKm2.toFixed(2)} km²
+              {' '}/ −{product.stats.decreaseKm2.toFixed(2)} km²
+            </div>
+          )}
+          {!product && status === 'ready' && <div className="text-xs text-gray-500 mt-2">Loading acquisition…</div>}
+        </>
+      )}
+    </div>
+  );
+};
+
+// Draggable divider for the basemap comparison; the compare basemap shows to
+// its right. `compare.position` is the fraction of the map width.
+interface SwipeDividerProps {
+  basemap: string;
+  compare: BasemapCompare;
+  setCompare: React.Dispatch<React.SetStateAction<BasemapCompare>>;
+}
+
+export const SwipeDivider = ({ basemap, compare, setCompare }: SwipeDividerProps) => {
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const box = e.currentTarget.parentElement!.getBoundingClientRect();
+    const move = (event: PointerEvent) => setCompare(c => ({
+      ...c, position: Math.min(0.98, Math.max(0.02, (event.clientX - box.left) / box.width))
+    }));
+    const stop = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', stop);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', stop);
+  };
+  const left = `${compare.position * 100}%`;
+
+  return (
+    <>
+      <div onPointerDown={startDrag} style={{ left }}
+        className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-white shadow z-[900] cursor-ew-resize">
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-white shadow flex items-center justify-center text-gray-600 text-xs">
+          ⇔
+        </div>
+      </div>
+      <div style={{ right: `calc(${100 - compare.position * 100}% + 10px)` }}
+        className="absolute bottom-16 bg-black bg-opacity-60 text-white text-xs px-2 py-1 rounded z-[900] pointer-events-none">
+        {BASEMAPS[basemap].label}
+      </div>
+      <div style={{ left: `calc(${left} + 10px)` }}
+        className="absolute bottom-16 bg-black bg-opacity-60 text-white text-xs px-2 py-1 rounded z-[900] pointer-events-none">
+        {BASEMAPS[compare.basemap].label}
+      </div>
+    </>
+  );
+};
+
+interface MapControlsProps extends MapToolsProps {
+  layersVisible: LayerVisibility;
+  setLayersVisible: React.Dispatch<React.SetStateAction<LayerVisibility>>;
+  basemap: string;
+  setBasemap: (basemap: string) => void;
+  compare: BasemapCompare;
+  setCompare: React.Dispatch<React.SetStateAction<BasemapCompare>>;
+  orthophotoStatus: string;
+  terrain: TerrainSettings;
+  setTerrain: React.Dispatch<React.SetStateAction<TerrainSettings>>;
+  terrainStatus: string;
+  sar: SarSettings;
+  setSar: React.Dispatch<React.SetStateAction<SarSettings>>;
+  setDod: React.Dispatch<React.SetStateAction<DodSettings>>;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onFitBounds: () => void;
+  reportStatus: ReportStatus;
+  onExportReport: (format: string) => void;
+}
+
+export const MapControls = ({
+  layersVisible, setLayersVisible, basemap, setBasemap, compare, setCompare, orthophotoStatus, terrain, setTerrain, terrainStatus, sar, setSar, setDod,
+  mapTool, setMapTool, drawing, onFinishDrawing, onCancelDrawing, onZoomIn, onZoomOut, onFitBounds,
+  reportStatus, onExportReport
+}: MapControlsProps) => {
+  return (
+    <div className="absolute top-4 left-4 z-[1000] space-y-2">
+      <MapTools
+        mapTool={mapTool}
+        setMapTool={setMapTool}
+        drawing={drawing}
+        onFinishDrawing={onFinishDrawing}
+        onCancelDrawing={onCancelDrawing}
+      />
+
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        <div className="px-4 py-3 flex items-center gap-2 font-medium text-gray-700 border-b">
+          <Layers size={18} />
+          <span>Road Networks</span>
+        </div>
+        {Object.entries(CONFIG.roads.networks).map(([key, network]) => (
+          <button 
+            key={key}
+            onClick={() => setLayersVisible(s => ({ ...s, [key]: !s[key] }))}
+            className="w-full px-4 py-2 flex items-center gap-2 hover:bg-gray-50 text-sm text-gray-700"
+          >
+            <input type="checkbox" readOnly checked={!!layersVisible[key]} />
+            <span>{network.label}</span>
+          </button>
+        ))}
+        <div className="border-b p-3">
+          <label className="text-xs font-medium text-gray-600">
+            Terrain (BEV DTM){terrainStatus !== 'ready' && ` · ${terrainStatus}`}
+          </label>
+          <select 
+            value={terrain.layer} 
+            onChange={(e) => setTerrain(t => ({ ...t, layer: e.target.value }))}
+            className="w-full mt-1 p-2 border rounded text-sm"
+          >
+            <option value="none">Off</option>
+            {Object.entries(TERRAIN_LAYERS).map(([key, layer]) => (
+              <option key={key} value={key}>{layer.label}</option>
+            ))}
+          </select>
+          {terrain.layer === 'hillshade' && (
+            <div className="mt-2 space-y-1 text-xs text-gray-600">
+              <label className="flex items-center justify-between gap-2">
+                Azimuth {terrain.azimuth}°
+                <input type="range" min="0" max="359" value={terrain.azimuth}
+                  onChange={(e) => setTerrain(t => ({ ...t, azimuth: Number(e.target.value) }))} />
+              </label>
+              <label className="flex items-center justify-between gap-2">
+                Altitude {terrain.altitude}°
+                <input type="range" min="5" max="90" value={terrain.altitude}
+                  onChange={(e) => setTerrain(t => ({ ...t, altitude: Number(e.target.value) }))} />
+              </label>
+            </div>
+          )}
+        </div>
+        {terrain.layer !== 'none' && terrainStatus === 'ready' && <TerrainLegend layer={terrain.layer} />}
+        <button 
+          onClick={() => setLayersVisible(s => ({ ...s, conditions: !s.conditions }))}
+          className="w-full px-4 py-3 flex items-center gap-2 hover:bg-gray-50 font-medium text-gray-700"
+        >
+          <span>Toggle Road Conditions</span>
+        </button>
+        <button 
+          onClick={() => setLayersVisible(s => ({ ...s, alerts: !s.alerts }))}
+          className="w-full px-4 py-3 flex items-center gap-2 hover:bg-gray-50 font-medium text-gray-700"
+        >
+          <span>Toggle Alerts</span>
+        </button>
+        <button 
+          onClick={() => setLayersVisible(s => ({ ...s, incidents: !s.incidents }))}
+          className="w-full px-4 py-3 flex items-center gap-2 hover:bg-gray-50 font-medium text-gray-700"
+        >
+          <span>Toggle Incidents</span>
+        </button>
+        <button 
+          onClick={() => setLayersVisible(s => ({ ...s, avalanche: !s.avalanche }))}
+          className="w-full px-4 py-3 flex items-center gap-2 hover:bg-gray-50 font-medium text-gray-700"
+        >
+          <span>Toggle Avalanche Terrain</span>
+        </button>
+        <button 
+          onClick={() => setSar(s => ({ ...s, enabled: !s.enabled }))}
+          className="w-full px-4 py-3 flex items-center gap-2 hover:bg-gray-50 font-medium text-gray-700"
+        >
+          <span>Toggle Sentinel-1 SAR</span>
+        </button>
+        <button 
+          onClick={() => setLayersVisible(s => ({ ...s, vegetation: !s.vegetation }))}
+          className="w-full px-4 py-3 flex items-center gap-2 hover:bg-gray-50 font-medium text-gray-700"
+        >
+          <span>Toggle Vegetation Height</span>
+        </button>
+        {layersVisible.vegetation && (
+          <div className="px-4 pb-3 space-y-1">
+            {NDSM_CLASSES.map((c) => (
+              <div key={c.key} className="flex items-center gap-2 text-xs text-gray-600">
+                <span className="w-3 h-3 rounded-sm" style={{ background: c.color }} />
+                {c.label}{c.max !== undefined && c.max !== Infinity ? ` (≤ ${c.max} m)` : ''}
+              </div>
+            ))}
+          </div>
+        )}
+        <button 
+          onClick={() => setDod(d => ({ ...d, enabled: !d.enabled }))}
+          className="w-full px-4 py-3 flex items-center gap-2 hover:bg-gray-50 font-medium text-gray-700"
+        >
+          <span>Toggle Elevation Change</span>
+        </button>
+        {layersVisible.avalanche && (
+          <div className="px-4 pb-3 space-y-1">
+            {AVALANCHE_LEVELS.map((level) => (
+              <div key={level.level} className="flex items-center gap-2 text-xs text-gray-600">
+                <span className="w-3 h-3 rounded-sm" style={{ background: level.color }} />
+                {level.label}
+              </div>
+            ))}
+          </div>
+        )}
+        {layersVisible.conditions && (
+          <div className="px-4 pb-3 space-y-1">
+            {Object.entries(ROAD_CONDITIONS).map(([key, condition]) => (
+              <div key={key} className="flex items-center gap-2 text-xs text-gray-600">
+                <span className="w-4 h-1 rounded" style={{ background: condition.color }} />
+                {condition.label}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="border-t p-3 bg-gray-50">
+          <label className="text-xs font-medium text-gray-600">
+            Basemap{orthophotoStatus === 'loading' || orthophotoStatus === 'unavailable' ? ` · orthophoto ${orthophotoStatus}` : ''}
+          </label>
+          <select 
+            value={basemap} 
+            onChange={(e) => setBasemap(e.target.value)}
+            className="w-full mt-1 p-2 border rounded text-sm"
+          >
+            {Object.entries(BASEMAPS).map(([key, { label }]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+          <label className="mt-2 flex items-center gap-2 text-xs text-gray-600">
+            <input type="checkbox" checked={compare.enabled}
+              onChange={(e) => setCompare(c => ({ ...c, enabled: e.target.checked }))} />
+            Swipe compare with
+          </label>
+          {compare.enabled && (
+            <select value={compare.basemap} onChange={(e) => setCompare(c => ({ ...c, basemap: e.target.value }))}
+              className="w-full mt-1 p-2 border rounded text-sm">
+              {Object.entries(BASEMAPS).map(([key, { label }]) => <option key={key} value={key}>{label}</option>)}
+            </select>
+          )}
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        <button 
+          onClick={onZoomIn}
+          className="w-full px-4 py-2 hover:bg-gray-50 border-b flex items-center justify-center"
+        >
+          <ZoomIn size={18} />
+        </button>
+        <button 
+          onClick={onZoomOut}
+          className="w-full px-4 py-2 hover:bg-gray-50 border-b flex items-center justify-center"
+        >
+          <ZoomOut size={18} />
+        </button>
+        <button 
+          onClick={onFitBounds}
+          className="w-full px-4 py-2 hover:bg-gray-50 flex items-center justify-center"
+        >
+          <Maximize2 size={18} />
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-lg p-3">
+        <div className="text-xs font-medium text-gray-600 mb-2">Situation report</div>
+        <div className="flex gap-2">
+          {['png', 'pdf'].map((format) => (
+            <button key={format} onClick={() => onExportReport(format)} disabled={reportStatus.busy}
+              className="flex-1 px-3 py-1.5 border rounded text-sm hover:bg-gray-50 disabled:text-gray-400 flex items-center justify-center gap-1">
+              <Download size={14} /> {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+        {reportStatus.message && <p className="text-xs text-gray-500 mt-2 w-40">{reportStatus.message}</p>}
+      </div>
+    </div>
+  );
+};
+
+// Scale bar for the map centre, redrawn whenever the map settles
+export const ScaleBar = ({ center, zoom }: { center: [number, number]; zoom: number }) => {
+  const scale = reportUtils.scaleBar(reportUtils.metersPerPixel(center[0], zoom));
+  return (
+    <div className="flex items-center gap-2 mb-1">
+      <div className="h-1 bg-black" style={{ width: `${scale.width}px` }} />
+      <span className="font-medium">{scale.label}</span>
+    </div>
+  );
+};
+
+export const NorthArrow = () => (
+  <svg width="18" height="26" viewBox="0 0 18 26" aria-label="North">
+    <path d="M9 0 L16 16 L9 12 L2 16 Z" fill="#111827" />
+    <text x="9" y="25" textAnchor="middle" fontSize="9" fontWeight="bold">N</text>
+  </svg>
+);
@@ -0,0 +1,418 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Group, Mesh, MeshLambertMaterial, PerspectiveCamera, Scene, Sprite, WebGLRenderer } from 'three';
+import { Maximize2, Box } from 'lucide-react';
+import { CONFIG, ALERT_SEVERITIES, BASEMAPS } from '../config';
+import { DEG, crsUtils } from '../crs';
+import { RoadAlert, roadStatusUtils } from '../roadStatus';
+import { Orthophoto, Raster, rasterUtils } from '../raster';
+import { CameraMode, DrapeExtent, TerrainFrame, terrain3dUtils } from '../terrain3d';
+import { RoadNetwork } from '../utils';
+import { LayerVisibility } from '../viewState';
+import { loadThree } from '../libs';
+
+// ============================================================================
+// COMPONENTS: 3D TERRAIN VIEW
+// ============================================================================
+
+// Camera position reported to the 2D map
+export interface Camera3D {
+  lat: number;
+  lon: number;
+  targetLat: number;
+  targetLon: number;
+  elevation: number; // m a.s.l.
+}
+
+// The scene kept in viewRef while a DTM is shown
+interface SceneView {
+  THREE: Window['THREE'];
+  renderer: WebGLRenderer;
+  scene: Scene;
+  camera: PerspectiveCamera;
+  world: Group;
+  markers: Group;
+  material: MeshLambertMaterial;
+  controls: ReturnType<typeof terrain3dUtils.createControls>;
+  local: TerrainFrame;
+  extent: DrapeExtent;
+  groundAt: (x: number, z: number) => number;
+  invalidate: () => void;
+  resize: ResizeObserver;
+}
+
+interface Terrain3DViewProps {
+  dtm: Raster | undefined;
+  basemap: string;
+  setBasemap: (basemap: string) => void;
+  orthophoto: Orthophoto;
+  roadNetworks: Record<string, RoadNetwork>;
+  layersVisible: LayerVisibility;
+  alerts: RoadAlert[];
+  onCamera: (camera: Camera3D) => void;
+}
+
+// WebGL view of the DTM with the basemap draped on it. The scene is built once
+// per DTM and kept in a ref; basemap, roads, alerts and exaggeration update it
+// in place. Rendering happens only when something changed, which keeps
+// software (CPU) WebGL usable.
+export const Terrain3DView = ({ dtm, basemap, setBasemap, orthophoto, roadNetworks, layersVisible, alerts, onCamera }: Terrain3DViewProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<SceneView | null>(null);
+  const [ready, setReady] = useState(false);
+  const [status, setStatus] = useState<string | null>('Loading three.js…');
+  const [drapeInfo, setDrapeInfo] = useState<string | null>(null);
+  const [software, setSoftware] = useState(false);
+  const [mode, setMode] = useState<CameraMode>('orbit');
+  const [exaggeration, setExaggeration] = useState(CONFIG.terrain3d.exaggeration);
+  const exaggerationRef = useRef(exaggeration);
+  const onCameraRef = useRef(onCamera);
+  exaggerationRef.current = exaggeration;
+  onCameraRef.current = onCamera;
+
+  const visibleNetworks = Object.keys(CONFIG.roads.networks).filter((key) => layersVisible[key]).join(',');
+
+  // Scene, render loop and the terrain mesh, refined level by level so the
+  // coarse surface shows up quickly and the page stays responsive
+  useEffect(() => {
+    if (!dtm) return;
+    let cancelled = false;
+    let frame = 0;
+    let view: SceneView | null = null;
+
+    loadThree().then(async (THREE) => {
+      if (cancelled) return;
+      const container = containerRef.current!;
+      let renderer: WebGLRenderer;
+      try {
+        renderer = new THREE.WebGLRenderer({ antialias: false, powerPreference: 'low-power' });
+      } catch (error) {
+        setStatus('WebGL is not available in this browser');
+        return;
+      }
+      const isSoftware = terrain3dUtils.isSoftwareRenderer(renderer.getContext());
+      setSoftware(isSoftware);
+      renderer.setPixelRatio(isSoftware ? 1 : Math.min(2, window.devicePixelRatio));
+      renderer.setSize(container.clientWidth, container.clientHeight);
+      container.appendChild(renderer.domElement);
+
+      let base = Infinity;
+      for (let i = 0; i < dtm.data.length; i++) if (dtm.data[i] < base) base = dtm.data[i];
+      const local = terrain3dUtils.frame(dtm, base);
+
+      const scene = new THREE.Scene();
+      scene.background = new THREE.Color('#c9d9e8');
+      scene.fog = new THREE.Fog('#c9d9e8', local.size * 1.5, local.size * 4);
+      const camera = new THREE.PerspectiveCamera(55, container.clientWidth / container.clientHeight, 5, local.size * 10);
+      // three r155+ light units: intensities scaled by π for the classic look
+      scene.add(new THREE.AmbientLight(0xffffff, 0.45 * Math.PI));
+      const sun = new THREE.DirectionalLight(0xffffff, 0.75 * Math.PI);
+      const { azimuth, altitude } = CONFIG.terrain.sun;
+      sun.position.set(
+        Math.sin(azimuth * DEG) * Math.cos(altitude * DEG),
+        Math.sin(altitude * DEG),
+        -Math.cos(azimuth * DEG) * Math.cos(altitude * DEG)
+      );
+      scene.add(sun);
+
+      const world = new THREE.Group(); // terrain and roads, scaled by the exaggeration
+      world.scale.y = exaggerationRef.current;
+      scene.add(world);
+      const markers = new THREE.Group(); // fixed-size sprites, positioned in scaled units
+      scene.add(markers);
+      const material = new THREE.MeshLambertMaterial({
+        color: '#d8d2c4', side: THREE.DoubleSide, polygonOffset: true, polygonOffsetFactor: 1, polygonOffsetUnits: 1
+      });
+
+      let dirty = true;
+      const invalidate = () => {
+        dirty = true;
+      };
+      const groundAt = (x: number, z: number) => {
+        const [px, py] = local.toPixel(x, z);
+        return (terrain3dUtils.heightAt(dtm, px, py) - base) * exaggerationRef.current;
+      };
+      const controls = terrain3dUtils.createControls(THREE, camera, renderer.domElement, groundAt, invalidate);
+      controls.reset(local.size);
+
+      const extent = terrain3dUtils.drapeExtent(
+        dtm, isSoftware ? CONFIG.terrain3d.softwareTextureSize : CONFIG.terrain3d.textureSize
+      );
+      const resize = new ResizeObserver(() => {
+        const { clientWidth: w, clientHeight: h } = container;
+        if (!w || !h) return;
+        renderer.setSize(w, h);
+        camera.aspect = w / h;
+        camera.updateProjectionMatrix();
+        invalidate();
+      });
+      resize.observe(container);
+
+      view = { THREE, renderer, scene, camera, world, markers, material, controls, local, extent, groundAt, invalidate, resize };
+      viewRef.current = view;
+      setReady(true);
+
+      // The 2D map marker follows the camera, throttled
+      const toLatLon = (v: { x: number; z: number }) => {
+        const [px, py] = local.toPixel(v.x, v.z);
+        const [lon, lat] = terrain3dUtils.pixelToWgs84(dtm, px, py);
+        return [lat, lon];
+      };
+      let last = performance.now();
+      let reported = 0;
+      let moved = true;
+      const loop = (now: number) => {
+        frame = requestAnimationFrame(loop);
+        const moving = controls.update((now - last) / 1000);
+        last = now;
+        if (moved && now - reported > 150) {
+          const [lat, lon] = toLatLon(camera.position);
+          const [targetLat, targetLon] = toLatLon(controls.lookTarget());
+          onCameraRef.current({ lat, lon, targetLat, targetLon, elevation: camera.position.y / exaggerationRef.current + base });
+          reported = now;
+          moved = false;
+        }
+        if (!dirty && !moving) return;
+        dirty = false;
+        moved = true;
+        renderer.render(scene, camera);
+      };
+      frame = requestAnimationFrame(loop);
+
+      const { chunkCells, lodDistance } = CONFIG.terrain3d;
+      const steps = isSoftware ? CONFIG.terrain3d.softwareLodSteps : CONFIG.terrain3d.lodSteps;
+      const chunkSize = chunkCells * Math.max(local.cellX, local.cellY);
+      const uv = terrain3dUtils.uvGrid(dtm, extent.project);
+      const chunks = [];
+      for (let y0 = 0; y0 < dtm.height - 1; y0 += chunkCells) {
+        for (let x0 = 0; x0 < dtm.width - 1; x0 += chunkCells) {
+          const centre = local.toLocal(x0 + chunkCells / 2 + 0.5, y0 + chunkCells / 2 + 0.5);
+          const lod = new THREE.LOD();
+          lod.position.set(centre[0], 0, centre[1]);
+          world.add(lod);
+          chunks.push({ x0, y0, centre, lod });
+        }
+      }
+
+      const total = chunks.length * steps.length;
+      let built = 0;
+      let yieldAt = performance.now();
+      for (let level = 0; level < steps.length; level++) {
+        for (const chunk of chunks) {
+          if (cancelled) return;
+          const { positions, uvs, index } = terrain3dUtils.chunkGeometry(dtm, local, uv, {
+            x0: chunk.x0, y0: chunk.y0, size: chunkCells, step: steps[level], centre: chunk.centre
+          });
+          const geometry = new THREE.BufferGeometry();
+          geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+          geometry.setAttribute('uv', new THREE.BufferAttribute(uvs, 2));
+          geometry.setIndex(index);
+          geometry.computeVertexNormals();
+          chunk.lod.addLevel(new THREE.Mesh(geometry, material), chunkSize * lodDistance * (steps.length - 1 - level));
+          built++;
+          if (performance.now() - yieldAt > 30) {
+            setStatus(`Building terrain mesh… ${Math.round((built / total) * 100)}%`);
+            invalidate();
+            await new Promise((resolve) => setTimeout(resolve, 0));
+            yieldAt = performance.now();
+          }
+        }
+      }
+      setStatus(null);
+      invalidate();
+    });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      viewRef.current = null;
+      setReady(false);
+      if (!view) return;
+      view.resize.disconnect();
+      view.controls.dispose();
+      view.scene.traverse((object) => {
+        if ((object as Mesh).geometry) (object as Mesh).geometry.dispose();
+      });
+      if (view.material.map) view.material.map.dispose();
+      view.material.dispose();
+      view.renderer.dispose();
+      view.renderer.domElement.remove();
+    };
+  }, [dtm]);
+
+  // Basemap drape; plain shaded terrain when no tile could be loaded. The
+  // orthophoto is painted over satellite tiles, as on the 2D map.
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!ready || !view) return;
+    let cancelled = false;
+    const key = basemap === 'orthophoto' ? 'satellite' : basemap;
+    terrain3dUtils.loadDrape(view.extent, CONFIG.map.tiles[key], CONFIG.map.subdomains[key])
+      .then(async (drape) => {
+        if (basemap === 'orthophoto' && CONFIG.orthophoto.source === 'xyz') {
+          await terrain3dUtils.loadDrape(view.extent, CONFIG.orthophoto.xyzUrl, [''], drape.canvas);
+        } else if (basemap === 'orthophoto' && orthophoto.url && orthophoto.bounds) {
+          await terrain3dUtils.drawOverlay(view.extent, drape.canvas, orthophoto.url, orthophoto.bounds);
+        }
+        return drape;
+      })
+      .then((drape) => {
+        if (cancelled) return;
+        const { THREE, material } = view;
+        if (material.map) material.map.dispose();
+        if (drape.loaded) {
+          const texture = new THREE.CanvasTexture(drape.canvas);
+          texture.colorSpace = THREE.SRGBColorSpace;
+          texture.anisotropy = view.renderer.capabilities.getMaxAnisotropy();
+          material.map = texture;
+          material.color.set('#ffffff');
+        } else {
+          material.map = null;
+          material.color.set('#d8d2c4');
+        }
+        material.needsUpdate = true;
+        view.invalidate();
+        setDrapeInfo(drape.loaded < drape.total
+          ? `${drape.total - drape.loaded} of ${drape.total} basemap tiles unavailable (offline or blocked by CORS)`
+          : null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [basemap, orthophoto, ready]);
+
+  // Visible road networks, draped
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!ready || !view || !dtm) return;
+    const { THREE } = view;
+    const features = visibleNetworks.split(',').filter((key) => roadNetworks[key]).flatMap((key) => roadNetworks[key].geojson.features);
+    const { positions, colors } = terrain3dUtils.roadGeometry(features, dtm, view.local);
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    const roads = new THREE.LineSegments(geometry, new THREE.LineBasicMaterial({ vertexColors: true }));
+    view.world.add(roads);
+    view.invalidate();
+    return () => {
+      view.world.remove(roads);
+      geometry.dispose();
+      roads.material.dispose();
+      view.invalidate();
+    };
+  }, [roadNetworks, visibleNetworks, ready]);
+
+  // Active alerts as fixed-size dots above their road station, worst severity first
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!ready || !view || !dtm || !layersVisible.alerts) return;
+    const { THREE } = view;
+    const worst: Record<string, RoadAlert> = {};
+    alerts.filter((a) => roadStatusUtils.isActive(a)).forEach((alert) => {
+      const current = worst[alert.segment.stationId];
+      if (!current || ALERT_SEVERITIES[alert.severity].rank > ALERT_SEVERITIES[current.severity].rank) {
+        worst[alert.segment.stationId] = alert;
+      }
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = 64;
+    canvas.height = 64;
+    const ctx = canvas.getContext('2d')!;
+    ctx.beginPath();
+    ctx.arc(32, 32, 26, 0, 2 * Math.PI);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.lineWidth = 6;
+    ctx.strokeStyle = '#1f2937';
+    ctx.stroke();
+    const texture = new THREE.CanvasTexture(canvas);
+
+    const sprites = Object.values(worst).map((alert) => {
+      const [x, y] = crsUtils.fromWgs84(dtm.epsg, [alert.segment.lon, alert.segment.lat]);
+      const [lx, lz] = view.local.toLocal(...rasterUtils.toPixel(dtm, x, y));
+      const ground = view.groundAt(lx, lz);
+      if (!Number.isFinite(ground)) return null;
+      const sprite = new THREE.Sprite(new THREE.SpriteMaterial({
+        map: texture, color: ALERT_SEVERITIES[alert.severity].color, sizeAttenuation: false, depthTest: false
+      }));
+      sprite.position.set(lx, ground + 60, lz);
+      sprite.scale.set(0.03, 0.03, 1);
+      view.markers.add(sprite);
+      return sprite;
+    }).filter((sprite): sprite is Sprite => !!sprite);
+    view.invalidate();
+
+    return () => {
+      sprites.forEach((sprite) => {
+        view.markers.remove(sprite);
+        sprite.material.dispose();
+      });
+      texture.dispose();
+      view.invalidate();
+    };
+  }, [alerts, layersVisible.alerts, exaggeration, ready]);
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!ready || !view) return;
+    view.world.scale.y = exaggeration;
+    view.invalidate();
+  }, [exaggeration, ready]);
+
+  useEffect(() => {
+    if (ready && viewRef.current) viewRef.current.controls.setMode(mode);
+  }, [mode, ready]);
+
+  const resetView = () => {
+    const view = viewRef.current;
+    if (!view) return;
+    view.controls.reset(view.local.size);
+    setMode('orbit');
+  };
+
+  return (
+    <div className="absolute inset-0">
+      <div ref={containerRef} className="absolute inset-0" />
+
+      <div className="absolute top-4 left-4 bg-white rounded-lg shadow-lg p-3 text-xs text-gray-700 w-60 space-y-2">
+        <div className="font-semibold text-gray-800 flex items-center gap-2"><Box size={14} /> 3D Terrain</div>
+        <div className="flex gap-1">
+          {([['orbit', 'Orbit'], ['fly', 'Fly']] as [CameraMode, string][]).map(([key, label]) => (
+            <button key={key} onClick={() => setMode(key)}
+              className={`flex-1 px-2 py-1 rounded border ${mode === key ? 'bg-blue-600 text-white border-blue-600' : 'hover:bg-gray-50'}`}>
+              {label}
+            </button>
+          ))}
+          <button onClick={resetView} className="px-2 py-1 rounded border hover:bg-gray-50" title="Reset view">
+            <Maximize2 size={12} />
+          </button>
+        </div>
+        <label className="flex items-center justify-between gap-2">
+          Exaggeration {exaggeration.toFixed(1)}×
+          <input type="range" min="1" max="3" step="0.1" value={exaggeration}
+            onChange={(e) => setExaggeration(Number(e.target.value))} />
+        </label>
+        <label className="block font-medium text-gray-600">
+          Drape
+          <select value={basemap} onChange={(e) => setBasemap(e.target.value)} className="w-full mt-1 p-1 border rounded text-xs">
+            {Object.entries(BASEMAPS).map(([key, { label }]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        </label>
+        <div className="text-gray-500">
+          {mode === 'orbit'
+            ? 'Drag to rotate, right-drag to pan, wheel to zoom.'
+            : 'Drag to look around, W/A/S/D to move, Q/E down/up, wheel sets speed.'}
+        </div>
+        {software && <div className="text-amber-700">Software rendering: reduced mesh and texture detail.</div>}
+      </div>
+
+      {(!dtm || status || drapeInfo) && (
+        <div className="absolute bottom-4 left-4 bg-white bg-opacity-90 px-3 py-2 rounded text-xs text-gray-700 space-y-1">
+          {!dtm && <div>Waiting for the DTM…</div>}
+          {dtm && status && <div>{status}</div>}
+          {drapeInfo && <div className="text-amber-700">{drapeInfo}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
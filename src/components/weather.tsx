@@ -0,0 +1,645 @@
+import React from 'react';
+import { Cloud, Sun, CloudSun, CloudFog, CloudDrizzle, CloudRain, CloudSnow, CloudLightning, Snowflake, AlertTriangle, Calendar, Clock, Mountain, CheckCircle, BarChart3, Upload } from 'lucide-react';
+import { CONFIG, ALERT_SEVERITIES, ROAD_CONDITIONS } from '../config';
+import { WeatherIconKey, DailyWeather, StationWeather, WeatherState, weatherUtils, getWeatherProvider } from '../weather';
+import { RoadAlert, roadStatusUtils } from '../roadStatus';
+import { RoadIncident, incidentUtils } from '../incidents';
+import { AvalancheSegment } from '../avalanche';
+import { HistoryDay, HistoryStatus, HistoryView, historyUtils } from '../history';
+import { StaleNotice } from './health';
+
+// ============================================================================
+// COMPONENTS: WEATHER
+// ============================================================================
+
+const WEATHER_ICONS: Record<WeatherIconKey, typeof Cloud> = {
+  clear: Sun,
+  'partly-cloudy': CloudSun,
+  cloudy: Cloud,
+  fog: CloudFog,
+  drizzle: CloudDrizzle,
+  freezing: Snowflake,
+  rain: CloudRain,
+  snow: CloudSnow,
+  thunderstorm: CloudLightning,
+  unknown: Cloud
+};
+
+const WeatherIcon = ({ code, size = 16, className = '' }: { code: number | null; size?: number; className?: string }) => {
+  const Icon = WEATHER_ICONS[weatherUtils.getIcon(code)];
+  return <Icon size={size} className={className} />;
+};
+
+interface WeatherWidgetProps {
+  weather: WeatherState;
+  alerts: RoadAlert[];
+  incidents: RoadIncident[];
+}
+
+export const WeatherWidget = ({ weather, alerts, incidents }: WeatherWidgetProps) => (
+  <div className="absolute top-4 right-4 z-[1000]">
+    <div className="bg-white rounded-lg shadow-lg p-4 w-64">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Cloud className="text-blue-600" size={20} />
+          <span className="font-semibold text-gray-800">Live Weather</span>
+        </div>
+        <a 
+          href={getWeatherProvider(CONFIG.weather.provider).url} 
+          target="_blank" 
+          rel="noopener noreferrer" 
+          className="text-xs text-blue-600 hover:underline"
+        >
+          {getWeatherProvider(CONFIG.weather.provider).label}
+        </a>
+      </div>
+      <StaleNotice source="weather" since={weather.fetchedAt} className="text-amber-700 bg-amber-50 rounded px-2 py-1 mb-2" />
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600">Temperature</span>
+          <span className="text-xl font-bold text-gray-800">
+            {weather.temp !== null ? `${weather.temp}°C` : '—'}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600">Wind</span>
+          <span className="font-medium text-gray-800">
+            {weather.wind !== null ? `${weather.wind} km/h` : '—'}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600">Snow (daily)</span>
+          <span className="font-medium text-gray-800">
+            {weather.snow !== null ? `${weather.snow} cm` : '—'}
+          </span>
+        </div>
+        <div className="pt-2 border-t text-sm text-gray-600 flex items-center gap-2">
+          {weather.condition !== null && <WeatherIcon code={weather.condition} className="text-blue-600" />}
+          {weather.condition !== null ? weatherUtils.getDescription(weather.condition) : 'Loading...'}
+        </div>
+      </div>
+    </div>
+
+    <RoadStatusCard alerts={alerts.filter((a) => roadStatusUtils.isActive(a))} incidents={incidents} />
+  </div>
+);
+
+// Active weather alerts and open incidents near the road, most severe first
+const RoadStatusCard = ({ alerts, incidents }: { alerts: RoadAlert[]; incidents: RoadIncident[] }) => {
+  const items = [
+    ...alerts.map((alert) => ({ id: alert.id, severity: alert.severity, title: alert.title, where: alert.segment.name })),
+    ...incidents.map((incident) => ({
+      id: incident.id, severity: incident.severity, title: incidentUtils.category(incident.category).label, where: incident.road
+    }))
+  ].sort((a, b) => ALERT_SEVERITIES[b.severity].rank - ALERT_SEVERITIES[a.severity].rank);
+
+  if (!items.length) {
+    return (
+      <div className="bg-green-50 border-l-4 border-green-500 rounded-lg shadow-lg p-4 w-64 mt-3">
+        <div className="flex items-start gap-2">
+          <CheckCircle className="text-green-600 flex-shrink-0" size={18} />
+          <div>
+            <h4 className="font-semibold text-green-800 text-sm">Road Status</h4>
+            <p className="text-xs text-green-700 mt-1">No active weather alerts or incidents</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const severity = ALERT_SEVERITIES[items[0].severity];
+  return (
+    <div className={`${severity.card} border-l-4 rounded-lg shadow-lg p-4 w-64 mt-3`}>
+      <div className="flex items-start gap-2">
+        <AlertTriangle className={`${severity.text} flex-shrink-0`} size={18} />
+        <div>
+          <h4 className={`font-semibold ${severity.text} text-sm`}>Road Status</h4>
+          <ul className={`text-xs ${severity.text} mt-1 space-y-1`}>
+            {items.slice(0, 3).map((item) => (
+              <li key={item.id}>
+                <span className="font-semibold">{item.title}</span> · {item.where}
+              </li>
+            ))}
+          </ul>
+          {items.length > 3 && (
+            <p className="text-xs text-gray-500 mt-1">+{items.length - 3} more in Alerts and Incidents</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const formatValidity = (alert: RoadAlert) => {
+  const format = (iso: string) => new Date(iso).toLocaleString(undefined, { weekday: 'short', hour: '2-digit', minute: '2-digit' });
+  return `${format(alert.validFrom)} – ${format(alert.validTo)}`;
+};
+
+export const AlertsPanel = ({ alerts, rulesError }: { alerts: RoadAlert[]; rulesError: string | null }) => (
+  <div className="p-6">
+    <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+      <AlertTriangle className="text-yellow-600" />Road Alerts
+    </h2>
+
+    {rulesError && (
+      <div className="bg-red-50 text-red-800 text-sm rounded-lg p-3 mb-4">
+        Road status rules could not be loaded: {rulesError}
+      </div>
+    )}
+
+    <div className="space-y-3">
+      {alerts.length === 0 && (
+        <div className="text-sm text-gray-500">No alerts in the forecast period.</div>
+      )}
+      {alerts.map((alert) => {
+        const severity = ALERT_SEVERITIES[alert.severity];
+        return (
+          <div key={alert.id} className={`${severity.card} border-l-4 rounded-lg p-3`}>
+            <div className="flex items-center justify-between">
+              <span className={`font-semibold text-sm ${severity.text}`}>{alert.title}</span>
+              <span className={`text-xs font-medium ${severity.text}`}>{severity.label}</span>
+            </div>
+            <p className="text-xs text-gray-700 mt-1">{alert.message}</p>
+            <div className="text-xs text-gray-500 mt-2 flex justify-between">
+              <span>{alert.segment.name} ({alert.segment.elevation} m)</span>
+              <span>{roadStatusUtils.isActive(alert) ? 'active' : 'upcoming'}</span>
+            </div>
+            <div className="text-xs text-gray-500">{formatValidity(alert)}</div>
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+const ForecastDayCard = ({ day }: { day: DailyWeather }) => (
+  <div className="bg-gray-50 rounded-lg p-3 flex items-center justify-between text-sm">
+    <WeatherIcon code={day.condition} size={20} className="text-gray-500 flex-shrink-0" />
+    <div className="w-24">
+      <div className="font-semibold text-gray-800">
+        {new Date(`${day.date}T00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' })}
+      </div>
+      <div className="text-xs text-gray-500">{weatherUtils.getDescription(day.condition)}</div>
+    </div>
+    <div className="text-right">
+      <span className="font-bold text-gray-800">{day.tempMax !== null ? `${Math.round(day.tempMax)}°` : '—'}</span>
+      <span className="text-gray-500"> / {day.tempMin !== null ? `${Math.round(day.tempMin)}°` : '—'}</span>
+    </div>
+    <div className="text-xs text-gray-600 text-right w-24">
+      <div>Snow {day.snowfall ?? '—'} cm · Precip {day.precipitation ?? '—'} mm</div>
+      <div>Gusts {day.gustMax ?? '—'} km/h</div>
+    </div>
+  </div>
+);
+
+// Minimal SVG time-series chart; each series may sit on the left or right axis
+// `period` sets the grid: 'day' (hourly series) or 'month' (daily series)
+interface ChartSeries {
+  label: string;
+  color: string;
+  axis?: 'left' | 'right';
+  values: (number | null)[]; // one per time, null for gaps
+}
+
+interface TimeSeriesChartProps {
+  times: number[]; // ms
+  series: ChartSeries[];
+  width?: number;
+  height?: number;
+  period?: 'day' | 'month';
+}
+
+const TimeSeriesChart = ({ times, series, width = 320, height = 150, period = 'day' }: TimeSeriesChartProps) => {
+  if (!times.length) return null;
+
+  const pad = { top: 10, right: 36, bottom: 20, left: 32 };
+  const innerW = width - pad.left - pad.right;
+  const innerH = height - pad.top - pad.bottom;
+  const t0 = times[0];
+  const t1 = times[times.length - 1];
+  const x = (t: number) => pad.left + ((t - t0) / (t1 - t0 || 1)) * innerW;
+
+  const ranges: Record<string, { min: number; max: number }> = {};
+  series.forEach(({ axis = 'left', values }) => {
+    const finite = values.filter((v): v is number => Number.isFinite(v));
+    const r = ranges[axis] || { min: Infinity, max: -Infinity };
+    ranges[axis] = { min: Math.min(r.min, ...finite), max: Math.max(r.max, ...finite) };
+  });
+  const y = (axis: string, v: number) => {
+    const { min, max } = ranges[axis];
+    return pad.top + innerH - ((v - min) / (max - min || 1)) * innerH;
+  };
+  const path = (axis: string, values: (number | null)[]) => values
+    .map((v, i) => (v !== null && Number.isFinite(v) ? `${x(times[i]).toFixed(1)},${y(axis, v).toFixed(1)}` : null))
+    .filter(Boolean)
+    .map((p, i) => `${i === 0 ? 'M' : 'L'}${p}`)
+    .join(' ');
+
+  const ticks = period === 'month'
+    ? times.filter((t) => new Date(t).getDate() === 1)
+    : times.filter((t) => new Date(t).getHours() === 0);
+  const now = Date.now();
+
+  return (
+    <svg width={width} height={height} className="text-gray-500">
+      {ticks.map((t) => (
+        <g key={t}>
+          <line x1={x(t)} x2={x(t)} y1={pad.top} y2={pad.top + innerH} stroke="#e5e7eb" />
+          <text x={x(t) + 2} y={height - 6} fontSize="9" fill="currentColor">
+            {new Date(t).toLocaleDateString(undefined, period === 'month' ? { month: 'short' } : { weekday: 'short' })}
+          </text>
+        </g>
+      ))}
+      {now > t0 && now < t1 && (
+        <line x1={x(now)} x2={x(now)} y1={pad.top} y2={pad.top + innerH} stroke="#f59e0b" strokeDasharray="3 2" />
+      )}
+      {Object.entries(ranges).map(([axis, { min, max }]) => (
+        <g key={axis} fontSize="9" fill="currentColor" textAnchor={axis === 'left' ? 'end' : 'start'}>
+          <text x={axis === 'left' ? pad.left - 3 : width - pad.right + 3} y={pad.top + 8}>{Math.round(max)}</text>
+          <text x={axis === 'left' ? pad.left - 3 : width - pad.right + 3} y={pad.top + innerH}>{Math.round(min)}</text>
+        </g>
+      ))}
+      {series.map(({ label, color, axis = 'left', values }) => (
+        <path key={label} d={path(axis, values)} fill="none" stroke={color} strokeWidth="1.5" />
+      ))}
+    </svg>
+  );
+};
+
+const StationTable = ({ stationWeather }: { stationWeather: StationWeather[] }) => (
+  <table className="w-full text-xs text-gray-700">
+    <thead>
+      <tr className="text-left text-gray-500 border-b">
+        <th className="py-1">Station</th>
+        <th className="py-1 text-right">Elev.</th>
+        <th className="py-1 text-right">Temp</th>
+        <th className="py-1 text-right">Wind</th>
+        <th className="py-1 text-right">Snow</th>
+        <th className="py-1 pl-2">Road</th>
+      </tr>
+    </thead>
+    <tbody>
+      {stationWeather.map((obs) => (
+        <tr key={obs.station.id} className="border-b last:border-0">
+          <td className="py-1">{obs.station.name}</td>
+          <td className="py-1 text-right font-mono">{obs.station.elevation} m</td>
+          <td className="py-1 text-right font-mono">{obs.temp !== null ? `${obs.temp.toFixed(1)}°` : '—'}</td>
+          <td className="py-1 text-right font-mono">{obs.wind ?? '—'}</td>
+          <td className="py-1 text-right font-mono">{obs.snow ?? '—'}</td>
+          <td className="py-1 pl-2">
+            <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ background: ROAD_CONDITIONS[obs.roadCondition].color }} />
+            {ROAD_CONDITIONS[obs.roadCondition].label}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+// Forecast (lapse-corrected model) next to the nearest measured values
+const ObservationComparison = ({ stationWeather, observations }: { stationWeather: StationWeather[]; observations: StationWeather[] }) => {
+  const fmt = (v: number | null | undefined, digits = 1) => (v === null || v === undefined ? '—' : v.toFixed(digits));
+  return (
+    <table className="w-full text-xs text-gray-700">
+      <thead>
+        <tr className="text-left text-gray-500 border-b">
+          <th className="py-1">Station</th>
+          <th className="py-1 text-right">Fcst °C</th>
+          <th className="py-1 text-right">Obs °C</th>
+          <th className="py-1 text-right">Δ</th>
+          <th className="py-1 text-right">Wind f/o</th>
+        </tr>
+      </thead>
+      <tbody>
+        {observations.map((obs) => {
+          const forecast = stationWeather.find((f) => f.station.id === obs.station.id);
+          const delta = forecast && forecast.temp !== null && obs.temp !== null ? forecast.temp - obs.temp : null;
+          return (
+            <tr key={obs.station.id} className="border-b last:border-0"
+              title={obs.source ? `${obs.source.name}, ${Math.round(obs.source.elevation)} m, ${(obs.source.distance / 1000).toFixed(1)} km away` : ''}>
+              <td className="py-1">{obs.station.name}</td>
+              <td className="py-1 text-right font-mono">{fmt(forecast && forecast.temp)}</td>
+              <td className="py-1 text-right font-mono">{fmt(obs.temp)}</td>
+              <td className={`py-1 text-right font-mono ${delta !== null && Math.abs(delta) >= 2 ? 'text-red-600' : ''}`}>
+                {delta !== null ? `${delta > 0 ? '+' : ''}${delta.toFixed(1)}` : '—'}
+              </td>
+              <td className="py-1 text-right font-mono">{fmt(forecast && forecast.wind, 0)} / {fmt(obs.wind, 0)}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+// Road segments below steep starting zones, most exposed first
+const AvalancheExposure = ({ segments }: { segments: AvalancheSegment[] }) => (
+  <div className="space-y-1">
+    {segments.map((segment, i) => (
+      <div key={i} className="flex items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-2 text-gray-700 truncate">
+          <span className="w-3 h-3 rounded-sm flex-shrink-0" style={{ background: segment.level.color }} />
+          {segment.name}
+        </span>
+        <span className="text-gray-600 whitespace-nowrap">
+          {Math.round(segment.exposed)} m of {Math.round(segment.length)} m · {segment.level.label}
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+interface WeatherPanelProps {
+  weather: WeatherState;
+  stationWeather: StationWeather[];
+  observations: StationWeather[];
+  avalanche: { bullets: string[]; segments: AvalancheSegment[] } | null; // null until DTM and forecast are loaded
+}
+
+export const WeatherPanel = ({ weather, stationWeather, observations, avalanche }: WeatherPanelProps) => (
+  <div className="p-6">
+    <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+      <Cloud className="text-blue-600" />Weather Forecast
+    </h2>
+
+    <div className="space-y-4">
+      <div className="bg-gradient-to-br from-blue-500 to-blue-600 text-white rounded-lg p-6">
+        <div className="text-sm opacity-90 mb-1">Now</div>
+        <StaleNotice source="weather" since={weather.fetchedAt} className="text-amber-100 mb-1" />
+        <div className="text-5xl font-bold mb-2">
+          {weather.temp !== null ? `${weather.temp}°C` : '—'}
+        </div>
+        <div className="text-lg flex items-center gap-2">
+          {weather.condition !== null && <WeatherIcon code={weather.condition} size={22} />}
+          {weather.condition !== null ? weatherUtils.getDescription(weather.condition) : '—'}
+        </div>
+        <div className="mt-4 pt-4 border-t border-white border-opacity-30 grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <div className="opacity-80">Wind</div>
+            <div className="font-semibold">
+              {weather.wind !== null ? `${weather.wind} km/h` : '—'}
+            </div>
+          </div>
+          <div>
+            <div className="opacity-80">Snow</div>
+            <div className="font-semibold">
+              {weather.snow !== null ? `${weather.snow} cm` : '—'}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <h3 className="font-semibold text-gray-700 mb-3 flex items-center gap-2">
+          <Calendar size={16} />{CONFIG.weather.forecastDays}-Day Forecast
+        </h3>
+        <div className="space-y-2">
+          {weather.daily.length
+            ? weather.daily.map((day) => <ForecastDayCard key={day.date} day={day} />)
+            : weather.fetchedAt
+              ? <div className="text-sm text-amber-700">No daily forecast in the latest report; the avalanche model is paused.</div>
+              : <div className="text-sm text-gray-500">Loading forecast…</div>}
+        </div>
+      </div>
+
+      {weather.hourly.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
+            <Clock size={16} />Hourly Timeline
+          </h3>
+          <TimeSeriesChart
+            times={weather.hourly.map((h) => new Date(h.time).getTime())}
+            series={[
+              { label: 'Temperature (°C)', color: '#dc2626', axis: 'left', values: weather.hourly.map((h) => h.temp) },
+              { label: 'Freezing level (m)', color: '#2563eb', axis: 'right', values: weather.hourly.map((h) => h.freezingLevel) }
+            ]}
+          />
+          <div className="flex gap-4 text-xs text-gray-600 mt-1">
+            <span className="text-red-600">— Temperature (°C, left)</span>
+            <span className="text-blue-600">— Freezing level (m, right)</span>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
+          <Mountain size={16} />Along the Road
+        </h3>
+        {stationWeather.some((obs) => !obs.daily.length) && (
+          <div className="text-xs text-amber-700 mb-1">
+            No daily forecast for {stationWeather.filter((obs) => !obs.daily.length).map((obs) => obs.station.name).join(', ')}:
+            road alerts and runoff are not evaluated there.
+          </div>
+        )}
+        {stationWeather.length
+          ? <StationTable stationWeather={stationWeather} />
+          : <div className="text-sm text-gray-500">Loading station weather…</div>}
+        <p className="text-xs text-gray-500 mt-1">
+          Temperatures corrected to road elevation ({CONFIG.weather.lapseRate * 1000} °C/km).
+        </p>
+      </div>
+
+      {CONFIG.weather.observationProvider && (
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
+            <CheckCircle size={16} />Forecast vs. Observed
+          </h3>
+          <StaleNotice source="observations" since={observations.length ? observations[0].observedAt : null}
+            className="text-amber-700 mb-1" />
+          {observations.length
+            ? <ObservationComparison stationWeather={stationWeather} observations={observations} />
+            : <div className="text-sm text-gray-500">Loading observations…</div>}
+          <p className="text-xs text-gray-500 mt-1">
+            {getWeatherProvider(CONFIG.weather.observationProvider).label}
+            {observations.length > 0 && observations[0].observedAt && `, measured ${new Date(observations[0].observedAt).toLocaleTimeString()}`}.
+            Δ = forecast − observed; hover a row for the measuring site.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-blue-50 rounded-lg p-4">
+        <h4 className="font-semibold text-blue-900 mb-2">Weather Analysis</h4>
+        <ul className="text-sm text-blue-800 space-y-1">
+          <li>• {weatherUtils.getSnowLine(weather.hourly) !== null
+            ? `Snow line at ~${Math.round(weatherUtils.getSnowLine(weather.hourly)! / 50) * 50} m`
+            : 'Snow line: —'}</li>
+          <li>• Fresh snow today: {weather.snow !== null ? `${weather.snow} cm` : '—'}</li>
+          {avalanche
+            ? avalanche.bullets.map((bullet) => <li key={bullet}>• {bullet}</li>)
+            : <li>• Avalanche terrain: waiting for DTM and forecast</li>}
+        </ul>
+      </div>
+
+      {avalanche && avalanche.segments.length > 0 && (
+        <div>
+          <h3 className="font-semibold text-gray-700 mb-2 flex items-center gap-2">
+            <AlertTriangle size={16} />Avalanche Exposure
+          </h3>
+          <AvalancheExposure segments={avalanche.segments} />
+          <p className="text-xs text-gray-500 mt-1">
+            Road below a 30°+ starting zone within {CONFIG.avalanche.maxRunout} m at an α-angle of
+            at least {CONFIG.avalanche.alphaAngle}°.
+          </p>
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+// Archived station days for one season; opening/closing decisions lean on the
+// summary table, so it covers every station at once
+interface HistoryPanelProps {
+  days: HistoryDay[];
+  view: HistoryView;
+  setView: React.Dispatch<React.SetStateAction<HistoryView>>;
+  status: HistoryStatus;
+  onImport: (file: File) => void;
+  onClear: () => void;
+}
+
+export const HistoryPanel = ({ days, view, setView, status, onImport, onClear }: HistoryPanelProps) => {
+  const seasons = historyUtils.seasons(days);
+  const season = view.season ?? seasons[0];
+  const inSeason = days.filter((d) => historyUtils.seasonOf(d.date) === season);
+  const stationDays = inSeason.filter((d) => d.stationId === view.station);
+  const times = stationDays.map((d) => new Date(`${d.date}T00:00`).getTime());
+  const fmt = (v: number | null | undefined, digits = 0) => (v === null || v === undefined ? '—' : v.toFixed(digits));
+  const fmtDate = (date: string | null) => (date ? new Date(`${date}T00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }) : '—');
+
+  return (
+    <div className="p-6">
+      <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <BarChart3 /> Weather History
+      </h2>
+
+      <div className="grid grid-cols-2 gap-2 text-sm mb-4">
+        <label className="text-xs font-medium text-gray-600">
+          Station
+          <select value={view.station} onChange={(e) => setView(v => ({ ...v, station: e.target.value }))}
+            className="w-full mt-1 p-2 border rounded text-sm">
+            {CONFIG.weather.stations.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+        </label>
+        <label className="text-xs font-medium text-gray-600">
+          Season
+          <select value={season ?? ''} onChange={(e) => setView(v => ({ ...v, season: Number(e.target.value) }))}
+            className="w-full mt-1 p-2 border rounded text-sm" disabled={!seasons.length}>
+            {seasons.map((s) => <option key={s} value={s}>{historyUtils.seasonLabel(s)}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {status.error && <div className="text-sm text-red-600 mb-3">{status.error}</div>}
+
+      {!stationDays.length ? (
+        <div className="text-sm text-gray-500 mb-4">
+          No archived days for this station and season. Every forecast refresh is recorded from now on; older
+          seasons can be imported below.
+        </div>
+      ) : (
+        <>
+          <div className="mb-4">
+            <h3 className="font-semibold text-gray-700 mb-2">Temperature & Snowfall</h3>
+            <TimeSeriesChart
+              times={times}
+              period="month"
+              series={[
+                { label: 'Max (°C)', color: '#dc2626', axis: 'left', values: stationDays.map((d) => d.tempMax) },
+                { label: 'Min (°C)', color: '#2563eb', axis: 'left', values: stationDays.map((d) => d.tempMin) },
+                { label: 'Snowfall (cm)', color: '#7c3aed', axis: 'right', values: stationDays.map((d) => d.snowfall) }
+              ]}
+            />
+            <div className="flex gap-4 text-xs text-gray-600 mt-1">
+              <span className="text-red-600">— Max °C</span>
+              <span className="text-blue-600">— Min °C (left)</span>
+              <span className="text-purple-600">— Snowfall cm (right)</span>
+            </div>
+          </div>
+          <div className="mb-4">
+            <h3 className="font-semibold text-gray-700 mb-2">Wind</h3>
+            <TimeSeriesChart
+              times={times}
+              period="month"
+              series={[
+                { label: 'Wind (km/h)', color: '#0891b2', values: stationDays.map((d) => d.windMax) },
+                { label: 'Gusts (km/h)', color: '#64748b', values: stationDays.map((d) => d.gustMax) }
+              ]}
+            />
+            <div className="flex gap-4 text-xs text-gray-600 mt-1">
+              <span className="text-cyan-600">— Max wind km/h</span>
+              <span className="text-slate-500">— Max gust km/h</span>
+            </div>
+          </div>
+        </>
+      )}
+
+      {inSeason.length > 0 && (
+        <div className="mb-4">
+          <h3 className="font-semibold text-gray-700 mb-2">Season {historyUtils.seasonLabel(season)}</h3>
+          <table className="w-full text-xs text-gray-700">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-1">Station</th>
+                <th className="py-1 text-right">Days</th>
+                <th className="py-1 text-right">Frost</th>
+                <th className="py-1 text-right">Ice</th>
+                <th className="py-1 text-right">Snow</th>
+                <th className="py-1 text-right">Alerts</th>
+                <th className="py-1 text-right">Last snow</th>
+              </tr>
+            </thead>
+            <tbody>
+              {CONFIG.weather.stations.map((station) => {
+                const summary = historyUtils.summarize(inSeason.filter((d) => d.stationId === station.id));
+                return (
+                  <tr key={station.id} className="border-b last:border-0">
+                    <td className="py-1">{station.name}</td>
+                    <td className="py-1 text-right font-mono">{summary.days}</td>
+                    <td className="py-1 text-right font-mono">{summary.frostDays}</td>
+                    <td className="py-1 text-right font-mono">{summary.iceDays}</td>
+                    <td className="py-1 text-right font-mono">{fmt(summary.snowfall)} cm</td>
+                    <td className="py-1 text-right font-mono">{summary.alertDays}</td>
+                    <td className="py-1 text-right font-mono">{fmtDate(summary.lastSnowDay)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500 mt-2">
+            Frost: daily minimum below 0 °C · Ice: maximum below 0 °C · Snow: cumulative snowfall · Alerts: days with an
+            active road alert · Last snow: last day with ≥ {CONFIG.history.snowDay} cm.
+          </p>
+        </div>
+      )}
+
+      <div className="bg-gray-50 rounded-lg p-4">
+        <h3 className="font-semibold text-gray-800 mb-2">Archive</h3>
+        <div className="text-sm text-gray-600 mb-3">{days.length} station days stored</div>
+        <div className="flex gap-2">
+          <label className="flex-1 px-3 py-2 border rounded text-sm hover:bg-white flex items-center justify-center gap-1 cursor-pointer">
+            <Upload size={14} /> Import CSV / JSON
+            <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onImport(file);
+              }} />
+          </label>
+          <button onClick={onClear} className="px-3 py-2 border rounded text-sm hover:bg-white">Clear</button>
+        </div>
+        {status.imported && (
+          <div className="text-xs text-gray-600 mt-2">
+            Imported {status.imported.rows} rows from {status.imported.file}
+            {status.imported.errors.length > 0 && `, ${status.imported.errors.length} rejected:`}
+            {status.imported.errors.slice(0, 3).map((error) => <div key={error} className="text-red-600">{error}</div>)}
+          </div>
+        )}
+        <p className="text-xs text-gray-500 mt-2">
+          Columns: station (id or name), date, and any of temp, tempMin, tempMax, wind, gust, snowfall, precipitation,
+          snowDepth, alerts. Seasons start in {new Date(2000, CONFIG.history.seasonStartMonth - 1).toLocaleDateString(undefined, { month: 'long' })}.
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,450 @@
+// ============================================================================
+// CONSTANTS & CONFIGURATION
+// ============================================================================
+
+export const CONFIG = {
+  map: {
+    center: [47.074, 12.732] as [number, number], // Großglockner coordinates [lat, lon] for Leaflet
+    zoom: 10,
+    localCrs: 31255, // MGI / Austria GK Central, used for coordinate readouts
+    tiles: {
+      satellite: 'https://{s}.google.com/vt/lyrs=s&x={x}&y={y}&z={z}',
+      osm: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png'
+    } as Record<string, string>,
+    subdomains: {
+      satellite: ['mt0', 'mt1', 'mt2', 'mt3'],
+      osm: ['a', 'b', 'c']
+    } as Record<string, string[]>
+  },
+  terrain: {
+    // Cloud-Optimized GeoTIFF of merged_dtm_2022.tif from analysis_dtm.ipynb
+    // (gdal_translate -of COG); overviews keep the browser read small
+    dtmUrl: 'data/merged_dtm_2022_cog.tif',
+    dsmUrl: 'data/merged_dsm_2022_cog.tif',
+    ndsmUrl: 'data/nDSM_50cm_cog.tif', // DSM − DTM, negatives clipped
+    maxSize: 1024, // longest raster side read into memory, in pixels
+    sun: { azimuth: 315, altitude: 45 },
+    opacity: { hillshade: 0.5, slope: 0.6, aspect: 0.6 } as Record<string, number>
+  },
+  orthophoto: {
+    // merged_ortho_2022.tif (BEV DOP tiles) from analysis_dtm.ipynb, served
+    // either as a COG (gdal_translate -of COG) or pre-tiled (gdal2tiles.py --xyz)
+    source: 'cog', // 'cog' | 'xyz'
+    cogUrl: 'data/merged_ortho_2022_cog.tif',
+    xyzUrl: 'data/orthophoto/{z}/{x}/{y}.png',
+    maxNativeZoom: 19, // deepest zoom level of the XYZ pyramid
+    maxSize: 2048, // longest side read from the COG, in pixels
+    acquired: '2022', // flight year of the dop_*_2022 tiles; a COG DateTime tag takes precedence
+    attribution: 'Orthophoto © BEV (DOP, CC BY 4.0)'
+  },
+  aoi: {
+    url: 'AOI/aoi.geojson', // MultiPolygon in EPSG:31255, reprojected on load
+    style: { color: '#22d3ee', weight: 2, fill: false, dashArray: '6 4' }
+  },
+  profile: {
+    sampleSpacing: 5, // metres between DTM samples along the line
+    gradientWindow: 50 // metres over which the max gradient is measured
+  },
+  hydrology: {
+    // whitebox outputs from hydrology.ipynb; vectors via raster_streams_to_vector
+    // and raster_to_vector_polygons, rasters as (COG) GeoTIFF
+    streamsUrl: 'data/hydrology/streams.geojson',
+    watershedsUrl: 'data/hydrology/subbasins.geojson',
+    handUrl: 'data/hydrology/hand_cog.tif',
+    // Pointer/accumulation grids are read cell by cell, so export them from a
+    // DEM resampled to at most maxGridSize px (e.g. 5 m for the AOI)
+    d8Url: 'data/hydrology/d8_pointer.tif',
+    flowAccumulationUrl: 'data/hydrology/flow_accumulation.tif',
+    maxGridSize: 2048,
+    snapRadius: 3, // cells searched for the highest accumulation when delineating
+    opacity: { hand: 0.6, catchment: 0.45 }
+  },
+  avalanche: {
+    networks: ['drive'], // road networks checked for exposure below starting zones
+    snowDays: 3, // forecast days summed as fresh snow load
+    windLoading: 20, // km/h above which lee slopes get extra weight
+    alphaAngle: 22, // minimum release-to-road inclination (α-angle runout criterion), degrees
+    maxRunout: 600, // metres searched upslope of the road for starting zones
+    sampleSpacing: 20, // metres between road points checked for exposure
+    opacity: 0.55
+  },
+  vegetation: {
+    roughness: 1, // m; max−min nDSM in a 3×3 window below which tall objects count as roofs
+    bandSize: 50, // m elevation bands for the treeline estimate
+    treelineCover: 0.1, // forest share a band needs to count as below the treeline
+    opacity: 0.65
+  },
+  dod: {
+    // ALS DTM epochs (query_dtm.ipynb / analysis_dtm.ipynb), oldest first; the
+    // difference is computed on the grid of the later epoch
+    epochs: [
+      { id: '2021', label: 'ALS 2021', url: 'data/ALS_DTM_AOI/dtm_2021_cog.tif' },
+      { id: '2022', label: 'ALS 2022', url: 'data/merged_dtm_2022_cog.tif' }
+    ],
+    levelOfDetection: 0.3, // m; smaller changes are treated as noise
+    opacity: 0.75
+  },
+  sar: {
+    // Sentinel-1 acquisitions from check_satellite.ipynb; without a manifest the
+    // notebook's sentinel1_<year>.tif files are looked up next to it
+    manifestUrl: 'data/sentinel1/manifest.json',
+    fallbackYears: [2020, 2021, 2022, 2023, 2024],
+    fallbackBands: ['VV', 'VH'],
+    maxSize: 1024,
+    changeThreshold: 3, // dB, as in the notebook
+    opacity: 0.7
+  },
+  runoff: {
+    networks: ['drive', 'bike'], // road networks checked for stream crossings
+    // In flow_accumulation.tif units (hydrology.ipynb writes specific contributing area)
+    accumulationThreshold: 5000,
+    forecastDays: 3, // days of forecast scored; the wettest day counts
+    runoffCoefficient: 0.5, // share of rain + melt that leaves as surface runoff
+    degreeDayFactor: 4.5, // mm snowmelt per °C above zero per day
+    snowWaterRatio: 10 / 7, // mm water per cm fresh snow (Open-Meteo convention)
+    snowpackDensity: 3 // mm water per cm of settled snow depth on the ground
+  },
+  roadStatus: {
+    rulesUrl: 'config/road_status_rules.json'
+  },
+  roads: {
+    // osmnx exports from query_dtm.ipynb (edges/nodes tables, EPSG:4326)
+    networks: {
+      drive: { label: 'Drive / Service', url: 'Road/aoi_drive_service.gpkg', visible: true },
+      bike: { label: 'Bike', url: 'Road/aoi_bike.gpkg', visible: false },
+      walk: { label: 'Walk', url: 'Road/aoi_walk.gpkg', visible: false }
+    } as Record<string, { label: string; url: string; visible: boolean }>,
+    conditionNetwork: 'drive' // network coloured by the per-segment weather overlay
+  },
+  routing: {
+    sampleSpacing: 20, // metres between DTM samples when costing an edge
+    snapDistance: 500, // metres an origin/destination click may be from the nearest junction
+    alertNetworks: ['drive', 'bike'], // networks closed by alerts from rules with "closesRoad"
+    storageKey: 'gg-road-closures' // manual closures, kept in localStorage across reloads
+  },
+  health: {
+    retry: { attempts: 4, baseDelay: 5000, maxDelay: 60000 }, // weather refresh backoff
+    tick: 30000 // how often staleness is re-evaluated
+  },
+  offline: {
+    serviceWorkerUrl: 'sw.js',
+    // Must match CACHES in sw.js
+    caches: { app: 'gg-app-v1', tiles: 'gg-tiles-v1', weather: 'gg-weather-v1' },
+    // Only our own XYZ orthophoto is pre-cached; third-party basemaps forbid
+    // bulk downloads and are cached by sw.js as they are viewed instead
+    zooms: [10, 16], // orthophoto zoom range pre-cached for the AOI
+    maxTiles: 4000, // per download, to keep the pre-cache within browser storage quotas
+    concurrency: 4
+  },
+  terrain3d: {
+    chunkCells: 64, // DTM cells per mesh chunk side
+    lodSteps: [8, 4, 2, 1], // cell strides per level, coarsest first
+    softwareLodSteps: [16, 8, 4], // without a GPU the full-resolution levels are skipped
+    lodDistance: 1.5, // chunk widths between level switches
+    textureSize: 4096, // drape texture, longest side in pixels
+    softwareTextureSize: 1024,
+    exaggeration: 1.5,
+    skirt: 30, // metres hung from chunk edges to hide cracks between levels
+    roadOffset: 4, // metres above the surface so draped roads aren't hidden
+    minClearance: 20 // metres the camera stays above ground
+  },
+  history: {
+    dbName: 'gg-history', // IndexedDB database with every station fetch and daily summaries
+    seasonStartMonth: 10, // winter seasons run October–September, labelled e.g. 2025/26
+    snowDay: 1 // cm of daily snowfall that counts as a snow day
+  },
+  incidents: {
+    dbName: 'gg-incidents', // IndexedDB database with operator-reported incidents
+    // 'none' keeps incidents on this device; 'rest' syncs them with syncUrl
+    // (`node incident_mock_server.js` serves a local test endpoint there)
+    sync: 'none',
+    syncUrl: 'http://localhost:8787/incidents',
+    syncInterval: 60000,
+    roadNetworks: ['drive'], // incidents this close to these roads show on the Road Status card
+    roadDistance: 100, // metres
+    photoSize: 1280 // longest side of stored photos, in pixels
+  },
+  report: {
+    title: 'Großglockner High Alpine Road – Situation Report',
+    sidebarWidth: 360, // px beside the map in the PNG
+    scaleBarWidth: 100 // px the scale bar may grow to
+  },
+  views: {
+    version: 1, // bump when URL hash parameters change meaning
+    storageKey: 'gg-saved-views' // named views in localStorage
+  },
+  libs: {
+    leafletJs: 'https://unpkg.com/leaflet@1.9.4/dist/leaflet.js',
+    leafletCss: 'https://unpkg.com/leaflet@1.9.4/dist/leaflet.css',
+    sqlJs: 'https://unpkg.com/sql.js@1.10.3/dist/sql-wasm.js',
+    sqlJsDist: 'https://unpkg.com/sql.js@1.10.3/dist/',
+    geoTiff: 'https://unpkg.com/geotiff@2.1.3/dist-browser/geotiff.js',
+    three: 'https://unpkg.com/three@0.158.0/build/three.min.js', // last release with a global (UMD) build
+    jsPdf: 'https://unpkg.com/jspdf@2.5.1/dist/jspdf.umd.min.js'
+  },
+  weather: {
+    provider: 'open-meteo', // forecast source, a key of WEATHER_PROVIDERS ('mock' for offline UI work)
+    observationProvider: 'geosphere', // measured station values compared in WeatherPanel; null to disable
+    apiUrl: 'https://api.open-meteo.com/v1/forecast',
+    geosphere: {
+      // TAWES 10-minute observations; road stations use the nearest active TAWES site
+      apiUrl: 'https://dataset.api.hub.geosphere.at/v1/station/current/tawes-v1-10min',
+      parameters: ['TL', 'FF', 'DD', 'RR', 'SCHNEE'],
+      maxDistance: 20000 // metres
+    },
+    mock: { fixtureUrl: 'config/weather_fixture.json' },
+    updateInterval: 600000, // 10 minutes
+    forecastDays: 7,
+    daily: ['temperature_2m_max', 'temperature_2m_min', 'snowfall_sum', 'precipitation_sum', 'wind_gusts_10m_max', 'weather_code'],
+    hourly: ['temperature_2m', 'freezing_level_height'],
+    lapseRate: 0.0065, // °C per metre, standard atmosphere
+    snowLineOffset: 300, // snow usually reaches ~300 m below the freezing level
+    // Sampling points along the High Alpine Road (elevation = road elevation)
+    stations: [
+      { id: 'ferleiten', name: 'Ferleiten', lat: 47.1836, lon: 12.8133, elevation: 1150 },
+      { id: 'fuschertoerl', name: 'Fuscher Törl', lat: 47.1225, lon: 12.8236, elevation: 2428 },
+      { id: 'hochtor', name: 'Hochtor', lat: 47.0826, lon: 12.8434, elevation: 2504 },
+      { id: 'kfjh', name: 'Kaiser-Franz-Josefs-Höhe', lat: 47.0757, lon: 12.7519, elevation: 2369 },
+      { id: 'kasereck', name: 'Kasereck', lat: 47.0603, lon: 12.8139, elevation: 1913 },
+      { id: 'heiligenblut', name: 'Heiligenblut', lat: 47.0396, lon: 12.8435, elevation: 1288 }
+    ]
+  }
+};
+
+// Shape of CONFIG, for code that takes it or a modified copy as a parameter
+export type AppConfig = typeof CONFIG;
+
+// [value, colour] stop of a colour ramp
+export type ColorStop = [number, string];
+
+export interface AlertSeverity {
+  rank: number; // higher is more severe
+  label: string;
+  color: string;
+  card: string; // Tailwind classes for alert cards
+  text: string;
+}
+
+export const ALERT_SEVERITIES: Record<string, AlertSeverity> = {
+  info: { rank: 1, label: 'Info', color: '#2563eb', card: 'bg-blue-50 border-blue-500', text: 'text-blue-800' },
+  warning: { rank: 2, label: 'Warning', color: '#f59e0b', card: 'bg-yellow-50 border-yellow-500', text: 'text-yellow-800' },
+  critical: { rank: 3, label: 'Critical', color: '#dc2626', card: 'bg-red-50 border-red-500', text: 'text-red-800' }
+};
+
+// Monitored data sources; staleAfter (ms) flags data that hasn't refreshed in time
+export const HEALTH_SOURCES: Record<string, { label: string; staleAfter: number | null }> = {
+  weather: { label: 'Weather forecast', staleAfter: 2 * CONFIG.weather.updateInterval },
+  stations: { label: 'Station forecasts', staleAfter: 2 * CONFIG.weather.updateInterval },
+  observations: { label: 'Station observations', staleAfter: 2 * CONFIG.weather.updateInterval },
+  tiles: { label: 'Basemap tile server', staleAfter: null },
+  rasters: { label: 'Terrain rasters (DTM)', staleAfter: null },
+  roads: { label: 'Road data (GeoPackage)', staleAfter: null }
+};
+
+// Per-source and overall status styling
+export const HEALTH_STATUS: Record<string, { label: string; dot: string }> = {
+  ok: { label: 'OK', dot: 'bg-green-400' },
+  pending: { label: 'Waiting', dot: 'bg-gray-400' },
+  stale: { label: 'Stale', dot: 'bg-amber-400' },
+  error: { label: 'Failing', dot: 'bg-red-500' },
+  online: { label: 'System Online', dot: 'bg-green-400 animate-pulse' },
+  degraded: { label: 'Degraded', dot: 'bg-amber-400' },
+  offline: { label: 'Offline · showing cached data', dot: 'bg-red-500' }
+};
+
+// Height Above Nearest Drainage classes (m) for flood susceptibility
+export const HAND_CLASSES = [
+  { max: 1, label: 'Very high', color: '#08306b' },
+  { max: 5, label: 'High', color: '#2171b5' },
+  { max: 15, label: 'Moderate', color: '#6baed6' },
+  { max: 30, label: 'Low', color: '#c6dbef' },
+  { max: Infinity, label: 'Very low', color: '#f7fbff' }
+];
+
+// Potential release-area slope classes and their weights
+export const AVALANCHE_SLOPE_CLASSES = [
+  { min: 30, max: 35, label: '30–35°', weight: 1 },
+  { min: 35, max: 40, label: '35–40°', weight: 1.5 },
+  { min: 40, max: 60, label: '>40°', weight: 2 }
+];
+
+// Exposure levels by hazard index (slope × aspect × snow weights)
+export const AVALANCHE_LEVELS = [
+  { level: 1, min: 0, label: 'Low', color: '#fde68a' },
+  { level: 2, min: 1.5, label: 'Moderate', color: '#f59e0b' },
+  { level: 3, min: 2.5, label: 'Considerable', color: '#ea580c' },
+  { level: 4, min: 3.5, label: 'High', color: '#991b1b' }
+];
+
+// nDSM height classes (m above ground); buildings are tall but flat-topped
+export const NDSM_CLASSES = [
+  { key: 'ground', label: 'Ground', max: 0.5, color: '#e5e7eb' },
+  { key: 'low', label: 'Low vegetation', max: 2, color: '#bef264' },
+  { key: 'shrubs', label: 'Shrubs', max: 5, color: '#65a30d' },
+  { key: 'forest', label: 'Forest', max: Infinity, color: '#14532d' },
+  { key: 'buildings', label: 'Buildings', color: '#dc2626' }
+];
+
+// Elevation change (later − earlier epoch, m): loss red, gain blue
+export const DOD_STOPS: ColorStop[] = [[-10, '#67001f'], [-3, '#d6604d'], [0, '#f7f7f7'], [3, '#4393c3'], [10, '#053061']];
+
+// Sentinel-1 display products and their colour ramps ([value, colour] stops)
+export interface ColorRamp {
+  label: string;
+  unit: string;
+  stops: ColorStop[];
+}
+
+export const SAR_PRODUCTS: Record<string, ColorRamp> = {
+  backscatter: {
+    label: 'Backscatter',
+    unit: ' dB',
+    stops: [[-25, '#000000'], [0, '#ffffff']]
+  },
+  difference: {
+    label: 'Difference',
+    unit: ' dB',
+    stops: [[-10, '#2166ac'], [0, '#f7f7f7'], [10, '#b2182b']]
+  },
+  change: {
+    label: 'Change mask',
+    unit: '',
+    stops: [[-1, '#2563eb'], [1, '#dc2626']]
+  }
+};
+
+// Runoff volume (m³ per day) thresholds for road crossing risk levels
+export const RUNOFF_RISK_LEVELS = [
+  { max: 2000, level: 'low', label: 'Low', color: '#22c55e' },
+  { max: 10000, level: 'moderate', label: 'Moderate', color: '#eab308' },
+  { max: 50000, level: 'high', label: 'High', color: '#f97316' },
+  { max: Infinity, level: 'very-high', label: 'Very high', color: '#dc2626' }
+];
+
+// whitebox D8 pointer codes (esri_pntr=False) → [dx, dy] in raster rows/cols
+//   64 128   1
+//   32   0   2
+//   16   8   4
+export const D8_OFFSETS: Record<number, [number, number]> = {
+  1: [1, -1], 2: [1, 0], 4: [1, 1], 8: [0, 1], 16: [-1, 1], 32: [-1, 0], 64: [-1, -1], 128: [0, -1]
+};
+
+// Basemaps for the map, the swipe comparison and the 3D drape. Tile URLs and
+// subdomains are in CONFIG.map, the orthophoto source in CONFIG.orthophoto.
+export const BASEMAPS: Record<string, { label: string; maxZoom: number; attribution: string }> = {
+  satellite: { label: 'Satellite', maxZoom: 18, attribution: '© Google Maps' },
+  osm: { label: 'OpenStreetMap', maxZoom: 19, attribution: '© OpenStreetMap contributors' },
+  orthophoto: { label: 'Orthophoto (BEV DOP)', maxZoom: 20, attribution: CONFIG.orthophoto.attribution }
+};
+
+// Road surface condition classes used for the per-segment weather overlay
+export const ROAD_CONDITIONS: Record<string, { label: string; color: string }> = {
+  snow: { label: 'Snow', color: '#3b82f6' },
+  ice: { label: 'Frost / ice risk', color: '#06b6d4' },
+  wet: { label: 'Wet', color: '#a3a3a3' },
+  dry: { label: 'Dry', color: '#22c55e' },
+  unknown: { label: 'No data', color: '#6b7280' }
+};
+
+// Incident categories road crews can report, coloured on the map
+export const INCIDENT_CATEGORIES: Record<string, { label: string; color: string }> = {
+  rockfall: { label: 'Rockfall', color: '#92400e' },
+  avalanche: { label: 'Avalanche debris', color: '#0ea5e9' },
+  'snow-drift': { label: 'Snow drift', color: '#6366f1' },
+  guardrail: { label: 'Damaged guardrail', color: '#f97316' },
+  'fallen-tree': { label: 'Fallen tree', color: '#15803d' },
+  flooding: { label: 'Flooding / debris flow', color: '#1d4ed8' },
+  other: { label: 'Other', color: '#6b7280' }
+};
+
+// What a click on the map does; drawing tools collect vertices until finished
+export interface MapTool {
+  label: string;
+  hint: string;
+  draw?: 'line' | 'polygon';
+}
+
+export const MAP_TOOLS: Record<string, MapTool> = {
+  query: { label: 'Query terrain', hint: 'Click the map to read elevation, slope and aspect.' },
+  'profile-draw': { label: 'Draw profile line', hint: 'Click to add vertices, double-click or Finish to end.', draw: 'line' },
+  'profile-road': { label: 'Profile a road', hint: 'Click a road segment to profile it.' },
+  catchment: { label: 'Delineate catchment', hint: 'Click a stream or culvert to trace its upstream area.' },
+  'dod-draw': {
+    label: 'Draw change polygon',
+    hint: 'Click polygon vertices, double-click or Finish to sum elevation change inside.',
+    draw: 'polygon'
+  },
+  route: { label: 'Plan a route', hint: 'Click the origin, then the destination; a third click starts over.' },
+  'close-road': { label: 'Close road segments', hint: 'Click a segment of the routing network to close or reopen it.' },
+  'incident-point': { label: 'Report incident (point)', hint: 'Click where the incident is.' },
+  'incident-line': {
+    label: 'Report incident (line)',
+    hint: 'Click to add vertices, double-click or Finish to end.',
+    draw: 'line'
+  },
+  'incident-area': {
+    label: 'Report incident (area)',
+    hint: 'Click polygon vertices, double-click or Finish to end.',
+    draw: 'polygon'
+  }
+};
+
+// Travel modes for routing, each on one of CONFIG.roads.networks. `speed` is in
+// km/h for an edge's highway class and grade (rise / run in travel direction).
+export interface RoutingProfile {
+  label: string;
+  network: string; // key of CONFIG.roads.networks
+  speed: (highway: string, grade: number) => number;
+}
+
+export const ROUTING_PROFILES: Record<string, RoutingProfile> = {
+  drive: {
+    label: 'Car',
+    network: 'drive',
+    speed: (highway) =>
+      ({ primary: 50, secondary: 50, tertiary: 40, unclassified: 30, residential: 30, service: 20, track: 10 } as Record<string, number>)[highway] || 30
+  },
+  bike: {
+    label: 'Bike',
+    network: 'bike',
+    // 18 km/h on the flat, down to 4 km/h climbing and at most 40 km/h downhill
+    speed: (highway, grade) => (grade > 0 ? Math.max(4, 18 - 120 * grade) : Math.min(40, 18 - 80 * grade))
+  },
+  walk: {
+    label: 'Walk',
+    network: 'walk',
+    // Tobler's hiking function: fastest on a slight descent
+    speed: (highway, grade) => 6 * Math.exp(-3.5 * Math.abs(grade + 0.05))
+  }
+};
+
+// Terrain derivatives and their colour ramps ([value, colour] stops)
+export const TERRAIN_LAYERS: Record<string, ColorRamp> = {
+  hillshade: { label: 'Hillshade', unit: '', stops: [[0, '#000000'], [255, '#ffffff']] },
+  slope: {
+    label: 'Slope',
+    unit: '°',
+    stops: [[0, '#1a9850'], [15, '#a6d96a'], [25, '#fee08b'], [35, '#f46d43'], [45, '#a50026'], [60, '#4d0013']]
+  },
+  aspect: {
+    label: 'Aspect',
+    unit: '°',
+    stops: [[0, '#ff0000'], [90, '#ffff00'], [180, '#00ffff'], [270, '#ff00ff'], [360, '#ff0000']]
+  }
+};
+
+// Styling per OSM `highway` class; anything unlisted falls back to `default`
+export const HIGHWAY_STYLES: Record<string, { color: string; weight: number; dashArray?: string }> = {
+  primary: { color: '#ffb400', weight: 5 },
+  secondary: { color: '#ffd000', weight: 4 },
+  tertiary: { color: '#ffe066', weight: 4 },
+  unclassified: { color: '#fff3b0', weight: 3 },
+  residential: { color: '#ffffff', weight: 3 },
+  service: { color: '#e0e0e0', weight: 2 },
+  track: { color: '#b5651d', weight: 2, dashArray: '6 4' },
+  path: { color: '#e11d48', weight: 2, dashArray: '2 4' },
+  footway: { color: '#fb7185', weight: 2, dashArray: '2 4' },
+  cycleway: { color: '#2563eb', weight: 2, dashArray: '4 3' },
+  steps: { color: '#a21caf', weight: 2, dashArray: '1 3' },
+  default: { color: '#9ca3af', weight: 2 }
+};
@@ -0,0 +1,311 @@
+import type { FeatureCollection, Position } from 'geojson';
+
+// ============================================================================
+// COORDINATE REFERENCE SYSTEMS
+// ============================================================================
+
+// Same transforms as the pyproj calls in reprojection.ipynb / check_aoi.ipynb
+// (EPSG:31255 uses the EPSG:1618 MGI → WGS 84 Helmert shift, like PROJ).
+export const DEG = Math.PI / 180;
+
+const ELLIPSOIDS = {
+  bessel: { a: 6377397.155, f: 1 / 299.1528128 },
+  grs80: { a: 6378137, f: 1 / 298.257222101 },
+  wgs84: { a: 6378137, f: 1 / 298.257223563 }
+};
+
+type EllipsoidName = keyof typeof ELLIPSOIDS;
+
+// EPSG:1618-style Helmert parameters: dx, dy, dz (m), rx, ry, rz (arc-seconds), ds (ppm)
+type Helmert = [number, number, number, number, number, number, number];
+
+interface ProjectedCrs {
+  name: string;
+  ellipsoid: EllipsoidName;
+  lon0: number;
+  lat0: number;
+  x0: number;
+  y0: number;
+  towgs84?: Helmert;
+}
+
+type CrsDefinition =
+  | { name: string; type: 'geographic' }
+  | (ProjectedCrs & { type: 'tmerc'; k0: number })
+  | (ProjectedCrs & { type: 'laea' });
+
+// Any depth of GeoJSON coordinate nesting
+export type Coordinates = Position | Coordinates[];
+
+// Leaflet-style [[south, west], [north, east]] in degrees
+export type LatLonBounds = [[number, number], [number, number]];
+
+// A FeatureCollection as exported by GDAL, with the legacy `crs` member
+export interface CrsFeatureCollection extends FeatureCollection {
+  crs?: { properties?: { name?: string } };
+}
+
+const CRS_DEFINITIONS: Record<number, CrsDefinition> = {
+  4326: { name: 'WGS 84', type: 'geographic' },
+  31255: {
+    name: 'MGI / Austria GK Central',
+    type: 'tmerc',
+    ellipsoid: 'bessel',
+    lon0: 13 + 1 / 3,
+    lat0: 0,
+    k0: 1,
+    x0: 0,
+    y0: -5000000,
+    // EPSG:1618 MGI → WGS 84 (position vector, arc-seconds, ppm)
+    towgs84: [577.326, 90.129, 463.919, 5.137, 1.474, 5.297, 2.4232]
+  },
+  3035: {
+    name: 'ETRS89 / LAEA Europe',
+    type: 'laea',
+    ellipsoid: 'grs80',
+    lon0: 10,
+    lat0: 52,
+    x0: 4321000,
+    y0: 3210000
+  }
+};
+
+const ellipsoidParams = (name: EllipsoidName) => {
+  const { a, f } = ELLIPSOIDS[name];
+  const e2 = f * (2 - f);
+  return { a, e2, e: Math.sqrt(e2) };
+};
+
+// Meridian arc length from the equator (Snyder 3-21)
+const meridianArc = (phi: number, e2: number, a: number) => {
+  const e4 = e2 * e2, e6 = e4 * e2;
+  return a * (
+    (1 - e2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi -
+    (3 * e2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi) +
+    (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi) -
+    (35 * e6 / 3072) * Math.sin(6 * phi)
+  );
+};
+
+type TmercCrs = Extract<CrsDefinition, { type: 'tmerc' }>;
+type LaeaCrs = Extract<CrsDefinition, { type: 'laea' }>;
+
+const tmerc = {
+  forward: (def: TmercCrs, lon: number, lat: number): [number, number] => {
+    const { a, e2 } = ellipsoidParams(def.ellipsoid);
+    const ep2 = e2 / (1 - e2);
+    const phi = lat * DEG;
+    const N = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    const T = Math.tan(phi) ** 2;
+    const C = ep2 * Math.cos(phi) ** 2;
+    const A = (lon - def.lon0) * DEG * Math.cos(phi);
+    const M = meridianArc(phi, e2, a) - meridianArc(def.lat0 * DEG, e2, a);
+    const x = def.k0 * N * (A + (1 - T + C) * A ** 3 / 6 + (5 - 18 * T + T * T + 72 * C - 58 * ep2) * A ** 5 / 120);
+    const y = def.k0 * (M + N * Math.tan(phi) * (A * A / 2 + (5 - T + 9 * C + 4 * C * C) * A ** 4 / 24 +
+      (61 - 58 * T + T * T + 600 * C - 330 * ep2) * A ** 6 / 720));
+    return [x + def.x0, y + def.y0];
+  },
+
+  inverse: (def: TmercCrs, x: number, y: number): [number, number] => {
+    const { a, e2 } = ellipsoidParams(def.ellipsoid);
+    const ep2 = e2 / (1 - e2);
+    const M = meridianArc(def.lat0 * DEG, e2, a) + (y - def.y0) / def.k0;
+    const mu = M / (a * (1 - e2 / 4 - 3 * e2 * e2 / 64 - 5 * e2 ** 3 / 256));
+    const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+    const phi1 = mu + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu) +
+      (21 * e1 * e1 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu) +
+      (151 * e1 ** 3 / 96) * Math.sin(6 * mu) + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+    const sin1 = Math.sin(phi1), cos1 = Math.cos(phi1);
+    const C1 = ep2 * cos1 * cos1;
+    const T1 = Math.tan(phi1) ** 2;
+    const N1 = a / Math.sqrt(1 - e2 * sin1 * sin1);
+    const R1 = a * (1 - e2) / (1 - e2 * sin1 * sin1) ** 1.5;
+    const D = (x - def.x0) / (N1 * def.k0);
+    const lat = phi1 - (N1 * Math.tan(phi1) / R1) * (D * D / 2 -
+      (5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * ep2) * D ** 4 / 24 +
+      (61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * ep2 - 3 * C1 * C1) * D ** 6 / 720);
+    const lon = (D - (1 + 2 * T1 + C1) * D ** 3 / 6 +
+      (5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * ep2 + 24 * T1 * T1) * D ** 5 / 120) / cos1;
+    return [def.lon0 + lon / DEG, lat / DEG];
+  }
+};
+
+// Authalic latitude helper q (Snyder 3-12)
+const authalicQ = (sinPhi: number, e: number) =>
+  (1 - e * e) * (sinPhi / (1 - e * e * sinPhi * sinPhi) - Math.log((1 - e * sinPhi) / (1 + e * sinPhi)) / (2 * e));
+
+const laea = {
+  setup: (def: LaeaCrs) => {
+    const { a, e2, e } = ellipsoidParams(def.ellipsoid);
+    const qp = authalicQ(1, e);
+    const phi0 = def.lat0 * DEG;
+    const q0 = authalicQ(Math.sin(phi0), e);
+    const beta0 = Math.asin(q0 / qp);
+    const Rq = a * Math.sqrt(qp / 2);
+    const D = a * (Math.cos(phi0) / Math.sqrt(1 - e2 * Math.sin(phi0) ** 2)) / (Rq * Math.cos(beta0));
+    return { a, e2, e, qp, beta0, Rq, D };
+  },
+
+  forward: (def: LaeaCrs, lon: number, lat: number): [number, number] => {
+    const { e, qp, beta0, Rq, D } = laea.setup(def);
+    const beta = Math.asin(authalicQ(Math.sin(lat * DEG), e) / qp);
+    const dLon = (lon - def.lon0) * DEG;
+    const B = Rq * Math.sqrt(2 / (1 + Math.sin(beta0) * Math.sin(beta) +
+      Math.cos(beta0) * Math.cos(beta) * Math.cos(dLon)));
+    const x = B * D * Math.cos(beta) * Math.sin(dLon);
+    const y = (B / D) * (Math.cos(beta0) * Math.sin(beta) - Math.sin(beta0) * Math.cos(beta) * Math.cos(dLon));
+    return [x + def.x0, y + def.y0];
+  },
+
+  inverse: (def: LaeaCrs, x: number, y: number): [number, number] => {
+    const { e2, beta0, Rq, D } = laea.setup(def);
+    const dx = (x - def.x0) / D;
+    const dy = (y - def.y0) * D;
+    const rho = Math.sqrt(dx * dx + dy * dy);
+    if (rho === 0) return [def.lon0, def.lat0];
+    const c = 2 * Math.asin(rho / (2 * Rq));
+    const beta = Math.asin(Math.cos(c) * Math.sin(beta0) + dy * Math.sin(c) * Math.cos(beta0) / rho);
+    const lon = Math.atan2(dx * Math.sin(c),
+      rho * Math.cos(beta0) * Math.cos(c) - dy * Math.sin(beta0) * Math.sin(c));
+    // Authalic → geodetic latitude series (Snyder 3-18)
+    const e4 = e2 * e2, e6 = e4 * e2;
+    const lat = beta +
+      (e2 / 3 + 31 * e4 / 180 + 517 * e6 / 5040) * Math.sin(2 * beta) +
+      (23 * e4 / 360 + 251 * e6 / 3780) * Math.sin(4 * beta) +
+      (761 * e6 / 45360) * Math.sin(6 * beta);
+    return [def.lon0 + lon / DEG, lat / DEG];
+  }
+};
+
+// Geodetic ↔ geocentric plus a 7-parameter Helmert shift for datum changes
+const toGeocentric = (ellipsoid: EllipsoidName, lon: number, lat: number, h = 0): [number, number, number] => {
+  const { a, e2 } = ellipsoidParams(ellipsoid);
+  const phi = lat * DEG, lam = lon * DEG;
+  const N = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+  return [
+    (N + h) * Math.cos(phi) * Math.cos(lam),
+    (N + h) * Math.cos(phi) * Math.sin(lam),
+    (N * (1 - e2) + h) * Math.sin(phi)
+  ];
+};
+
+const fromGeocentric = (ellipsoid: EllipsoidName, [X, Y, Z]: [number, number, number]): [number, number] => {
+  const { a, e2 } = ellipsoidParams(ellipsoid);
+  const p = Math.sqrt(X * X + Y * Y);
+  let phi = Math.atan2(Z, p * (1 - e2));
+  for (let i = 0; i < 5; i++) {
+    const N = a / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+    const h = p / Math.cos(phi) - N;
+    phi = Math.atan2(Z, p * (1 - e2 * N / (N + h)));
+  }
+  return [Math.atan2(Y, X) / DEG, phi / DEG];
+};
+
+const helmert = ([X, Y, Z]: [number, number, number], [dx, dy, dz, rx, ry, rz, ds]: Helmert, sign = 1): [number, number, number] => {
+  const sec = DEG / 3600;
+  const [k, ax, ay, az] = [1 + sign * ds * 1e-6, sign * rx * sec, sign * ry * sec, sign * rz * sec];
+  return [
+    sign * dx + k * (X - az * Y + ay * Z),
+    sign * dy + k * (az * X + Y - ax * Z),
+    sign * dz + k * (-ay * X + ax * Y + Z)
+  ];
+};
+
+export const crsUtils = {
+  parseCrs: (geojson: CrsFeatureCollection | null | undefined): number => {
+    const name = geojson && geojson.crs && geojson.crs.properties && geojson.crs.properties.name;
+    if (!name || /CRS84$/.test(name)) return 4326;
+    const match = String(name).match(/EPSG:+(\d+)$/i);
+    if (!match) throw new Error(`Unrecognised CRS "${name}"`);
+    return Number(match[1]);
+  },
+
+  getDefinition: (epsg: number): CrsDefinition => {
+    const def = CRS_DEFINITIONS[epsg];
+    if (!def) throw new Error(`Unsupported CRS EPSG:${epsg}`);
+    return def;
+  },
+
+  toWgs84: (epsg: number, [x, y, ...rest]: Position): Position => {
+    const def = crsUtils.getDefinition(epsg);
+    if (def.type === 'geographic') return [x, y, ...rest];
+    let [lon, lat] = def.type === 'tmerc' ? tmerc.inverse(def, x, y) : laea.inverse(def, x, y);
+    if (def.towgs84) {
+      [lon, lat] = fromGeocentric('wgs84', helmert(toGeocentric(def.ellipsoid, lon, lat), def.towgs84));
+    }
+    return [lon, lat, ...rest];
+  },
+
+  fromWgs84: (epsg: number, [lon, lat, ...rest]: Position): Position => {
+    const def = crsUtils.getDefinition(epsg);
+    if (def.type === 'geographic') return [lon, lat, ...rest];
+    if (def.towgs84) {
+      [lon, lat] = fromGeocentric(def.ellipsoid, helmert(toGeocentric('wgs84', lon, lat), def.towgs84, -1));
+    }
+    return [...(def.type === 'tmerc' ? tmerc.forward(def, lon, lat) : laea.forward(def, lon, lat)), ...rest];
+  },
+
+  reprojectCoordinates: (coordinates: Coordinates, epsg: number): Coordinates =>
+    typeof coordinates[0] === 'number'
+      ? crsUtils.toWgs84(epsg, coordinates as Position)
+      : (coordinates as Coordinates[]).map((c) => crsUtils.reprojectCoordinates(c, epsg)),
+
+  // Returns a plain EPSG:4326 FeatureCollection (no `crs` member) for Leaflet
+  reprojectGeoJSON: (geojson: CrsFeatureCollection): FeatureCollection => {
+    const epsg = crsUtils.parseCrs(geojson);
+    const { crs, ...rest } = geojson;
+    return {
+      ...rest,
+      features: geojson.features.map((feature) => ({
+        ...feature,
+        geometry: feature.geometry && 'coordinates' in feature.geometry ? {
+          ...feature.geometry,
+          coordinates: crsUtils.reprojectCoordinates(feature.geometry.coordinates, epsg)
+        } as typeof feature.geometry : feature.geometry
+      }))
+    };
+  },
+
+  // Leaflet-style [[south, west], [north, east]] for a WGS84 FeatureCollection
+  getBounds: (geojson: FeatureCollection): LatLonBounds => {
+    let [south, west, north, east] = [Infinity, Infinity, -Infinity, -Infinity];
+    const visit = (coords: Coordinates) => {
+      if (typeof coords[0] === 'number') {
+        const [lon, lat] = coords as Position;
+        west = Math.min(west, lon);
+        east = Math.max(east, lon);
+        south = Math.min(south, lat);
+        north = Math.max(north, lat);
+      } else {
+        (coords as Coordinates[]).forEach(visit);
+      }
+    };
+    geojson.features.forEach((f) => f.geometry && 'coordinates' in f.geometry && visit(f.geometry.coordinates));
+    return [[south, west], [north, east]];
+  },
+
+  // Spherical polygon area (same approach as turf/area), WGS84 input, km²
+  getAreaKm2: (geojson: FeatureCollection) => {
+    const R = 6378137;
+    const ringArea = (ring: Position[]) => {
+      let area = 0;
+      for (let i = 0; i < ring.length - 1; i++) {
+        const [lon1, lat1] = ring[i];
+        const [lon2, lat2] = ring[i + 1];
+        area += (lon2 - lon1) * DEG * (2 + Math.sin(lat1 * DEG) + Math.sin(lat2 * DEG));
+      }
+      return Math.abs(area * R * R / 2);
+    };
+    const polygonArea = (rings: Position[][]) =>
+      rings.reduce((sum, ring, i) => sum + (i === 0 ? ringArea(ring) : -ringArea(ring)), 0);
+
+    return geojson.features.reduce((sum, { geometry }) => {
+      if (!geometry) return sum;
+      if (geometry.type === 'Polygon') return sum + polygonArea(geometry.coordinates);
+      if (geometry.type === 'MultiPolygon') {
+        return sum + geometry.coordinates.reduce((s, polygon) => s + polygonArea(polygon), 0);
+      }
+      return sum;
+    }, 0) / 1e6;
+  }
+};
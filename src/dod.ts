@@ -0,0 +1,63 @@
+import type { Position } from 'geojson';
+import { CONFIG, DOD_STOPS } from './config';
+import { Raster, RasterStats, RasterValues, rasterUtils } from './raster';
+
+// ============================================================================
+// ELEVATION CHANGE
+// ============================================================================
+
+// Epoch pair and measured area chosen in the elevation change panel
+export interface DodSettings {
+  enabled: boolean;
+  from: number; // index into CONFIG.dod.epochs
+  to: number;
+  polygon: Position[] | null; // closed ring; null measures the AOI
+}
+
+// Later minus earlier epoch on the later epoch's grid
+export interface DodResult extends RasterValues {
+  stats: RasterStats | null;
+}
+
+export interface DodVolumes {
+  gain: number; // m³
+  loss: number;
+  net: number;
+  areaM2: number;
+  changedM2: number; // area above the level of detection
+}
+
+// DEM of difference between two ALS epochs, for rockfall and glacier
+// (Pasterze) monitoring along the road
+export const dodUtils = {
+  difference: (before: Raster, after: Raster): DodResult => {
+    const earlier = rasterUtils.resampleTo(after, before, true);
+    const values = after.data.map((z, i) => z - earlier[i]);
+    return { raster: after, values, stats: rasterUtils.getStats(values) };
+  },
+
+  color: rasterUtils.colorRamp(DOD_STOPS),
+
+  // Transparent below the level of detection so only real change is drawn
+  displayValues: (values: Float32Array) =>
+    values.map((v) => (Math.abs(v) < CONFIG.dod.levelOfDetection ? NaN : v)),
+
+  // Volumes (m³) gained and lost inside a cell mask, ignoring change below the level of detection
+  volumes: ({ raster, values }: RasterValues, mask: Uint8Array): DodVolumes => {
+    const [cellX, cellY] = rasterUtils.cellSize(raster);
+    const cellArea = cellX * cellY;
+    let gain = 0;
+    let loss = 0;
+    let cells = 0;
+    let changed = 0;
+    for (let i = 0; i < values.length; i++) {
+      if (!mask[i] || Number.isNaN(values[i])) continue;
+      cells++;
+      if (Math.abs(values[i]) < CONFIG.dod.levelOfDetection) continue;
+      changed++;
+      if (values[i] > 0) gain += values[i] * cellArea;
+      else loss -= values[i] * cellArea;
+    }
+    return { gain, loss, net: gain - loss, areaM2: cells * cellArea, changedM2: changed * cellArea };
+  }
+};
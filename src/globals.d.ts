@@ -0,0 +1,17 @@
+// Libraries loaded from CONFIG.libs at runtime (see libs.ts) and the globals
+// their UMD builds define. The npm packages are installed for their types only.
+import type * as Leaflet from 'leaflet';
+import type * as GeoTIFF from 'geotiff';
+import type * as THREE from 'three';
+import type * as jspdf from 'jspdf';
+import type initSqlJs from 'sql.js';
+
+declare global {
+  interface Window {
+    L: typeof Leaflet;
+    GeoTIFF: typeof GeoTIFF;
+    THREE: typeof THREE;
+    jspdf: typeof jspdf;
+    initSqlJs: typeof initSqlJs;
+  }
+}
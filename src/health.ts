@@ -0,0 +1,100 @@
+import { CONFIG, HEALTH_SOURCES } from './config';
+
+// ============================================================================
+// SYSTEM HEALTH
+// ============================================================================
+
+// Health of one source; times are epoch ms
+export interface HealthEntry {
+  lastSuccess: number | null;
+  lastError: { at: number; message: string } | null;
+  latency: number | null; // ms, of the last finished request
+  retry: { attempt: number; delay: number } | null; // set while backing off, delay in ms
+}
+
+export type HealthState = Record<string, HealthEntry>; // keyed by HEALTH_SOURCES
+
+// { ok, latency, error } for a finished request, or { retry } while backing off
+export interface HealthUpdate {
+  ok?: boolean;
+  latency?: number;
+  error?: string;
+  retry?: HealthEntry['retry'];
+}
+
+export type HealthReporter = (source: string, update: HealthUpdate) => void;
+
+export const healthUtils = {
+  initialState: (): HealthState => Object.fromEntries(Object.keys(HEALTH_SOURCES).map((key) => [
+    key, { lastSuccess: null, lastError: null, latency: null, retry: null }
+  ])),
+
+  record: (state: HealthState, source: string, update: HealthUpdate): HealthState => {
+    const entry = { ...state[source] };
+    const at = Date.now();
+    if (update.retry !== undefined) entry.retry = update.retry;
+    if (update.latency !== undefined) entry.latency = update.latency;
+    if (update.ok === true) {
+      entry.lastSuccess = at;
+      entry.retry = null;
+    } else if (update.ok === false) {
+      entry.lastError = { at, message: update.error || 'Unknown error' };
+    }
+    return { ...state, [source]: entry };
+  },
+
+  sourceStatus: (entry: HealthEntry, { staleAfter }: { staleAfter: number | null }, now: number) => {
+    if (entry.lastError && (!entry.lastSuccess || entry.lastError.at >= entry.lastSuccess)) return 'error';
+    if (!entry.lastSuccess) return 'pending';
+    if (staleAfter && now - entry.lastSuccess > staleAfter) return 'stale';
+    return 'ok';
+  },
+
+  overall: (statuses: Record<string, string>, online: boolean) => {
+    if (!online) return 'offline';
+    return Object.values(statuses).some((s) => s === 'error' || s === 'stale') ? 'degraded' : 'online';
+  },
+
+  // Runs a request, reporting latency and outcome. `check` may return a problem
+  // description for results that arrived but shouldn't count as fresh.
+  track: async <T>(report: HealthReporter, source: string, request: () => Promise<T>,
+    check: ((result: T) => string | null) | null = null): Promise<T> => {
+    const start = performance.now();
+    try {
+      const result = await request();
+      const problem = check && check(result);
+      report(source, problem
+        ? { ok: false, latency: performance.now() - start, error: problem }
+        : { ok: true, latency: performance.now() - start });
+      return result;
+    } catch (error) {
+      report(source, { ok: false, latency: performance.now() - start, error: (error as Error).message });
+      throw error;
+    }
+  },
+
+  // Exponential backoff; onRetry(attempt, delay) is called before each wait
+  retry: async <T>(request: () => Promise<T>, onRetry: (attempt: number, delay: number) => void,
+    isCancelled = () => false): Promise<T> => {
+    const { attempts, baseDelay, maxDelay } = CONFIG.health.retry;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request();
+      } catch (error) {
+        if (attempt >= attempts || isCancelled()) throw error;
+        const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+        onRetry(attempt, delay);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        if (isCancelled()) throw error;
+      }
+    }
+  }
+};
+
+export const formatAgo = (timestamp: number | null, now = Date.now()) => {
+  if (!timestamp) return 'never';
+  const seconds = Math.round((now - timestamp) / 1000);
+  if (seconds < 60) return `${seconds} s ago`;
+  if (seconds < 3600) return `${Math.round(seconds / 60)} min ago`;
+  return `${Math.round(seconds / 3600)} h ago`;
+};
@@ -0,0 +1,293 @@
+import { CONFIG } from './config';
+import { RoadAlert, roadStatusUtils } from './roadStatus';
+import { DailyWeather, StationWeather } from './weather';
+
+// ============================================================================
+// WEATHER HISTORY
+// ============================================================================
+
+// Every station fetch is kept in the `fetches` store and folded into one `days`
+// record per station and local date. Charts and season statistics read `days`;
+// imported archives are merged straight into it.
+type HistoryValue = number | null | undefined;
+
+// Anything mergeDay folds into a day: fetch rows, archive rows and days
+export interface HistoryInput {
+  stationId: string;
+  date: string; // local YYYY-MM-DD
+  source?: string; // 'forecast' or 'observed'; archive rows count as observed
+  temp?: HistoryValue;
+  tempMin?: HistoryValue;
+  tempMax?: HistoryValue;
+  wind?: HistoryValue;
+  windMax?: HistoryValue;
+  gust?: HistoryValue;
+  gustMax?: HistoryValue;
+  snowfall?: HistoryValue;
+  precipitation?: HistoryValue;
+  snowDepth?: HistoryValue;
+  alerts?: string[]; // rule ids
+  samples?: number;
+}
+
+// One provider fetch for one station, as kept in `fetches`
+export interface HistoryRow extends HistoryInput {
+  source: string; // 'forecast' or 'observed'
+  time: string; // ISO time of the observation or fetch
+  temp: number | null;
+  wind: number | null;
+  gust: number | null;
+  snowfall: number | null;
+  precipitation: number | null;
+  snowDepth: number | null;
+  alerts: string[];
+}
+
+export interface HistoryDay extends HistoryInput {
+  source: string; // 'observed' once a measured row is merged, else 'forecast'
+  tempMin: number | null;
+  tempMax: number | null;
+  windMax: number | null;
+  gustMax: number | null;
+  snowfall: number | null;
+  precipitation: number | null;
+  snowDepth: number | null;
+  alerts: string[];
+  samples: number; // fetches and archive rows merged into the day
+}
+
+let historyDbPromise: Promise<IDBDatabase> | null = null;
+
+// Station and season shown in the history panel
+export interface HistoryView {
+  station: string;
+  season: number | null; // null shows the latest season
+}
+
+export interface HistoryStatus {
+  error: string | null;
+  imported: { file: string; rows: number; errors: string[] } | null; // last archive import
+}
+
+export const idbDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve(undefined);
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+});
+
+export const historyUtils = {
+  open: (): Promise<IDBDatabase> => {
+    if (!historyDbPromise) {
+      historyDbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+        const request = indexedDB.open(CONFIG.history.dbName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore('fetches', { keyPath: ['stationId', 'source', 'time'] }).createIndex('date', 'date');
+          db.createObjectStore('days', { keyPath: ['stationId', 'date'] }).createIndex('date', 'date');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return historyDbPromise;
+  },
+
+  localDate: (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`,
+
+  // One row per station from a provider result. Daily sums come from today's
+  // forecast, so observation rows only contribute temperature, wind and snow
+  // depth; `alerts` are the road alerts active at fetch time.
+  fromStationWeather: (stationWeather: StationWeather[], alerts: RoadAlert[], source: string, now = new Date()) => stationWeather.map((obs): HistoryRow => {
+    const time = obs.observedAt ? new Date(obs.observedAt) : now;
+    const today: Partial<DailyWeather> = obs.daily[0] || {};
+    return {
+      stationId: obs.station.id,
+      source,
+      time: time.toISOString(),
+      date: historyUtils.localDate(time),
+      temp: obs.temp,
+      wind: obs.wind,
+      gust: today.gustMax ?? null,
+      snowfall: today.snowfall ?? null,
+      precipitation: today.precipitation ?? null,
+      snowDepth: obs.snowDepth ?? null,
+      alerts: alerts
+        .filter((a) => a.segment.stationId === obs.station.id && roadStatusUtils.isActive(a, now))
+        .map((a) => a.ruleId)
+    };
+  }),
+
+  // Folds a fetch row, archive row or day into `day`. Sums are the day's totals
+  // as reported, so repeated fetches keep the largest instead of adding up.
+  // Measured values win over forecasts: rows of the day's own source are
+  // folded together, an observed row replaces the forecast values it has
+  // and a forecast row only fills values an observed day is missing.
+  mergeDay: (day: HistoryDay | undefined, row: HistoryInput): HistoryDay => {
+    const d: Partial<HistoryDay> = day || {};
+    const source = row.source === 'forecast' ? 'forecast' : 'observed';
+    const current = day ? (d.source === 'forecast' ? 'forecast' : 'observed') : source;
+    const pick = (fn: (a: number, b: number) => number, a: HistoryValue, b: HistoryValue) => {
+      if (a === null || a === undefined) return b ?? null;
+      if (b === null || b === undefined) return a;
+      if (source === current) return fn(a, b);
+      return source === 'observed' ? b : a;
+    };
+    return {
+      stationId: row.stationId,
+      date: row.date,
+      source: source === 'observed' || current === 'observed' ? 'observed' : 'forecast',
+      tempMin: pick(Math.min, d.tempMin, row.tempMin ?? row.temp),
+      tempMax: pick(Math.max, d.tempMax, row.tempMax ?? row.temp),
+      windMax: pick(Math.max, d.windMax, row.windMax ?? row.wind),
+      gustMax: pick(Math.max, d.gustMax, row.gustMax ?? row.gust),
+      snowfall: pick(Math.max, d.snowfall, row.snowfall),
+      precipitation: pick(Math.max, d.precipitation, row.precipitation),
+      snowDepth: pick(Math.max, d.snowDepth, row.snowDepth),
+      alerts: [...new Set([...(d.alerts || []), ...(row.alerts || [])])],
+      samples: (d.samples || 0) + (row.samples || 1)
+    };
+  },
+
+  // Rows are merged in memory first: queued reads in one transaction would
+  // otherwise all see the stored day and the later puts overwrite each other
+  putDays: (tx: IDBTransaction, rows: HistoryInput[]) => {
+    const merged: Record<string, HistoryDay> = {};
+    rows.forEach((row) => {
+      const key = `${row.stationId}|${row.date}`;
+      merged[key] = historyUtils.mergeDay(merged[key], row);
+    });
+    const store = tx.objectStore('days');
+    Object.values(merged).forEach((row) => {
+      const get = store.get([row.stationId, row.date]);
+      get.onsuccess = () => store.put(get.result ? historyUtils.mergeDay(get.result, row) : row);
+    });
+  },
+
+  record: async (stationWeather: StationWeather[], alerts: RoadAlert[], source: string) => {
+    const rows = historyUtils.fromStationWeather(stationWeather, alerts, source);
+    const db = await historyUtils.open();
+    const tx = db.transaction(['fetches', 'days'], 'readwrite');
+    rows.forEach((row) => tx.objectStore('fetches').put(row));
+    historyUtils.putDays(tx, rows);
+    return idbDone(tx);
+  },
+
+  importDays: async (rows: HistoryInput[]) => {
+    const db = await historyUtils.open();
+    const tx = db.transaction('days', 'readwrite');
+    historyUtils.putDays(tx, rows);
+    return idbDone(tx);
+  },
+
+  loadDays: async () => {
+    const db = await historyUtils.open();
+    return new Promise<HistoryDay[]>((resolve, reject) => {
+      const request = db.transaction('days').objectStore('days').index('date').getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  clear: async () => {
+    const db = await historyUtils.open();
+    const tx = db.transaction(['fetches', 'days'], 'readwrite');
+    tx.objectStore('fetches').clear();
+    tx.objectStore('days').clear();
+    return idbDone(tx);
+  },
+
+  // Archive rows from CSV (comma or semicolon separated, header row) or JSON
+  // (an array of rows). Columns: station (id or name), date (YYYY-MM-DD or ISO
+  // time) and any of temp, tempMin, tempMax, wind, gust, snowfall,
+  // precipitation, snowDepth, alerts (rule ids separated by "|").
+  // Returns { rows, errors } with one message per rejected row.
+  parseArchive: (text: string, filename = '') => {
+    const numeric = ['temp', 'tempMin', 'tempMax', 'wind', 'gust', 'snowfall', 'precipitation', 'snowDepth'] as const;
+    const stations = CONFIG.weather.stations;
+    let records: Record<string, unknown>[];
+    if (/\.json$/i.test(filename) || /^\s*[[{]/.test(text)) {
+      const data = JSON.parse(text);
+      records = Array.isArray(data) ? data : data.records || data.days;
+      if (!Array.isArray(records)) throw new Error('JSON archive must be an array of rows');
+    } else {
+      const lines = text.split(/\r?\n/).filter((line) => line.trim());
+      const sep = (lines[0] || '').includes(';') ? ';' : ',';
+      const header = (lines[0] || '').split(sep).map((h) => h.trim());
+      records = lines.slice(1).map((line) => Object.fromEntries(
+        line.split(sep).map((value, i) => [header[i], value.trim()])
+      ));
+    }
+
+    const rows: HistoryInput[] = [];
+    const errors: string[] = [];
+    records.forEach((record, i) => {
+      const where = `Row ${i + 1}`;
+      const key = String(record.station ?? record.stationId ?? '').trim();
+      const station = stations.find((s) => s.id === key || s.name.toLowerCase() === key.toLowerCase());
+      if (!station) {
+        errors.push(`${where}: unknown station "${key}"`);
+        return;
+      }
+      const when = String(record.date ?? record.time ?? '');
+      const date = /^\d{4}-\d{2}-\d{2}$/.test(when) ? when
+        : !Number.isNaN(Date.parse(when)) ? historyUtils.localDate(new Date(when)) : null;
+      if (!date) {
+        errors.push(`${where}: invalid date "${when}"`);
+        return;
+      }
+      const row: HistoryInput = { stationId: station.id, date, alerts: [] };
+      for (const field of numeric) {
+        const raw = record[field];
+        if (raw === undefined || raw === null || raw === '') {
+          row[field] = null;
+          continue;
+        }
+        const value = typeof raw === 'number' ? raw : Number(String(raw).replace(',', '.'));
+        if (!Number.isFinite(value)) {
+          errors.push(`${where}: ${field} "${raw}" is not a number`);
+          return;
+        }
+        row[field] = value;
+      }
+      if (record.alerts) {
+        row.alerts = Array.isArray(record.alerts) ? record.alerts : String(record.alerts).split('|').filter(Boolean);
+      }
+      rows.push(row);
+    });
+    return { rows, errors };
+  },
+
+  // Season start year for a YYYY-MM-DD date
+  seasonOf: (date: string) => {
+    const year = Number(date.slice(0, 4));
+    return Number(date.slice(5, 7)) >= CONFIG.history.seasonStartMonth ? year : year - 1;
+  },
+
+  seasonLabel: (season: number) => `${season}/${String(season + 1).slice(2)}`,
+
+  seasons: (days: HistoryDay[]) => [...new Set<number>(days.map((d) => historyUtils.seasonOf(d.date)))].sort((a, b) => b - a),
+
+  // Statistics for one station's days in one season, sorted by date
+  summarize: (days: HistoryDay[]) => {
+    const { snowDay } = CONFIG.history;
+    const isSnowDay = (d: HistoryDay) => d.snowfall !== null && d.snowfall >= snowDay;
+    const lastDate = (test: (d: HistoryDay) => boolean) => {
+      const hits = days.filter(test);
+      return hits.length ? hits[hits.length - 1].date : null;
+    };
+    return {
+      days: days.length,
+      frostDays: days.filter((d) => d.tempMin !== null && d.tempMin < 0).length,
+      iceDays: days.filter((d) => d.tempMax !== null && d.tempMax < 0).length,
+      snowfall: days.reduce((sum, d) => sum + (d.snowfall || 0), 0),
+      snowDays: days.filter(isSnowDay).length,
+      alertDays: days.filter((d) => d.alerts.length > 0).length,
+      lastSnowDay: lastDate(isSnowDay),
+      lastFrostDay: lastDate((d) => d.tempMin !== null && d.tempMin < 0)
+    };
+  }
+};
@@ -0,0 +1,253 @@
+import type { FeatureCollection } from 'geojson';
+import { CONFIG, HAND_CLASSES, RUNOFF_RISK_LEVELS, D8_OFFSETS } from './config';
+import { crsUtils } from './crs';
+import { RoadFeature, geoUtils, roadUtils } from './utils';
+import { Raster, rasterUtils } from './raster';
+import { DailyWeather, StationWeather } from './weather';
+
+// ============================================================================
+// HYDROLOGY
+// ============================================================================
+
+// A road/stream crossing from runoffUtils.findCrossings, at the centre of its
+// highest-accumulation cell
+export interface Crossing {
+  index: number; // cell on the accumulation grid
+  accumulation: number;
+  lat: number;
+  lon: number;
+  road: string;
+}
+
+export interface AssessedCrossing extends Crossing {
+  id: string;
+  areaKm2: number;
+  station: string | null; // nearest weather station
+  date: string | null; // wettest forecast day
+  waterInput: number; // mm on that day
+  volume: number; // m³ per day
+  risk: (typeof RUNOFF_RISK_LEVELS)[number];
+}
+
+export interface Watersheds {
+  geojson: FeatureCollection; // polygons with an areaKm2 property
+  count: number;
+  totalKm2: number;
+  largestKm2: number;
+}
+
+// The hydrology layers as they load; errors holds the message of each failed layer
+export interface HydrologyData {
+  streams?: FeatureCollection;
+  watersheds?: Watersheds;
+  hand?: Raster;
+  d8?: Raster;
+  accumulation?: Raster;
+  errors: Record<string, string>;
+}
+
+// Overlays toggled in the hydrology panel
+export interface HydroLayers {
+  streams: boolean;
+  watersheds: boolean;
+  hand: boolean;
+}
+
+export interface CatchmentArea {
+  mask: Uint8Array; // 0/1 on the D8 grid
+  cells: number;
+  areaKm2: number;
+}
+
+export interface Catchment extends CatchmentArea {
+  outlet: { lat: number; lon: number };
+}
+
+export const hydrologyUtils = {
+  loadVectors: async (url: string) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Hydrology vectors request failed: ${response.status} ${url}`);
+    return crsUtils.reprojectGeoJSON(await response.json());
+  },
+
+  loadGrid: (url: string) => rasterUtils.loadRaster(url, { maxSize: CONFIG.hydrology.maxGridSize, native: true }),
+
+  // NaN (nodata) falls in the last class
+  handClass: (value: number) => HAND_CLASSES.find((c) => value <= c.max) ?? HAND_CLASSES[HAND_CLASSES.length - 1],
+
+  handColor: (value: number) => {
+    const hex = hydrologyUtils.handClass(value).color;
+    return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  },
+
+  // Adds area statistics to every watershed polygon
+  summarizeWatersheds: (geojson: FeatureCollection): Watersheds => {
+    const features = geojson.features.map((f) => ({
+      ...f,
+      properties: { ...f.properties, areaKm2: crsUtils.getAreaKm2({ type: 'FeatureCollection', features: [f] }) }
+    }));
+    const areas = features.map((f) => f.properties.areaKm2);
+    return {
+      geojson: { ...geojson, features },
+      count: features.length,
+      totalKm2: areas.reduce((a, b) => a + b, 0),
+      largestKm2: areas.length ? Math.max(...areas) : 0
+    };
+  },
+
+  cellIndexAt: (grid: Raster, lat: number, lon: number) => {
+    const [x, y] = crsUtils.fromWgs84(grid.epsg, [lon, lat]);
+    const [px, py] = rasterUtils.toPixel(grid, x, y).map(Math.floor);
+    if (px < 0 || py < 0 || px >= grid.width || py >= grid.height) return -1;
+    return py * grid.width + px;
+  },
+
+  cellCenter: (grid: Raster, index: number) => {
+    const px = index % grid.width;
+    const py = Math.floor(index / grid.width);
+    const x = grid.bbox[0] + (px + 0.5) * grid.resX;
+    const y = grid.bbox[3] - (py + 0.5) * grid.resY;
+    const [lon, lat] = crsUtils.toWgs84(grid.epsg, [x, y]);
+    return { lat, lon };
+  },
+
+  // Moves a pour point to the highest-accumulation cell nearby, like whitebox snap_pour_points
+  snapPourPoint: (accumulation: Raster, index: number, radius = CONFIG.hydrology.snapRadius) => {
+    const { width, height, data } = accumulation;
+    const cx = index % width;
+    const cy = Math.floor(index / width);
+    let best = index;
+    for (let y = Math.max(0, cy - radius); y <= Math.min(height - 1, cy + radius); y++) {
+      for (let x = Math.max(0, cx - radius); x <= Math.min(width - 1, cx + radius); x++) {
+        const i = y * width + x;
+        if (data[i] > data[best] || Number.isNaN(data[best])) best = i;
+      }
+    }
+    return best;
+  },
+
+  // Upstream catchment of one cell: breadth-first search over neighbours whose
+  // D8 pointer drains into the current cell. Returns a 0/1 mask on the D8 grid.
+  delineateCatchment: (d8: Raster, outlet: number): CatchmentArea => {
+    const { width, height, data } = d8;
+    const mask = new Uint8Array(width * height);
+    const queue = [outlet];
+    mask[outlet] = 1;
+    let cells = 0;
+
+    while (queue.length) {
+      const index = queue.pop()!;
+      cells++;
+      const x = index % width;
+      const y = Math.floor(index / width);
+      Object.values(D8_OFFSETS).forEach(([dx, dy]) => {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) return;
+        const n = ny * width + nx;
+        const offset = D8_OFFSETS[data[n]];
+        if (!mask[n] && offset && offset[0] === -dx && offset[1] === -dy) {
+          mask[n] = 1;
+          queue.push(n);
+        }
+      });
+    }
+
+    const [cellX, cellY] = rasterUtils.cellSize(d8);
+    return { mask, cells, areaKm2: (cells * cellX * cellY) / 1e6 };
+  },
+
+  catchmentAt: (d8: Raster, accumulation: Raster | null | undefined, lat: number, lon: number): Catchment | null => {
+    const clicked = hydrologyUtils.cellIndexAt(d8, lat, lon);
+    if (clicked < 0) return null;
+    // Both grids come from the same filled DEM, so their indices line up
+    const sameGrid = accumulation && accumulation.width === d8.width && accumulation.height === d8.height;
+    const outlet = accumulation && sameGrid ? hydrologyUtils.snapPourPoint(accumulation, clicked) : clicked;
+    return { outlet: hydrologyUtils.cellCenter(d8, outlet), ...hydrologyUtils.delineateCatchment(d8, outlet) };
+  }
+};
+
+// Road/stream crossings (culverts, fords, bridges) scored by forecast runoff
+export const runoffUtils = {
+  // Walks every road line at half-cell spacing and records where it passes
+  // over stream cells; each crossing keeps the highest-accumulation cell.
+  findCrossings: (roadFeatures: RoadFeature[], accumulation: Raster, threshold = CONFIG.runoff.accumulationThreshold) => {
+    const spacing = Math.min(...rasterUtils.cellSize(accumulation)) / 2;
+    const byCell: Record<number, Crossing> = {};
+
+    roadFeatures.forEach((feature) => {
+      geoUtils.lines(feature.geometry).forEach((line) => {
+        let run: Crossing | null = null;
+        const flush = () => {
+          if (run && (!byCell[run.index] || byCell[run.index].accumulation < run.accumulation)) byCell[run.index] = run;
+          run = null;
+        };
+        geoUtils.densify(line, spacing).forEach(({ lon, lat }) => {
+          const index = hydrologyUtils.cellIndexAt(accumulation, lat, lon);
+          const value = index >= 0 ? accumulation.data[index] : NaN;
+          if (!(value >= threshold)) {
+            flush();
+            return;
+          }
+          if (!run || value > run.accumulation) {
+            run = {
+              index,
+              accumulation: value,
+              ...hydrologyUtils.cellCenter(accumulation, index),
+              road: roadUtils.firstValue(feature.properties.name) || roadUtils.getHighwayClass(feature.properties)
+            };
+          }
+        });
+        flush();
+      });
+    });
+
+    return Object.values(byCell);
+  },
+
+  // Daily water input (mm) from rain plus degree-day snowmelt. The snowpack
+  // (SWE, mm) is carried from day to day, so melt never exceeds the snow on
+  // the ground and a warm day without snow adds nothing.
+  waterInputs: (days: DailyWeather[], initialSwe = 0) => {
+    const { snowWaterRatio, degreeDayFactor } = CONFIG.runoff;
+    let swe = initialSwe;
+    return days.map((day) => {
+      const snow = (day.snowfall || 0) * snowWaterRatio;
+      const rain = Math.max(0, (day.precipitation || 0) - snow);
+      const meanTemp = day.tempMax !== null && day.tempMin !== null ? (day.tempMax + day.tempMin) / 2 : 0;
+      swe += snow;
+      const melt = Math.min(swe, degreeDayFactor * Math.max(0, meanTemp));
+      swe -= melt;
+      return rain + melt;
+    });
+  },
+
+  // Snow already on the ground at a station, as SWE (mm)
+  initialSwe: (obs: { snowDepth?: number | null }) => (obs.snowDepth ?? 0) * CONFIG.runoff.snowpackDensity,
+
+  riskLevel: (volume: number) => RUNOFF_RISK_LEVELS.find((l) => volume <= l.max) ?? RUNOFF_RISK_LEVELS[RUNOFF_RISK_LEVELS.length - 1],
+
+  // Upstream area from the D8 grid and the wettest forecast day at the nearest
+  // weather station give a daily runoff volume per crossing.
+  assessCrossings: (crossings: Crossing[], d8: Raster, stationWeather: StationWeather[]): AssessedCrossing[] => crossings.map((crossing, i) => {
+    const outlet = hydrologyUtils.cellIndexAt(d8, crossing.lat, crossing.lon);
+    const { areaKm2 } = outlet >= 0 ? hydrologyUtils.delineateCatchment(d8, outlet) : { areaKm2: 0 };
+    const nearest = geoUtils.nearest([crossing.lon, crossing.lat], stationWeather, (o) => [o.station.lon, o.station.lat]);
+    const days = nearest ? nearest.item.daily.slice(0, CONFIG.runoff.forecastDays) : [];
+    const inputs = nearest ? runoffUtils.waterInputs(days, runoffUtils.initialSwe(nearest.item)) : [];
+    const wettest = inputs.reduce((best: number, input, d) => (best < 0 || input > inputs[best] ? d : best), -1);
+    const waterInput = wettest >= 0 ? inputs[wettest] : 0;
+    const volume = (waterInput / 1000) * areaKm2 * 1e6 * CONFIG.runoff.runoffCoefficient;
+
+    return {
+      ...crossing,
+      id: `crossing-${i + 1}`,
+      areaKm2,
+      station: nearest ? nearest.item.station.name : null,
+      date: wettest >= 0 ? days[wettest].date : null,
+      waterInput,
+      volume,
+      risk: runoffUtils.riskLevel(volume)
+    };
+  }).sort((a, b) => b.volume - a.volume)
+};
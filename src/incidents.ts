@@ -0,0 +1,332 @@
+import type { FeatureCollection, LineString, Point, Polygon, Position } from 'geojson';
+import { CONFIG, ALERT_SEVERITIES, INCIDENT_CATEGORIES } from './config';
+import { DEG } from './crs';
+import { RoadFeature, geoUtils, roadUtils } from './utils';
+import { idbDone } from './history';
+
+// ============================================================================
+// INCIDENTS
+// ============================================================================
+
+// Operator reports (rockfall, damaged guardrails, drifts, ...) with GeoJSON
+// geometry. They live in IndexedDB and, with a sync adapter, on a server;
+// deletions stay as tombstones until the server has them.
+export type IncidentGeometry = Point | LineString | Polygon; // [lon, lat]
+
+export interface Incident {
+  id: string;
+  geometry: IncidentGeometry;
+  category: string; // key of INCIDENT_CATEGORIES
+  severity: string; // key of ALERT_SEVERITIES
+  status: string; // 'open' | 'resolved'
+  notes: string;
+  photos: string[]; // JPEG data URLs, at most CONFIG.incidents.photoSize px
+  createdAt: string;
+  updatedAt: string; // the later edit wins when syncing
+  deleted?: boolean;
+  synced?: boolean; // false while local changes are not on the server
+  syncedAt?: string; // server time the incident was last stored, set by the server
+}
+
+// A report being placed or edited; edits carry the stored incident's fields too
+export type IncidentDraft = Pick<Incident, 'geometry' | 'category' | 'severity' | 'status' | 'notes' | 'photos'> & Partial<Incident>;
+
+// An open incident matched to a road by incidentUtils.nearRoads
+export interface RoadIncident extends Incident {
+  road: string; // name of the nearest road
+  distance: number; // m
+}
+
+// Which incidents are listed and drawn
+export interface IncidentFilter {
+  category: string; // key of INCIDENT_CATEGORIES or 'all'
+  severity: string; // lowest severity shown
+  resolved: boolean; // resolved incidents are shown too
+}
+
+export interface IncidentSyncState {
+  status: string; // 'idle' | 'syncing' | 'error'
+  at: number | null; // last successful sync (ms)
+  error: string | null;
+}
+
+export interface IncidentSyncAdapter {
+  id: string;
+  label: string;
+  push(incidents: Incident[]): Promise<void>;
+  // Records stored on the server after `since` (a previous syncedAt), all when
+  // null; unchecked until incidentUtils.normalize
+  pull(since: string | null): Promise<unknown[]>;
+}
+
+// One resource per incident: GET <url>?since=<syncedAt>, PUT <url>/<id>
+const restSyncAdapter = (url: string): IncidentSyncAdapter => ({
+  id: 'rest',
+  label: 'REST',
+  push: async (incidents) => {
+    await Promise.all(incidents.map(async (incident) => {
+      const { synced, ...body } = incident;
+      const response = await fetch(`${url}/${encodeURIComponent(incident.id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      if (!response.ok) throw new Error(`Incident upload failed: ${response.status} ${url}`);
+    }));
+  },
+  pull: async (since) => {
+    const response = await fetch(since ? `${url}?since=${encodeURIComponent(since)}` : url);
+    if (!response.ok) throw new Error(`Incident download failed: ${response.status} ${url}`);
+    const incidents: unknown = await response.json();
+    if (!Array.isArray(incidents)) throw new Error('Incident download: expected an array');
+    return incidents;
+  }
+});
+
+export const INCIDENT_SYNC_ADAPTERS: Record<string, IncidentSyncAdapter | null> = {
+  none: null,
+  rest: restSyncAdapter(CONFIG.incidents.syncUrl)
+};
+
+let incidentDbPromise: Promise<IDBDatabase> | null = null;
+
+const hasKey = (table: object, key: unknown): key is string =>
+  typeof key === 'string' && Object.prototype.hasOwnProperty.call(table, key);
+
+const isIncident = (incident: Incident | null): incident is Incident => incident !== null;
+
+export const incidentUtils = {
+  open: (): Promise<IDBDatabase> => {
+    if (!incidentDbPromise) {
+      incidentDbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+          reject(new Error('IndexedDB is not available in this browser'));
+          return;
+        }
+        const request = indexedDB.open(CONFIG.incidents.dbName, 1);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          db.createObjectStore('incidents', { keyPath: 'id' });
+          db.createObjectStore('meta', { keyPath: 'key' });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return incidentDbPromise;
+  },
+
+  create: (geometry: IncidentGeometry, fields: Partial<Incident>): Incident => {
+    const now = new Date().toISOString();
+    return {
+      id: crypto.randomUUID(),
+      geometry,
+      category: 'other',
+      severity: 'warning',
+      status: 'open',
+      notes: '',
+      photos: [],
+      ...fields,
+      createdAt: now,
+      updatedAt: now,
+      synced: false
+    };
+  },
+
+  // Records from the server or an older version of the app: unknown categories
+  // become 'other' and unknown severities 'warning'; records without an id or a
+  // usable geometry are dropped (null)
+  normalize: (input: unknown): Incident | null => {
+    const record = input as { [K in keyof Incident]?: unknown } | null;
+    const geometry = record && (record.geometry as { type?: unknown; coordinates?: unknown } | null);
+    if (!record || typeof record.id !== 'string' || !geometry ||
+      !['Point', 'LineString', 'Polygon'].includes(geometry.type as string) ||
+      !Array.isArray(geometry.coordinates)) return null;
+    const updatedAt = typeof record.updatedAt === 'string' ? record.updatedAt : '';
+    return {
+      ...(record as Incident),
+      category: hasKey(INCIDENT_CATEGORIES, record.category) ? record.category : 'other',
+      severity: hasKey(ALERT_SEVERITIES, record.severity) ? record.severity : 'warning',
+      status: record.status === 'resolved' ? 'resolved' : 'open',
+      notes: typeof record.notes === 'string' ? record.notes : '',
+      photos: Array.isArray(record.photos) ? record.photos.filter(incidentUtils.isPhotoUrl) : [],
+      createdAt: typeof record.createdAt === 'string' ? record.createdAt : updatedAt,
+      updatedAt
+    };
+  },
+
+  // Lookups that fall back like normalize for records that bypassed it
+  category: (key: unknown) => (hasKey(INCIDENT_CATEGORIES, key) ? INCIDENT_CATEGORIES[key] : INCIDENT_CATEGORIES.other),
+  severity: (key: unknown) => (hasKey(ALERT_SEVERITIES, key) ? ALERT_SEVERITIES[key] : ALERT_SEVERITIES.warning),
+
+  // Includes tombstones, which the UI filters out
+  loadAll: async (): Promise<Incident[]> => {
+    const db = await incidentUtils.open();
+    const request = db.transaction('incidents').objectStore('incidents').getAll();
+    const records = await new Promise<unknown[]>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return records.map(incidentUtils.normalize).filter(isIncident);
+  },
+
+  save: async (incident: Incident) => {
+    const db = await incidentUtils.open();
+    const tx = db.transaction('incidents', 'readwrite');
+    tx.objectStore('incidents').put({ ...incident, updatedAt: new Date().toISOString(), synced: false });
+    await idbDone(tx);
+  },
+
+  // Without sync the record goes at once, otherwise it stays as a tombstone
+  // until the next sync
+  remove: async (incident: Incident, keepTombstone: boolean) => {
+    const db = await incidentUtils.open();
+    const tx = db.transaction('incidents', 'readwrite');
+    if (keepTombstone) {
+      tx.objectStore('incidents').put({
+        ...incident, deleted: true, photos: [], updatedAt: new Date().toISOString(), synced: false
+      });
+    } else {
+      tx.objectStore('incidents').delete(incident.id);
+    }
+    await idbDone(tx);
+  },
+
+  // Pushes local changes, then pulls what changed on the server since the last
+  // sync. A record edited locally while the sync was in flight keeps the edit.
+  sync: async (adapter: IncidentSyncAdapter) => {
+    const db = await incidentUtils.open();
+    const local = await incidentUtils.loadAll();
+    const pending = local.filter((i) => !i.synced);
+    if (pending.length) await adapter.push(pending);
+
+    const since = await new Promise<string | null>((resolve, reject) => {
+      const request = db.transaction('meta').objectStore('meta').get('lastSync');
+      request.onsuccess = () => resolve(request.result ? request.result.value : null);
+      request.onerror = () => reject(request.error);
+    });
+    const pulled = await adapter.pull(since);
+    const remote = pulled.map(incidentUtils.normalize).filter(isIncident);
+
+    const tx = db.transaction(['incidents', 'meta'], 'readwrite');
+    const store = tx.objectStore('incidents');
+    [...pending, ...remote].forEach((incident) => {
+      const request = store.get(incident.id);
+      request.onsuccess = () => {
+        const current = request.result;
+        if (current && current.updatedAt > incident.updatedAt) return;
+        if (incident.deleted) store.delete(incident.id);
+        else store.put({ ...incident, synced: true });
+      };
+    });
+    const latest = pulled.reduce<string>((max, record) => {
+      const syncedAt = record && (record as { syncedAt?: unknown }).syncedAt;
+      return typeof syncedAt === 'string' && syncedAt > max ? syncedAt : max;
+    }, since || '');
+    if (latest) tx.objectStore('meta').put({ key: 'lastSync', value: latest });
+    await idbDone(tx);
+    return { pushed: pending.length, pulled: remote.length };
+  },
+
+  // Photos are downscaled to JPEG so a few per incident fit in IndexedDB
+  readPhoto: async (file: Blob) => {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, CONFIG.incidents.photoSize / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')!.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.8);
+  },
+
+  matchesFilter: (incident: Incident, filter: IncidentFilter) =>
+    (filter.category === 'all' || incident.category === filter.category) &&
+    incidentUtils.severity(incident.severity).rank >= incidentUtils.severity(filter.severity).rank &&
+    (filter.resolved || incident.status === 'open'),
+
+  positions: (geometry: IncidentGeometry): Position[] => {
+    if (geometry.type === 'Point') return [geometry.coordinates];
+    return geometry.type === 'Polygon' ? geometry.coordinates[0] : geometry.coordinates;
+  },
+
+  // Shortest distance in metres from an incident vertex to a [lon, lat] line,
+  // in a local equirectangular frame (fine over a few hundred metres)
+  distanceToLine: (geometry: IncidentGeometry, line: Position[]) => {
+    const positions = incidentUtils.positions(geometry);
+    const kx = 111320 * Math.cos(positions[0][1] * DEG);
+    const ky = 110574;
+    let best = Infinity;
+    positions.forEach(([px, py]) => {
+      line.forEach((b, i) => {
+        if (i === 0) return;
+        const a = line[i - 1];
+        const ax = (a[0] - px) * kx;
+        const ay = (a[1] - py) * ky;
+        const dx = (b[0] - a[0]) * kx;
+        const dy = (b[1] - a[1]) * ky;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+        best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+      });
+    });
+    return best;
+  },
+
+  // Open incidents within CONFIG.incidents.roadDistance of a road, with the
+  // name of the nearest one
+  nearRoads: (incidents: Incident[], features: RoadFeature[]): RoadIncident[] => incidents
+    .filter((incident) => incident.status === 'open')
+    .map((incident): RoadIncident | null => {
+      const nearest = features.reduce<{ feature: RoadFeature; distance: number } | null>((best, feature) => {
+        const distance = Math.min(...geoUtils.lines(feature.geometry)
+          .map((line) => incidentUtils.distanceToLine(incident.geometry, line)));
+        return !best || distance < best.distance ? { feature, distance } : best;
+      }, null);
+      return nearest && nearest.distance <= CONFIG.incidents.roadDistance
+        ? { ...incident, road: roadUtils.firstValue(nearest.feature.properties.name) || 'Unnamed road', distance: nearest.distance }
+        : null;
+    })
+    .filter((incident): incident is RoadIncident => incident !== null)
+    .sort((a, b) => incidentUtils.severity(b.severity).rank - incidentUtils.severity(a.severity).rank),
+
+  // Photos are left out of the export; it carries their count
+  toGeoJSON: (incidents: Incident[]): FeatureCollection<IncidentGeometry> => ({
+    type: 'FeatureCollection',
+    features: incidents.map(({ geometry, photos, synced, deleted, ...properties }) => ({
+      type: 'Feature',
+      geometry,
+      properties: {
+        ...properties,
+        categoryLabel: incidentUtils.category(properties.category).label,
+        photoCount: photos.length
+      }
+    }))
+  }),
+
+  // Only the JPEG data URLs readPhoto produces are shown; anything else in a
+  // synced record is dropped
+  isPhotoUrl: (src: unknown): src is string => typeof src === 'string' && /^data:image\/jpeg;base64,[A-Za-z0-9+/=]+$/.test(src),
+
+  // Built from DOM nodes so notes and photo URLs from other clients can't inject markup
+  getPopupContent: (incident: Incident) => {
+    const content = document.createElement('div');
+    const title = document.createElement('strong');
+    title.textContent = incidentUtils.category(incident.category).label;
+    content.append(
+      title,
+      ` · ${incidentUtils.severity(incident.severity).label}${incident.status === 'resolved' ? ' (resolved)' : ''}`,
+      document.createElement('br'),
+      `Reported ${new Date(incident.createdAt).toLocaleString()}`
+    );
+    if (incident.notes) content.append(document.createElement('br'), incident.notes);
+    incident.photos.filter(incidentUtils.isPhotoUrl).forEach((src) => {
+      const img = document.createElement('img');
+      img.src = src;
+      img.style.maxWidth = '200px';
+      img.style.marginTop = '4px';
+      content.append(document.createElement('br'), img);
+    });
+    return content;
+  }
+};
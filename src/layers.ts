@@ -0,0 +1,53 @@
+import type { Layer, Map as LeafletMap } from 'leaflet';
+
+// ============================================================================
+// MAP LAYERS
+// ============================================================================
+
+// Named Leaflet layers of the main map. Setting a key replaces the layer held
+// under it, so an effect only has to say what it shows now; hidden layers stay
+// registered until they are removed. `get` takes the layer type the caller
+// stored under the key.
+export interface LayerRegistry {
+  attach(map: LeafletMap | null): void;
+  get<T extends Layer = Layer>(key: string): T | null;
+  set<T extends Layer>(key: string, layer: T, visible?: boolean): T;
+  show(key: string, visible: boolean): void;
+  remove(key: string): void;
+  clear(): void;
+}
+
+export const createLayerRegistry = (): LayerRegistry => {
+  let map: LeafletMap | null = null;
+  const layers: Record<string, Layer> = {};
+
+  const registry: LayerRegistry = {
+    attach: (target) => {
+      map = target;
+    },
+
+    get: <T extends Layer>(key: string) => (layers[key] as T | undefined) || null,
+
+    set: (key, layer, visible = true) => {
+      registry.remove(key);
+      layers[key] = layer;
+      registry.show(key, visible);
+      return layer;
+    },
+
+    show: (key, visible) => {
+      const layer = layers[key];
+      if (!layer || !map) return;
+      if (visible) layer.addTo(map);
+      else map.removeLayer(layer);
+    },
+
+    remove: (key) => {
+      if (layers[key] && map) map.removeLayer(layers[key]);
+      delete layers[key];
+    },
+
+    clear: () => Object.keys(layers).forEach((key) => registry.remove(key))
+  };
+  return registry;
+};
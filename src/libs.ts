@@ -0,0 +1,95 @@
+import type { SqlJsStatic } from 'sql.js';
+import { CONFIG } from './config';
+
+// ============================================================================
+// LOAD LIBRARIES FROM CDN
+// ============================================================================
+
+// Globals set by the UMD builds in CONFIG.libs, typed in globals.d.ts
+type LibraryGlobal = 'L' | 'GeoTIFF' | 'THREE' | 'jspdf' | 'initSqlJs';
+
+const loadScript = <K extends LibraryGlobal>(src: string, globalName: K): Promise<Window[K]> => {
+  return new Promise((resolve, reject) => {
+    if (window[globalName]) {
+      resolve(window[globalName]);
+      return;
+    }
+
+    const script = document.createElement('script');
+    script.src = src;
+    script.onload = () => resolve(window[globalName]);
+    // Drop the failed tag so a retry appends a fresh one
+    script.onerror = (error) => {
+      script.remove();
+      reject(error);
+    };
+    document.head.appendChild(script);
+  });
+};
+
+export const loadLeaflet = () => {
+  if (window.L) return Promise.resolve(window.L);
+
+  // Load CSS
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = CONFIG.libs.leafletCss;
+  document.head.appendChild(link);
+
+  // Load JS
+  return loadScript(CONFIG.libs.leafletJs, 'L');
+};
+
+// Each loader caches its promise; a failed load clears it so the next call
+// retries instead of replaying the rejection (e.g. after going back online)
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+let geoTiffPromise: Promise<Window['GeoTIFF']> | null = null;
+
+let threePromise: Promise<Window['THREE']> | null = null;
+
+let jsPdfPromise: Promise<Window['jspdf']['jsPDF']> | null = null;
+
+export const loadSqlJs = () => {
+  if (!sqlJsPromise) {
+    sqlJsPromise = loadScript(CONFIG.libs.sqlJs, 'initSqlJs')
+      .then((initSqlJs) => initSqlJs({ locateFile: (file) => `${CONFIG.libs.sqlJsDist}${file}` }))
+      .catch((error) => {
+        sqlJsPromise = null;
+        throw error;
+      });
+  }
+  return sqlJsPromise;
+};
+
+export const loadGeoTiff = () => {
+  if (!geoTiffPromise) {
+    geoTiffPromise = loadScript(CONFIG.libs.geoTiff, 'GeoTIFF').catch((error) => {
+      geoTiffPromise = null;
+      throw error;
+    });
+  }
+  return geoTiffPromise;
+};
+
+export const loadThree = () => {
+  if (!threePromise) {
+    threePromise = loadScript(CONFIG.libs.three, 'THREE').catch((error) => {
+      threePromise = null;
+      throw error;
+    });
+  }
+  return threePromise;
+};
+
+export const loadJsPdf = () => {
+  if (!jsPdfPromise) {
+    jsPdfPromise = loadScript(CONFIG.libs.jsPdf, 'jspdf')
+      .then((jspdf) => jspdf.jsPDF)
+      .catch((error) => {
+        jsPdfPromise = null;
+        throw error;
+      });
+  }
+  return jsPdfPromise;
+};
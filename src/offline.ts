@@ -0,0 +1,131 @@
+import { CONFIG } from './config';
+import { DEG, LatLonBounds } from './crs';
+
+// ============================================================================
+// OFFLINE CACHE
+// ============================================================================
+
+// [url template, subdomains] of a slippy-map tile layer
+export type TileTemplate = [string, string[]];
+
+export interface OfflineProgress {
+  done: number;
+  total: number;
+  failed: number;
+}
+
+export interface CacheInfo {
+  entries: Record<string, number>; // entry count per CONFIG.offline.caches key
+  bytes: number | null; // origin storage usage, where the browser reports it
+}
+
+export const offlineUtils = {
+  register: () => {
+    if (!('serviceWorker' in navigator)) return Promise.resolve(null);
+    return navigator.serviceWorker.register(CONFIG.offline.serviceWorkerUrl)
+      .catch((error) => {
+        console.warn('Service worker registration failed:', error);
+        return null;
+      });
+  },
+
+  // Libraries and our own data files, fetched whole so range reads of the COGs
+  // can be answered from the cache
+  assetUrls: () => [
+    ...Object.entries(CONFIG.libs).filter(([key]) => key !== 'sqlJsDist').map(([, url]) => url),
+    `${CONFIG.libs.sqlJsDist}sql-wasm.wasm`,
+    window.location.href.split('#')[0],
+    CONFIG.aoi.url,
+    CONFIG.roadStatus.rulesUrl,
+    ...Object.values(CONFIG.roads.networks).map((n) => n.url),
+    CONFIG.terrain.dtmUrl,
+    CONFIG.terrain.dsmUrl,
+    CONFIG.terrain.ndsmUrl,
+    CONFIG.hydrology.streamsUrl,
+    CONFIG.hydrology.watershedsUrl,
+    CONFIG.hydrology.handUrl,
+    CONFIG.hydrology.d8Url,
+    CONFIG.hydrology.flowAccumulationUrl,
+    ...CONFIG.dod.epochs.map((e) => e.url),
+    ...(CONFIG.orthophoto.source === 'cog' ? [CONFIG.orthophoto.cogUrl] : [])
+  ],
+
+  // Slippy-map tile URLs covering [[south, west], [north, east]], with the
+  // subdomain Leaflet would pick so the cached URLs match its requests.
+  // `templates` are [url template, subdomains] pairs.
+  tileUrls: ([[south, west], [north, east]]: LatLonBounds, templates: TileTemplate[]) => {
+    const [minZoom, maxZoom] = CONFIG.offline.zooms;
+    const urls: string[] = [];
+    const tileX = (lon: number, z: number) => Math.floor(((lon + 180) / 360) * 2 ** z);
+    const tileY = (lat: number, z: number) => Math.floor(
+      ((1 - Math.log(Math.tan(lat * DEG) + 1 / Math.cos(lat * DEG)) / Math.PI) / 2) * 2 ** z
+    );
+    templates.forEach(([template, subdomains]) => {
+      for (let z = minZoom; z <= maxZoom; z++) {
+        for (let x = tileX(west, z); x <= tileX(east, z); x++) {
+          for (let y = tileY(north, z); y <= tileY(south, z); y++) {
+            urls.push(template
+              .replace('{s}', subdomains[Math.abs(x + y) % subdomains.length])
+              .replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y)));
+          }
+        }
+      }
+    });
+    return urls;
+  },
+
+  // Fills the app cache for the given bounds; onProgress gets { done, total, failed }.
+  // Third-party basemap tiles are never bulk-downloaded, only our own data: a
+  // pre-tiled orthophoto is same-origin, so it goes with the app files.
+  downloadArea: async (bounds: LatLonBounds, onProgress: (progress: OfflineProgress) => void) => {
+    const tiles = CONFIG.orthophoto.source === 'xyz'
+      ? offlineUtils.tileUrls(bounds, [[CONFIG.orthophoto.xyzUrl, ['']]])
+      : [];
+    if (tiles.length > CONFIG.offline.maxTiles) {
+      throw new Error(`${tiles.length} tiles exceed the limit of ${CONFIG.offline.maxTiles}; lower CONFIG.offline.zooms`);
+    }
+    const urls = [...offlineUtils.assetUrls(), ...tiles];
+    const progress: OfflineProgress = { done: 0, total: urls.length, failed: 0 };
+    onProgress({ ...progress });
+
+    const cache = await caches.open(CONFIG.offline.caches.app);
+    const run = async (url: string) => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`${response.status}`);
+        await cache.put(url, response);
+      } catch (error) {
+        console.warn(`Offline download failed for ${url}:`, error);
+        progress.failed++;
+      }
+      progress.done++;
+      onProgress({ ...progress });
+    };
+
+    const queue = [...urls];
+    const worker = async () => {
+      while (queue.length) await run(queue.shift()!);
+    };
+    await Promise.all(Array.from({ length: CONFIG.offline.concurrency }, worker));
+    return progress;
+  },
+
+  getCacheInfo: async (): Promise<CacheInfo | null> => {
+    if (!('caches' in window)) return null;
+    const entries = await Promise.all(Object.entries(CONFIG.offline.caches).map(async ([key, name]): Promise<[string, number]> => {
+      const keys = await (await caches.open(name)).keys();
+      return [key, keys.length];
+    }));
+    const estimate: StorageEstimate = navigator.storage && navigator.storage.estimate ? await navigator.storage.estimate() : {};
+    return { entries: Object.fromEntries(entries), bytes: estimate.usage ?? null };
+  },
+
+  clear: () => Promise.all(Object.values(CONFIG.offline.caches).map((name) => caches.delete(name)))
+};
+
+export const formatBytes = (bytes: number | null | undefined) => {
+  if (bytes === null || bytes === undefined) return '—';
+  if (bytes < 1024 ** 2) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+};
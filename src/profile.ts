@@ -0,0 +1,111 @@
+import type { FeatureCollection, LineString, Position } from 'geojson';
+import { CONFIG } from './config';
+import { LinePoint, geoUtils } from './utils';
+import { Raster, rasterUtils } from './raster';
+
+// ============================================================================
+// ELEVATION PROFILES
+// ============================================================================
+
+export interface ProfilePoint extends LinePoint {
+  elevation: number; // m, NaN outside the DTM
+  gradient: number; // % over the previous sample
+}
+
+export interface ProfileStats {
+  length: number; // m
+  minElevation: number;
+  maxElevation: number;
+  ascent: number;
+  descent: number;
+  maxGradient: number; // %, signed, over CONFIG.profile.gradientWindow
+  missing: number; // samples outside the DTM
+}
+
+export interface Profile {
+  name: string;
+  points: ProfilePoint[];
+  stats: ProfileStats;
+}
+
+export const profileUtils = {
+  // Densifies a [lon, lat] line to `spacing` metres and samples the DTM
+  computeProfile: (coordinates: Position[], dtm: Raster, spacing = CONFIG.profile.sampleSpacing) => {
+    const points: ProfilePoint[] = geoUtils.densify(coordinates, spacing).map((p) => ({
+      ...p,
+      elevation: rasterUtils.sampleBilinear(dtm, dtm.data, p.lon, p.lat),
+      gradient: 0
+    }));
+
+    points.forEach((p, i) => {
+      const prev = points[Math.max(0, i - 1)];
+      const run = p.distance - prev.distance;
+      p.gradient = run > 0 ? ((p.elevation - prev.elevation) / run) * 100 : 0;
+    });
+
+    return { points, stats: profileUtils.getStats(points) };
+  },
+
+  getStats: (points: ProfilePoint[]): ProfileStats => {
+    const valid = points.filter((p) => !Number.isNaN(p.elevation));
+    let ascent = 0;
+    let descent = 0;
+    valid.forEach((p, i) => {
+      if (i === 0) return;
+      const dz = p.elevation - valid[i - 1].elevation;
+      if (dz > 0) ascent += dz;
+      else descent -= dz;
+    });
+
+    // Max gradient over a sliding window so single noisy cells don't dominate
+    let maxGradient = 0;
+    let j = 0;
+    valid.forEach((p, i) => {
+      while (j < i && p.distance - valid[j + 1].distance >= CONFIG.profile.gradientWindow) j++;
+      const run = p.distance - valid[j].distance;
+      if (run >= CONFIG.profile.gradientWindow / 2) {
+        const gradient = ((p.elevation - valid[j].elevation) / run) * 100;
+        if (Math.abs(gradient) > Math.abs(maxGradient)) maxGradient = gradient;
+      }
+    });
+
+    const elevations = valid.map((p) => p.elevation);
+    return {
+      length: points.length ? points[points.length - 1].distance : 0,
+      minElevation: elevations.length ? Math.min(...elevations) : NaN,
+      maxElevation: elevations.length ? Math.max(...elevations) : NaN,
+      ascent,
+      descent,
+      maxGradient,
+      missing: points.length - valid.length
+    };
+  },
+
+  nearestIndex: (points: ProfilePoint[], lat: number, lon: number) => {
+    const nearest = geoUtils.nearest([lon, lat], points.map((p, i) => ({ p, i })), ({ p }) => [p.lon, p.lat]);
+    return nearest ? nearest.item.i : null;
+  },
+
+  toCsv: (profile: Profile) => [
+    'distance_m,lon,lat,elevation_m,gradient_pct',
+    ...profile.points.map((p) => [
+      p.distance.toFixed(1), p.lon.toFixed(7), p.lat.toFixed(7),
+      Number.isNaN(p.elevation) ? '' : p.elevation.toFixed(2),
+      Number.isFinite(p.gradient) ? p.gradient.toFixed(2) : ''
+    ].join(','))
+  ].join('\n'),
+
+  toGeoJSON: (profile: Profile): FeatureCollection<LineString> => ({
+    type: 'FeatureCollection',
+    features: [{
+      type: 'Feature',
+      properties: { name: profile.name, ...profile.stats },
+      geometry: {
+        type: 'LineString',
+        coordinates: profile.points
+          .filter((p) => !Number.isNaN(p.elevation))
+          .map((p) => [p.lon, p.lat, Math.round(p.elevation * 100) / 100])
+      }
+    }]
+  })
+};
@@ -0,0 +1,464 @@
+import type { Position } from 'geojson';
+import { CONFIG, ColorStop } from './config';
+import { DEG, LatLonBounds, crsUtils } from './crs';
+import { loadGeoTiff } from './libs';
+
+// ============================================================================
+// RASTERS & TERRAIN
+// ============================================================================
+
+// Grid shared by rasters and images: bbox [minX, minY, maxX, maxY] in the
+// source CRS, resX / resY in its units per cell
+export interface Grid {
+  width: number;
+  height: number;
+  bbox: number[];
+  epsg: number;
+  resX: number;
+  resY: number;
+}
+
+// Single-band raster, NaN = nodata
+export interface Raster extends Grid {
+  data: Float32Array;
+}
+
+// RGBA imagery from loadImage; `date` is YYYY-MM-DD when the TIFF has one
+export interface ImageRaster extends Grid {
+  rgba: Uint8ClampedArray;
+  date: string | null;
+}
+
+// Values derived on the grid of `raster` (object heights, elevation change, ...)
+export interface RasterValues {
+  raster: Raster;
+  values: Float32Array;
+}
+
+// The terrain rasters as they load; nDSM and DSM are optional
+export interface TerrainRasters {
+  dtm?: Raster;
+  dsm?: Raster;
+  ndsm?: Raster;
+}
+
+// Horn gradients in elevation units per metre
+export interface Gradients {
+  dzdx: Float32Array;
+  dzdy: Float32Array;
+}
+
+// The orthophoto overlay as the app loads it
+export interface Orthophoto {
+  status: string; // 'idle' | 'loading' | 'ready' | 'unavailable'
+  url: string | null;
+  bounds: LatLonBounds | null;
+  date: string | null;
+}
+
+// Output grid of buildWarp: index[i] is the source cell of output pixel i, -1 outside
+export interface Warp {
+  width: number;
+  height: number;
+  index: Int32Array;
+  bounds: LatLonBounds;
+}
+
+// Summary of the valid (non-NaN) cells
+export interface RasterStats {
+  min: number;
+  max: number;
+  mean: number;
+  count: number;
+}
+
+// Terrain values at a clicked point; NaN where a raster doesn't cover it
+export interface PointQuery {
+  lat: number;
+  lon: number;
+  local: Position; // in CONFIG.map.localCrs
+  elevation: number;
+  surface: number;
+  height: number;
+  slope: number;
+  aspect: number; // degrees, -1 on flat ground
+}
+
+// [r, g, b] for a value
+export type ColorFunction = (value: number) => number[];
+
+export const rasterUtils = {
+  // `native` reads every cell without resampling, for grids whose values must
+  // not be interpolated (e.g. D8 pointers); it refuses rasters above maxSize.
+  loadRaster: async (url: string, { maxSize = CONFIG.terrain.maxSize, native = false, band: sample = 0 } = {}): Promise<Raster> => {
+    const GeoTIFF = await loadGeoTiff();
+    const tiff = await GeoTIFF.fromUrl(url);
+    const image = await tiff.getImage();
+    const bbox = image.getBoundingBox();
+    const nodata = image.getGDALNoData();
+    const geoKeys = image.getGeoKeys() || {};
+    const longSide = Math.max(image.getWidth(), image.getHeight());
+
+    if (native && longSide > maxSize) {
+      throw new Error(`${url} is ${longSide} px wide; native reads are limited to ${maxSize} px`);
+    }
+
+    // geotiff.js picks the matching COG overview for the requested size.
+    // Nearest neighbour keeps the nodata value intact for the mask below;
+    // bilinear would blend it into the neighbouring elevations.
+    const scale = Math.min(1, maxSize / longSide);
+    const width = Math.round(image.getWidth() * scale);
+    const height = Math.round(image.getHeight() * scale);
+    const [band] = (native
+      ? await image.readRasters({ samples: [sample] })
+      : await tiff.readRasters({ width, height, samples: [sample], resampleMethod: 'nearest' })) as ArrayLike<number>[];
+
+    const data = Float32Array.from(band);
+    if (nodata !== null) {
+      for (let i = 0; i < data.length; i++) if (data[i] === nodata) data[i] = NaN;
+    }
+
+    return {
+      width,
+      height,
+      data,
+      bbox,
+      epsg: geoKeys.ProjectedCSTypeGeoKey || geoKeys.GeographicTypeGeoKey || 4326,
+      resX: (bbox[2] - bbox[0]) / width,
+      resY: (bbox[3] - bbox[1]) / height
+    };
+  },
+
+  // RGB(A) or greyscale imagery as { width, height, rgba (Uint8ClampedArray),
+  // bbox, epsg, resX, resY, date }; nodata and zero alpha become transparent.
+  // `date` is the TIFF DateTime tag as YYYY-MM-DD, if present.
+  loadImage: async (url: string, maxSize = CONFIG.terrain.maxSize): Promise<ImageRaster> => {
+    const GeoTIFF = await loadGeoTiff();
+    const tiff = await GeoTIFF.fromUrl(url);
+    const image = await tiff.getImage();
+    const bbox = image.getBoundingBox();
+    const nodata = image.getGDALNoData();
+    const geoKeys = image.getGeoKeys() || {};
+    const samples = image.getSamplesPerPixel();
+    const longSide = Math.max(image.getWidth(), image.getHeight());
+    const scale = Math.min(1, maxSize / longSide);
+    const width = Math.round(image.getWidth() * scale);
+    const height = Math.round(image.getHeight() * scale);
+    // Nearest neighbour, as in loadRaster: nodata and alpha are tested per
+    // pixel below and must not be blended into the image edge first
+    const bands = await tiff.readRasters({
+      width, height, samples: samples >= 4 ? [0, 1, 2, 3] : samples === 3 ? [0, 1, 2] : [0], resampleMethod: 'nearest'
+    }) as ArrayLike<number>[];
+
+    const [red, green = red, blue = red, alpha = null] = bands;
+    const rgba = new Uint8ClampedArray(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      const empty = (alpha && alpha[i] === 0) ||
+        (nodata !== null && red[i] === nodata && green[i] === nodata && blue[i] === nodata);
+      rgba[i * 4] = red[i];
+      rgba[i * 4 + 1] = green[i];
+      rgba[i * 4 + 2] = blue[i];
+      rgba[i * 4 + 3] = empty ? 0 : 255;
+    }
+    const stamp = image.fileDirectory.DateTime; // "YYYY:MM:DD HH:MM:SS"
+
+    return {
+      width,
+      height,
+      rgba,
+      bbox,
+      epsg: geoKeys.ProjectedCSTypeGeoKey || geoKeys.GeographicTypeGeoKey || 4326,
+      resX: (bbox[2] - bbox[0]) / width,
+      resY: (bbox[3] - bbox[1]) / height,
+      date: stamp ? String(stamp).slice(0, 10).replace(/:/g, '-') : null
+    };
+  },
+
+  // Cell size in metres (geographic rasters are converted at their centre latitude)
+  cellSize: (raster: Grid): [number, number] => {
+    if (raster.epsg !== 4326) return [raster.resX, raster.resY];
+    const lat = (raster.bbox[1] + raster.bbox[3]) / 2;
+    return [raster.resX * 111320 * Math.cos(lat * DEG), raster.resY * 110574];
+  },
+
+  // Fractional pixel position of a source-CRS coordinate
+  toPixel: (raster: Grid, x: number, y: number): [number, number] => [(x - raster.bbox[0]) / raster.resX, (raster.bbox[3] - y) / raster.resY],
+
+  // Value at a WGS84 position (nearest cell), NaN outside the raster or on nodata
+  sample: (raster: Grid, values: ArrayLike<number>, lon: number, lat: number) => {
+    const [x, y] = crsUtils.fromWgs84(raster.epsg, [lon, lat]);
+    const [px, py] = rasterUtils.toPixel(raster, x, y).map(Math.floor);
+    if (px < 0 || py < 0 || px >= raster.width || py >= raster.height) return NaN;
+    return values[py * raster.width + px];
+  },
+
+  // Bilinear interpolation between the four surrounding cell centres
+  sampleBilinear: (raster: Grid, values: ArrayLike<number>, lon: number, lat: number) => {
+    const [x, y] = crsUtils.fromWgs84(raster.epsg, [lon, lat]);
+    const [fx, fy] = rasterUtils.toPixel(raster, x, y).map((v) => v - 0.5);
+    const x0 = Math.max(0, Math.min(raster.width - 2, Math.floor(fx)));
+    const y0 = Math.max(0, Math.min(raster.height - 2, Math.floor(fy)));
+    if (fx < -0.5 || fy < -0.5 || fx > raster.width - 0.5 || fy > raster.height - 0.5) return NaN;
+    const tx = Math.min(1, Math.max(0, fx - x0));
+    const ty = Math.min(1, Math.max(0, fy - y0));
+    const v = (dx: number, dy: number) => values[(y0 + dy) * raster.width + x0 + dx];
+    return (v(0, 0) * (1 - tx) + v(1, 0) * tx) * (1 - ty) + (v(0, 1) * (1 - tx) + v(1, 1) * tx) * ty;
+  },
+
+  // Values of `source` on the grid of `target`, so rasters with different CRS,
+  // extent or resolution can be compared cell by cell
+  resampleTo: (target: Grid, source: Raster, bilinear = false) => {
+    if (source.width === target.width && source.height === target.height &&
+        source.epsg === target.epsg && source.bbox.every((v, i) => v === target.bbox[i])) {
+      return source.data;
+    }
+    const sample = bilinear ? rasterUtils.sampleBilinear : rasterUtils.sample;
+    const out = new Float32Array(target.width * target.height);
+    for (let y = 0; y < target.height; y++) {
+      for (let x = 0; x < target.width; x++) {
+        const [lon, lat] = crsUtils.toWgs84(target.epsg, [
+          target.bbox[0] + (x + 0.5) * target.resX,
+          target.bbox[3] - (y + 0.5) * target.resY
+        ]);
+        out[y * target.width + x] = sample(source, source.data, lon, lat);
+      }
+    }
+    return out;
+  },
+
+  // 1 for cells whose centre lies inside any of the WGS84 polygons (even-odd
+  // rule, so holes are excluded), 0 elsewhere
+  polygonMask: (raster: Grid, polygons: Position[][][]) => {
+    const mask = new Uint8Array(raster.width * raster.height);
+    polygons.forEach((rings) => {
+      const pixelRings = rings.map((ring) => ring.map(([lon, lat]) => {
+        const [x, y] = crsUtils.fromWgs84(raster.epsg, [lon, lat]);
+        return rasterUtils.toPixel(raster, x, y);
+      }));
+      const xs = pixelRings[0].map((p) => p[0]);
+      const ys = pixelRings[0].map((p) => p[1]);
+      const x0 = Math.max(0, Math.floor(Math.min(...xs)));
+      const x1 = Math.min(raster.width - 1, Math.ceil(Math.max(...xs)));
+      const y0 = Math.max(0, Math.floor(Math.min(...ys)));
+      const y1 = Math.min(raster.height - 1, Math.ceil(Math.max(...ys)));
+
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          const [px, py] = [x + 0.5, y + 0.5];
+          let inside = false;
+          pixelRings.forEach((ring) => {
+            for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+              const [xi, yi] = ring[i];
+              const [xj, yj] = ring[j];
+              if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+            }
+          });
+          if (inside) mask[y * raster.width + x] = 1;
+        }
+      }
+    });
+    return mask;
+  },
+
+  // Lookup table from a WGS84-aligned output grid to source cells, so Leaflet's
+  // axis-aligned imageOverlay shows the GK/LAEA raster without skew. Source
+  // positions are computed on a coarse grid and interpolated (GDAL-style
+  // approximate transformer), which is far below a pixel at AOI scale.
+  buildWarp: (raster: Grid, step = 16): Warp => {
+    const { width, height, bbox, epsg } = raster;
+    const outline: Position[] = [];
+    for (let i = 0; i <= 20; i++) {
+      const t = i / 20;
+      outline.push(
+        [bbox[0] + t * (bbox[2] - bbox[0]), bbox[1]], [bbox[0] + t * (bbox[2] - bbox[0]), bbox[3]],
+        [bbox[0], bbox[1] + t * (bbox[3] - bbox[1])], [bbox[2], bbox[1] + t * (bbox[3] - bbox[1])]
+      );
+    }
+    const corners = outline.map((c) => crsUtils.toWgs84(epsg, c));
+    const west = Math.min(...corners.map((c) => c[0]));
+    const east = Math.max(...corners.map((c) => c[0]));
+    const south = Math.min(...corners.map((c) => c[1]));
+    const north = Math.max(...corners.map((c) => c[1]));
+
+    const cols = Math.ceil(width / step) + 1;
+    const rows = Math.ceil(height / step) + 1;
+    const nodes = new Float64Array(cols * rows * 2);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const lon = west + (Math.min(c * step, width) / width) * (east - west);
+        const lat = north - (Math.min(r * step, height) / height) * (north - south);
+        const [x, y] = crsUtils.fromWgs84(epsg, [lon, lat]);
+        const [px, py] = rasterUtils.toPixel(raster, x, y);
+        nodes[(r * cols + c) * 2] = px;
+        nodes[(r * cols + c) * 2 + 1] = py;
+      }
+    }
+
+    const index = new Int32Array(width * height);
+    for (let y = 0; y < height; y++) {
+      const r = Math.floor(y / step);
+      const fy = (y - r * step) / step;
+      for (let x = 0; x < width; x++) {
+        const c = Math.floor(x / step);
+        const fx = (x - c * step) / step;
+        const at = (rr: number, cc: number, k: number) => nodes[(rr * cols + cc) * 2 + k];
+        const lerp = (k: number) =>
+          (at(r, c, k) * (1 - fx) + at(r, c + 1, k) * fx) * (1 - fy) +
+          (at(r + 1, c, k) * (1 - fx) + at(r + 1, c + 1, k) * fx) * fy;
+        const px = Math.floor(lerp(0));
+        const py = Math.floor(lerp(1));
+        index[y * width + x] = px >= 0 && py >= 0 && px < width && py < height ? py * width + px : -1;
+      }
+    }
+
+    return { width, height, index, bounds: [[south, west], [north, east]] };
+  },
+
+  applyWarp: (warp: Warp, values: ArrayLike<number>) => {
+    const out = new Float32Array(warp.index.length);
+    for (let i = 0; i < out.length; i++) out[i] = warp.index[i] >= 0 ? values[warp.index[i]] : NaN;
+    return out;
+  },
+
+  // loadImage result reprojected like the terrain overlays, as a PNG data URL
+  warpImage: (image: ImageRaster) => {
+    const warp = rasterUtils.buildWarp(image);
+    const canvas = document.createElement('canvas');
+    canvas.width = warp.width;
+    canvas.height = warp.height;
+    const ctx = canvas.getContext('2d')!;
+    const out = ctx.createImageData(warp.width, warp.height);
+    for (let i = 0; i < warp.index.length; i++) {
+      const source = warp.index[i];
+      if (source < 0) continue;
+      out.data.set(image.rgba.subarray(source * 4, source * 4 + 4), i * 4);
+    }
+    ctx.putImageData(out, 0, 0);
+    return { url: canvas.toDataURL(), bounds: warp.bounds };
+  },
+
+  getStats: (values: ArrayLike<number>): RasterStats | null => {
+    let min = Infinity;
+    let max = -Infinity;
+    let sum = 0;
+    let count = 0;
+    for (let i = 0; i < values.length; i++) {
+      const v = values[i];
+      if (Number.isNaN(v)) continue;
+      if (v < min) min = v;
+      if (v > max) max = v;
+      sum += v;
+      count++;
+    }
+    return count ? { min, max, mean: sum / count, count } : null;
+  },
+
+  colorRamp: (stops: ColorStop[]): ColorFunction => {
+    const rgb = stops.map(([v, hex]): [number, number[]] => [v, [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16))]);
+    return (value) => {
+      if (value <= rgb[0][0]) return rgb[0][1];
+      for (let i = 1; i < rgb.length; i++) {
+        if (value <= rgb[i][0]) {
+          const t = (value - rgb[i - 1][0]) / (rgb[i][0] - rgb[i - 1][0]);
+          return rgb[i][1].map((c, k) => Math.round(rgb[i - 1][1][k] + t * (c - rgb[i - 1][1][k])));
+        }
+      }
+      return rgb[rgb.length - 1][1];
+    };
+  },
+
+  // Renders values through a colour function into a PNG data URL (NaN = transparent)
+  toImageUrl: (values: ArrayLike<number>, width: number, height: number, color: ColorFunction) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(width, height);
+    for (let i = 0; i < values.length; i++) {
+      if (Number.isNaN(values[i])) continue;
+      const [r, g, b] = color(values[i]);
+      image.data.set([r, g, b, 255], i * 4);
+    }
+    ctx.putImageData(image, 0, 0);
+    return canvas.toDataURL();
+  }
+};
+
+// Horn (1981) finite differences, the same as gdaldem / ArcGIS
+export const terrainUtils = {
+  gradients: (raster: Raster): Gradients => {
+    const { width, height, data } = raster;
+    const [cellX, cellY] = rasterUtils.cellSize(raster);
+    const dzdx = new Float32Array(width * height);
+    const dzdy = new Float32Array(width * height);
+    const z = (x: number, y: number) => data[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const [a, b, c] = [z(x - 1, y - 1), z(x, y - 1), z(x + 1, y - 1)];
+        const [d, f] = [z(x - 1, y), z(x + 1, y)];
+        const [g, h, i] = [z(x - 1, y + 1), z(x, y + 1), z(x + 1, y + 1)];
+        dzdx[y * width + x] = ((c + 2 * f + i) - (a + 2 * d + g)) / (8 * cellX);
+        dzdy[y * width + x] = ((g + 2 * h + i) - (a + 2 * b + c)) / (8 * cellY);
+      }
+    }
+    return { dzdx, dzdy };
+  },
+
+  slopeAt: (dx: number, dy: number) => Math.atan(Math.hypot(dx, dy)) / DEG,
+
+  // Compass aspect in degrees (0 = north, clockwise); flat cells are -1
+  aspectAt: (dx: number, dy: number) => {
+    if (dx === 0 && dy === 0) return -1;
+    const a = Math.atan2(dy, -dx) / DEG;
+    if (a < 0) return 90 - a;
+    if (a > 90) return 450 - a;
+    return 90 - a;
+  },
+
+  slope: ({ dzdx, dzdy }: Gradients) => dzdx.map((dx, i) => terrainUtils.slopeAt(dx, dzdy[i])),
+
+  aspect: ({ dzdx, dzdy }: Gradients) => dzdx.map((dx, i) => terrainUtils.aspectAt(dx, dzdy[i])),
+
+  compassDirection: (aspect: number) =>
+    aspect < 0 ? 'flat' : ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'][Math.round(aspect / 45) % 8],
+
+  // Everything the point-query tool reports for one WGS84 position. nDSM falls
+  // back to DSM − DTM (negatives clipped, as in analysis_dtm.ipynb).
+  queryPoint: ({ dtm, dsm, ndsm }: TerrainRasters, gradients: Gradients | null | undefined, lat: number, lon: number): PointQuery => {
+    const at = (raster: Raster | null | undefined, values = raster && raster.data) =>
+      (raster && values ? rasterUtils.sample(raster, values, lon, lat) : NaN);
+    const elevation = at(dtm);
+    const surface = at(dsm);
+    let height = at(ndsm);
+    if (Number.isNaN(height) && !Number.isNaN(surface) && !Number.isNaN(elevation)) {
+      height = Math.max(0, surface - elevation);
+    }
+    const dx = gradients ? at(dtm, gradients.dzdx) : NaN;
+    const dy = gradients ? at(dtm, gradients.dzdy) : NaN;
+
+    return {
+      lat,
+      lon,
+      local: crsUtils.fromWgs84(CONFIG.map.localCrs, [lon, lat]),
+      elevation,
+      surface,
+      height,
+      slope: terrainUtils.slopeAt(dx, dy),
+      aspect: Number.isNaN(dx) ? NaN : terrainUtils.aspectAt(dx, dy)
+    };
+  },
+
+  hillshade: ({ dzdx, dzdy }: Gradients, { azimuth, altitude }: { azimuth: number; altitude: number }) => {
+    const zenith = (90 - altitude) * DEG;
+    const azimuthMath = ((450 - azimuth) % 360) * DEG;
+    return dzdx.map((dx, i) => {
+      const dy = dzdy[i];
+      const slope = Math.atan(Math.hypot(dx, dy));
+      const aspect = Math.atan2(dy, -dx);
+      const shade = Math.cos(zenith) * Math.cos(slope) +
+        Math.sin(zenith) * Math.sin(slope) * Math.cos(azimuthMath - aspect);
+      return Number.isNaN(shade) ? NaN : Math.max(0, 255 * shade);
+    });
+  }
+};
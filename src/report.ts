@@ -0,0 +1,340 @@
+import type { Map as LeafletMap } from 'leaflet';
+import { CONFIG, ALERT_SEVERITIES, BASEMAPS, ROAD_CONDITIONS, INCIDENT_CATEGORIES, TERRAIN_LAYERS, HIGHWAY_STYLES, ColorStop } from './config';
+import { DEG } from './crs';
+import { WeatherState, weatherUtils } from './weather';
+import { RoadIncident, incidentUtils } from './incidents';
+import { RoadAlert } from './roadStatus';
+import { LayerVisibility } from './viewState';
+
+// ============================================================================
+// SITUATION REPORT
+// ============================================================================
+
+// The report is the current map view (annotated with scale bar and north
+// arrow) next to "blocks" – headings, text lines and legend swatches – that
+// both the PNG and the PDF renderer lay out.
+export type ReportBlock =
+  | { type: 'heading' | 'text' | 'note'; text: string }
+  | { type: 'swatch'; text: string; color: string; line?: boolean } // line: drawn as a road stroke
+  | { type: 'ramp'; text: string; stops: ColorStop[] };
+
+// The map view drawn into a canvas; width and height in CSS pixels
+export interface RenderedMap {
+  canvas: HTMLCanvasElement;
+  ratio: number; // device pixels per CSS pixel
+  width: number;
+  height: number;
+  skipped: number; // images that could not be drawn
+}
+
+export interface SituationReport {
+  timestamp: Date;
+  weather: WeatherState;
+  alerts: RoadAlert[]; // active ones
+  incidents: RoadIncident[];
+  legend: ReportBlock[];
+}
+
+const loadImageElement = (url: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error(`Image failed to load: ${url.slice(0, 80)}`));
+  image.src = url;
+});
+
+export const reportUtils = {
+  // Web Mercator ground resolution of Leaflet's 256 px tiles
+  metersPerPixel: (lat: number, zoom: number) => (40075016.686 * Math.cos(lat * DEG)) / (256 * 2 ** zoom),
+
+  // Longest 1/2/5 × 10^n distance that fits in maxWidth pixels
+  scaleBar: (metersPerPixel: number, maxWidth = CONFIG.report.scaleBarWidth) => {
+    const maxMeters = metersPerPixel * maxWidth;
+    const magnitude = 10 ** Math.floor(Math.log10(maxMeters));
+    const meters = [5, 2, 1].map((f) => f * magnitude).find((m) => m <= maxMeters)!;
+    return { meters, width: meters / metersPerPixel, label: meters >= 1000 ? `${meters / 1000} km` : `${meters} m` };
+  },
+
+  // Draws the map panes into a canvas at their on-screen positions: tile and
+  // overlay <img>s and the SVG vector layers. Images are re-fetched with CORS
+  // so the canvas stays exportable; servers that refuse are skipped and counted.
+  renderMap: async (map: LeafletMap): Promise<RenderedMap> => {
+    const container = map.getContainer();
+    const box = container.getBoundingClientRect();
+    const ratio = window.devicePixelRatio || 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(box.width * ratio);
+    canvas.height = Math.round(box.height * ratio);
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(ratio, ratio);
+    ctx.fillStyle = '#e5e7eb';
+    ctx.fillRect(0, 0, box.width, box.height);
+
+    const opacity = (element: Element) => {
+      let value = 1;
+      for (let e: Element | null = element; e && e !== container; e = e.parentElement) value *= Number(getComputedStyle(e).opacity);
+      return value;
+    };
+    const toDrawable = async (element: HTMLImageElement | SVGSVGElement): Promise<CanvasImageSource> => {
+      if (element instanceof SVGSVGElement) {
+        // The clone is drawn at the element's on-screen box, so its own CSS
+        // transform must go
+        const clone = element.cloneNode(true) as SVGSVGElement;
+        clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+        clone.removeAttribute('style');
+        const url = URL.createObjectURL(new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml' }));
+        try {
+          return await loadImageElement(url);
+        } finally {
+          URL.revokeObjectURL(url);
+        }
+      }
+      if (/^(data|blob):/.test(element.src)) return element;
+      const response = await fetch(element.src, { mode: 'cors' });
+      if (!response.ok) throw new Error(`Map image request failed: ${response.status}`);
+      return createImageBitmap(await response.blob());
+    };
+
+    // Panes in stacking order; the swipe comparison and popups stay out
+    const panes = [...container.querySelectorAll<HTMLElement>('.leaflet-pane')]
+      .filter((pane) => !/leaflet-(map|compare|popup|tooltip|shadow)-pane/.test(pane.className))
+      .sort((a, b) => (Number(getComputedStyle(a).zIndex) || 0) - (Number(getComputedStyle(b).zIndex) || 0));
+    const elements = panes.flatMap((pane) => [...pane.querySelectorAll<HTMLImageElement | SVGSVGElement>('img, svg')]
+      .filter((element) => element.getBoundingClientRect().width > 0));
+    const drawables = await Promise.allSettled(elements.map(toDrawable));
+
+    let skipped = 0;
+    drawables.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        skipped++;
+        return;
+      }
+      const rect = elements[i].getBoundingClientRect();
+      ctx.globalAlpha = opacity(elements[i]);
+      ctx.drawImage(result.value, rect.left - box.left, rect.top - box.top, rect.width, rect.height);
+    });
+    ctx.globalAlpha = 1;
+    return { canvas, ratio, width: box.width, height: box.height, skipped };
+  },
+
+  // Scale bar bottom left and north arrow top right, in CSS pixels
+  annotateMap: ({ canvas, ratio, width, height }: RenderedMap, metersPerPixel: number) => {
+    const ctx = canvas.getContext('2d')!;
+    ctx.save();
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    const scale = reportUtils.scaleBar(metersPerPixel);
+    ctx.fillStyle = 'rgba(255,255,255,0.85)';
+    ctx.fillRect(10, height - 36, scale.width + 70, 26);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(18, height - 25, scale.width, 4);
+    ctx.font = 'bold 12px sans-serif';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(scale.label, scale.width + 26, height - 23);
+
+    const x = width - 30;
+    ctx.fillStyle = 'rgba(255,255,255,0.85)';
+    ctx.beginPath();
+    ctx.arc(x, 34, 20, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.fillStyle = '#111827';
+    ctx.beginPath();
+    ctx.moveTo(x, 20);
+    ctx.lineTo(x + 7, 40);
+    ctx.lineTo(x, 35);
+    ctx.lineTo(x - 7, 40);
+    ctx.closePath();
+    ctx.fill();
+    ctx.font = 'bold 10px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText('N', x, 47);
+    ctx.restore();
+  },
+
+  // Legend entries for the layers currently shown
+  legend: ({ layersVisible, terrainLayer, basemap }: { layersVisible: LayerVisibility; terrainLayer: string; basemap: string }): ReportBlock[] => {
+    const networks = Object.keys(CONFIG.roads.networks).filter((key) => layersVisible[key]);
+    const swatches = (entries: [string, { color: string }][]) =>
+      entries.map(([label, style]): ReportBlock => ({ type: 'swatch', text: label, color: style.color, line: true }));
+    return [
+      ...(networks.length
+        ? swatches(['primary', 'secondary', 'service', 'track', 'path', 'cycleway'].map((key): [string, { color: string }] => [`Road: ${key}`, HIGHWAY_STYLES[key]]))
+        : []),
+      ...(layersVisible.conditions ? swatches(Object.values(ROAD_CONDITIONS).map((c): [string, { color: string }] => [`Condition: ${c.label}`, c])) : []),
+      ...(layersVisible.alerts ? swatches(Object.values(ALERT_SEVERITIES).map((sev): [string, { color: string }] => [`Alert: ${sev.label}`, sev])) : []),
+      ...(layersVisible.incidents ? Object.values(INCIDENT_CATEGORIES).map((c): ReportBlock => ({ type: 'swatch', text: `Incident: ${c.label}`, color: c.color })) : []),
+      ...(terrainLayer !== 'none' ? [{ type: 'ramp' as const, text: TERRAIN_LAYERS[terrainLayer].label, stops: TERRAIN_LAYERS[terrainLayer].stops }] : []),
+      { type: 'text', text: `Basemap: ${BASEMAPS[basemap].label} (${BASEMAPS[basemap].attribution})` }
+    ];
+  },
+
+  // Weather, active alerts and road incidents
+  situationBlocks: ({ weather, alerts, incidents }: SituationReport): ReportBlock[] => {
+    const value = (v: number | null | undefined, unit: string) => (v === null || v === undefined ? '—' : `${Math.round(v * 10) / 10} ${unit}`);
+    return [
+      { type: 'heading', text: 'Weather' },
+      {
+        type: 'text',
+        text: `Now: ${value(weather.temp, '°C')}, wind ${value(weather.wind, 'km/h')}, snow today ${value(weather.snow, 'cm')}` +
+          (weather.condition !== null ? `, ${weatherUtils.getDescription(weather.condition)}` : '')
+      },
+      ...weather.daily.slice(0, 3).map((day): ReportBlock => ({
+        type: 'text',
+        text: `${day.date}: ${value(day.tempMin, '°C')} to ${value(day.tempMax, '°C')}, snow ${value(day.snowfall, 'cm')}, ` +
+          `gusts ${value(day.gustMax, 'km/h')}, ${weatherUtils.getDescription(day.condition)}`
+      })),
+      ...(weather.fetchedAt ? [{ type: 'note' as const, text: `Forecast fetched ${new Date(weather.fetchedAt).toLocaleString()}` }] : []),
+      { type: 'heading', text: `Active alerts (${alerts.length})` },
+      ...(alerts.length
+        ? alerts.map((alert): ReportBlock => ({
+          type: 'swatch',
+          color: ALERT_SEVERITIES[alert.severity].color,
+          text: `${alert.title} · ${alert.segment.name}: ${alert.message}`
+        }))
+        : [{ type: 'text' as const, text: 'No active weather alerts.' }]),
+      { type: 'heading', text: `Incidents near the road (${incidents.length})` },
+      ...(incidents.length
+        ? incidents.map((incident): ReportBlock => ({
+          type: 'swatch',
+          color: incidentUtils.severity(incident.severity).color,
+          text: `${incidentUtils.category(incident.category).label} · ${incident.road}${incident.notes ? `: ${incident.notes}` : ''}`
+        }))
+        : [{ type: 'text' as const, text: 'No open incidents near the road.' }])
+    ];
+  },
+
+  wrapText: (ctx: CanvasRenderingContext2D, text: string, width: number) => text.split(' ').reduce<string[]>((lines, word) => {
+    const line = lines.length ? `${lines[lines.length - 1]} ${word}` : word;
+    if (lines.length && ctx.measureText(line).width <= width) lines[lines.length - 1] = line;
+    else lines.push(word);
+    return lines;
+  }, []),
+
+  // Lays blocks out top-down from y and returns the y below them; measures
+  // only when `draw` is false
+  drawBlocks: (ctx: CanvasRenderingContext2D, blocks: ReportBlock[], x: number, y: number, width: number, draw = true) => {
+    let top = y;
+    blocks.forEach((block) => {
+      if (block.type === 'heading') {
+        top += 10;
+        ctx.font = 'bold 15px sans-serif';
+        ctx.fillStyle = '#111827';
+        if (draw) ctx.fillText(block.text, x, top + 15);
+        top += 24;
+        return;
+      }
+      const indent = block.type === 'swatch' || block.type === 'ramp' ? 22 : 0;
+      ctx.font = block.type === 'note' ? 'italic 12px sans-serif' : '13px sans-serif';
+      ctx.fillStyle = block.type === 'note' ? '#6b7280' : '#374151';
+      const lines = block.type === 'ramp' ? [block.text] : reportUtils.wrapText(ctx, block.text, width - indent);
+      if (draw) {
+        lines.forEach((line, i) => ctx.fillText(line, x + indent + (block.type === 'ramp' ? 110 : 0), top + 13 + i * 17));
+        if (block.type === 'swatch') {
+          ctx.fillStyle = block.color;
+          if (block.line) ctx.fillRect(x, top + 6, 16, 4);
+          else ctx.fillRect(x + 2, top + 2, 12, 12);
+        }
+        if (block.type === 'ramp') {
+          const gradient = ctx.createLinearGradient(x, 0, x + 120, 0);
+          const [min, max] = [block.stops[0][0], block.stops[block.stops.length - 1][0]];
+          block.stops.forEach(([v, color]) => gradient.addColorStop((v - min) / (max - min), color));
+          ctx.fillStyle = gradient;
+          ctx.fillRect(x, top + 4, 120, 10);
+        }
+      }
+      top += lines.length * 17 + 4;
+    });
+    return top;
+  },
+
+  // Header, annotated map and a sidebar with the situation and the legend
+  renderPng: (map: RenderedMap, report: SituationReport) => {
+    const side = CONFIG.report.sidebarWidth;
+    const header = 56;
+    const blocks: ReportBlock[] = [...reportUtils.situationBlocks(report), { type: 'heading', text: 'Legend' }, ...report.legend];
+    const measure = document.createElement('canvas').getContext('2d')!;
+    const contentHeight = reportUtils.drawBlocks(measure, blocks, 0, 0, side - 32, false) + 16;
+
+    const canvas = document.createElement('canvas');
+    const width = map.width + side;
+    const height = header + Math.max(map.height, contentHeight);
+    canvas.width = Math.round(width * map.ratio);
+    canvas.height = Math.round(height * map.ratio);
+    const ctx = canvas.getContext('2d')!;
+    ctx.scale(map.ratio, map.ratio);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#1e3a8a';
+    ctx.fillRect(0, 0, width, header);
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 20px sans-serif';
+    ctx.fillText(CONFIG.report.title, 16, 28);
+    ctx.font = '13px sans-serif';
+    ctx.fillText(report.timestamp.toLocaleString(), 16, 47);
+    ctx.drawImage(map.canvas, 0, header, map.width, map.height);
+    reportUtils.drawBlocks(ctx, blocks, map.width + 16, header, side - 32);
+    return canvas;
+  },
+
+  // A4 landscape: page 1 map and legend, then the situation on as many
+  // pages as it needs
+  renderPdf: (jsPDF: Window['jspdf']['jsPDF'], map: RenderedMap, report: SituationReport) => {
+    const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' });
+    const [pageWidth, pageHeight, margin] = [297, 210, 12];
+    const legendWidth = 70;
+    const title = () => {
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(14);
+      doc.setTextColor('#111827');
+      doc.text(CONFIG.report.title, margin, margin + 4);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor('#6b7280');
+      doc.text(report.timestamp.toLocaleString(), pageWidth - margin, margin + 4, { align: 'right' });
+    };
+    // Returns the y below the blocks, starting new pages as needed
+    const writeBlocks = (blocks: ReportBlock[], x: number, y: number, width: number) => {
+      let top = y;
+      blocks.forEach((block) => {
+        const heading = block.type === 'heading';
+        const indent = block.type === 'swatch' || block.type === 'ramp' ? 6 : 0;
+        doc.setFont('helvetica', heading ? 'bold' : block.type === 'note' ? 'italic' : 'normal');
+        doc.setFontSize(heading ? 11 : 9);
+        const lines = doc.splitTextToSize(block.text, width - indent - (block.type === 'ramp' ? 30 : 0));
+        const blockHeight = (heading ? 8 : 1) + lines.length * 4.2;
+        if (top + blockHeight > pageHeight - margin) {
+          doc.addPage();
+          title();
+          top = margin + 14;
+        }
+        if (heading) top += 4;
+        doc.setTextColor(heading ? '#111827' : block.type === 'note' ? '#6b7280' : '#374151');
+        doc.text(lines, x + indent + (block.type === 'ramp' ? 30 : 0), top + 3);
+        if (block.type === 'swatch') {
+          doc.setFillColor(block.color);
+          if (block.line) doc.rect(x, top + 1, 4, 1, 'F');
+          else doc.rect(x, top, 3.5, 3.5, 'F');
+        }
+        if (block.type === 'ramp') {
+          const step = 30 / block.stops.length;
+          block.stops.forEach(([, color], i) => {
+            doc.setFillColor(color);
+            doc.rect(x + i * step, top, step, 3, 'F');
+          });
+        }
+        top += blockHeight - (heading ? 4 : 0);
+      });
+      return top;
+    };
+
+    title();
+    const areaWidth = pageWidth - 3 * margin - legendWidth;
+    const areaHeight = pageHeight - 2 * margin - 10;
+    const scale = Math.min(areaWidth / map.width, areaHeight / map.height);
+    doc.addImage(map.canvas.toDataURL('image/png'), 'PNG', margin, margin + 10, map.width * scale, map.height * scale);
+    writeBlocks([{ type: 'heading', text: 'Legend' }, ...report.legend], pageWidth - margin - legendWidth, margin + 6, legendWidth);
+
+    doc.addPage();
+    title();
+    writeBlocks(reportUtils.situationBlocks(report), margin, margin + 10, pageWidth - 2 * margin);
+    return doc;
+  }
+};
@@ -0,0 +1,143 @@
+import { ALERT_SEVERITIES } from './config';
+import { DailyWeather, StationWeather } from './weather';
+
+// ============================================================================
+// ROAD STATUS RULES
+// ============================================================================
+
+const RULE_OPERATORS: Record<string, (a: number, b: number) => boolean> = {
+  '>': (a, b) => a > b,
+  '>=': (a, b) => a >= b,
+  '<': (a, b) => a < b,
+  '<=': (a, b) => a <= b,
+  '==': (a, b) => a === b
+};
+
+// A leaf compares one metric, a group combines conditions
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { metric: string; op: string; value: number }; // metric is a key of RoadMetrics, op of RULE_OPERATORS
+
+export interface RoadStatusRule {
+  id: string;
+  severity: string; // key of ALERT_SEVERITIES
+  title?: string; // defaults to the id
+  message?: string; // template, {metric} is replaced by its value
+  closesRoad?: boolean;
+  when: RuleCondition;
+}
+
+// Values a condition can test; null where the source has no value
+export type RoadMetrics = Record<string, number | null>;
+
+// One rule firing at one station; consecutive days share a single alert
+export interface RoadAlert {
+  id: string; // "<rule>:<station>:<first day>"
+  ruleId: string;
+  severity: string; // key of ALERT_SEVERITIES
+  title: string;
+  message: string;
+  segment: { stationId: string; name: string; elevation: number; lat: number; lon: number };
+  closesRoad: boolean; // feeds routing closures
+  validFrom: string;
+  validTo: string;
+}
+
+// Rules are plain JSON (see config/road_status_rules.json); `when` is either a
+// leaf { metric, op, value } or an { all: [...] } / { any: [...] } group.
+export const roadStatusUtils = {
+  validateRules: (config: unknown): RoadStatusRule[] => {
+    const rules = (config as { rules?: RoadStatusRule[] } | null)?.rules || [];
+    const check = (when: RuleCondition, ruleId: string) => {
+      if ('all' in when || 'any' in when) {
+        ('all' in when ? when.all : when.any).forEach((c) => check(c, ruleId));
+      } else if (!RULE_OPERATORS[when.op] || typeof when.metric !== 'string') {
+        throw new Error(`Rule "${ruleId}" has an invalid condition`);
+      }
+    };
+    rules.forEach((rule) => {
+      if (!rule.id || !ALERT_SEVERITIES[rule.severity] || !rule.when) {
+        throw new Error(`Rule "${rule.id || '?'}" is missing id, severity or when`);
+      }
+      check(rule.when, rule.id);
+    });
+    return rules;
+  },
+
+  loadRules: async (url: string) => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Road status rules request failed: ${response.status} ${url}`);
+    return roadStatusUtils.validateRules(await response.json());
+  },
+
+  matches: (when: RuleCondition, metrics: RoadMetrics): boolean => {
+    if ('all' in when) return when.all.every((c) => roadStatusUtils.matches(c, metrics));
+    if ('any' in when) return when.any.some((c) => roadStatusUtils.matches(c, metrics));
+    const value = metrics[when.metric];
+    return value !== null && value !== undefined && RULE_OPERATORS[when.op](value, when.value);
+  },
+
+  formatMessage: (template: string, metrics: RoadMetrics) => template.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = metrics[key];
+    if (value === null || value === undefined) return '—';
+    return typeof value === 'number' ? String(Math.round(value * 10) / 10) : String(value);
+  }),
+
+  // Metrics for one station and forecast day; day 0 also carries current values
+  getMetrics: (obs: StationWeather, day: DailyWeather, index: number): RoadMetrics => ({
+    elevation: obs.station.elevation,
+    tempMin: day.tempMin,
+    tempMax: day.tempMax,
+    snowfall: day.snowfall,
+    precipitation: day.precipitation,
+    gustMax: day.gustMax,
+    temp: index === 0 ? obs.temp : null,
+    wind: index === 0 ? obs.wind : null
+  }),
+
+  // Evaluates every rule per station and day; consecutive days that trigger the
+  // same rule at the same station collapse into one alert with a longer window.
+  evaluate: (rules: RoadStatusRule[], stationWeather: StationWeather[], now = new Date()): RoadAlert[] => {
+    const alerts: RoadAlert[] = [];
+
+    stationWeather.forEach((obs) => {
+      rules.forEach((rule) => {
+        let current: RoadAlert | null = null;
+        obs.daily.forEach((day, index) => {
+          const metrics = roadStatusUtils.getMetrics(obs, day, index);
+          if (!roadStatusUtils.matches(rule.when, metrics)) {
+            current = null;
+            return;
+          }
+          const dayStart = new Date(`${day.date}T00:00`);
+          const dayEnd = new Date(dayStart.getTime() + 24 * 3600 * 1000);
+          if (current) {
+            current.validTo = dayEnd.toISOString();
+            return;
+          }
+          current = {
+            id: `${rule.id}:${obs.station.id}:${day.date}`,
+            ruleId: rule.id,
+            severity: rule.severity,
+            title: rule.title || rule.id,
+            message: roadStatusUtils.formatMessage(rule.message || '', metrics),
+            segment: { stationId: obs.station.id, name: obs.station.name, elevation: obs.station.elevation,
+              lat: obs.station.lat, lon: obs.station.lon },
+            closesRoad: !!rule.closesRoad,
+            validFrom: (index === 0 ? now : dayStart).toISOString(),
+            validTo: dayEnd.toISOString()
+          };
+          alerts.push(current);
+        });
+      });
+    });
+
+    return alerts.sort((a, b) =>
+      ALERT_SEVERITIES[b.severity].rank - ALERT_SEVERITIES[a.severity].rank ||
+      a.validFrom.localeCompare(b.validFrom));
+  },
+
+  isActive: (alert: RoadAlert, now = new Date()) =>
+    new Date(alert.validFrom) <= now && now < new Date(alert.validTo)
+};
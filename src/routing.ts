@@ -0,0 +1,245 @@
+import type { Position } from 'geojson';
+import { CONFIG, ROUTING_PROFILES, RoutingProfile } from './config';
+import { LinePoint, RoadCollection, RoadFeature, RoadProperties, geoUtils, roadUtils } from './utils';
+import { RoadAlert, roadStatusUtils } from './roadStatus';
+import { Raster, rasterUtils } from './raster';
+import { StationWeather } from './weather';
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+// Graph nodes are the shared endpoints of a network's edges (osmnx splits ways
+// at every junction). Each edge is costed both ways in travel time from its
+// DTM samples, so grade slows bikes and walkers in one direction only.
+export interface EdgeCost {
+  time: number; // s
+  ascent: number; // m
+}
+
+export interface RouteEdge {
+  id: string; // segment id, see segmentId
+  feature: RoadFeature;
+  line: Position[];
+  length: number; // m
+  forward: EdgeCost;
+  backward: EdgeCost;
+}
+
+export interface RouteLink {
+  edge: RouteEdge;
+  node: RouteNode;
+  reverse: boolean; // travels the edge against its line direction
+  time: number;
+  ascent: number;
+  descent: number;
+}
+
+export interface RouteNode {
+  key: string; // see nodeKey
+  lon: number;
+  lat: number;
+  links: RouteLink[];
+}
+
+export interface RouteGraph {
+  mode: string; // key of ROUTING_PROFILES
+  nodes: RouteNode[];
+  edges: RouteEdge[];
+  maxSpeed: number; // m/s
+}
+
+// Points picked on the map in the route panel
+export interface RouteRequest {
+  mode: string; // ROUTING_PROFILES key
+  origin: Position | null;
+  destination: Position | null;
+}
+
+// A segment closed by hand, by routingUtils.segmentId
+export interface Closure {
+  id: string;
+  name: string;
+}
+
+export interface Route {
+  mode: string;
+  start: RouteNode;
+  goal: RouteNode;
+  edges: RouteEdge[];
+  coordinates: Position[];
+  distance: number; // m
+  ascent: number;
+  descent: number;
+  time: number; // s
+}
+
+export const routingUtils = {
+  nodeKey: ([lon, lat]: Position) => `${lon.toFixed(6)},${lat.toFixed(6)}`,
+
+  // Closures are keyed by OSM node pair, which the drive, bike and walk exports
+  // share, so closing a segment closes it for every mode and both directions
+  segmentId: (properties: RoadProperties) => [String(properties.u), String(properties.v)].sort().join('-'),
+
+  edgeCosts: (points: (LinePoint & { elevation: number })[], highway: string, profile: RoutingProfile) => {
+    const forward: EdgeCost = { time: 0, ascent: 0 };
+    const backward: EdgeCost = { time: 0, ascent: 0 };
+    points.forEach((p, i) => {
+      if (i === 0) return;
+      const prev = points[i - 1];
+      const run = p.distance - prev.distance;
+      if (run <= 0) return;
+      const dz = Number.isNaN(p.elevation) || Number.isNaN(prev.elevation) ? 0 : p.elevation - prev.elevation;
+      forward.time += run / (profile.speed(highway, dz / run) / 3.6);
+      backward.time += run / (profile.speed(highway, -dz / run) / 3.6);
+      if (dz > 0) forward.ascent += dz;
+      else backward.ascent -= dz;
+    });
+    return { forward, backward };
+  },
+
+  buildGraph: (geojson: RoadCollection, dtm: Raster | null | undefined, mode: string): RouteGraph => {
+    const profile = ROUTING_PROFILES[mode];
+    const nodes: Record<string, RouteNode> = {};
+    const edges: RouteEdge[] = [];
+    let maxSpeed = 0; // m/s, for the A* heuristic
+    const nodeAt = ([lon, lat]: Position) => {
+      const key = routingUtils.nodeKey([lon, lat]);
+      if (!nodes[key]) nodes[key] = { key, lon, lat, links: [] };
+      return nodes[key];
+    };
+
+    geojson.features.forEach((feature) => {
+      const highway = roadUtils.getHighwayClass(feature.properties);
+      const oneway = feature.properties.oneway === 1 || feature.properties.oneway === true;
+      geoUtils.lines(feature.geometry).forEach((coordinates) => {
+        if (coordinates.length < 2) return;
+        const line = coordinates.map(([lon, lat]) => [lon, lat]);
+        const points = geoUtils.densify(line, CONFIG.routing.sampleSpacing).map((p) => ({
+          ...p,
+          elevation: dtm ? rasterUtils.sampleBilinear(dtm, dtm.data, p.lon, p.lat) : NaN
+        }));
+        const { forward, backward } = routingUtils.edgeCosts(points, highway, profile);
+        const edge: RouteEdge = {
+          id: routingUtils.segmentId(feature.properties),
+          feature,
+          line,
+          length: points[points.length - 1].distance,
+          forward,
+          backward
+        };
+        if (!edge.length) return;
+        const from = nodeAt(line[0]);
+        const to = nodeAt(line[line.length - 1]);
+        edges.push(edge);
+        from.links.push({ edge, node: to, reverse: false, time: forward.time, ascent: forward.ascent, descent: backward.ascent });
+        if (!oneway) {
+          to.links.push({ edge, node: from, reverse: true, time: backward.time, ascent: backward.ascent, descent: forward.ascent });
+        }
+        maxSpeed = Math.max(maxSpeed, edge.length / forward.time, edge.length / backward.time);
+      });
+    });
+
+    return { mode, nodes: Object.values(nodes), edges, maxSpeed };
+  },
+
+  nearestNode: (graph: RouteGraph, position: Position) => {
+    const nearest = geoUtils.nearest(position, graph.nodes, (node) => [node.lon, node.lat]);
+    return nearest && nearest.distance <= CONFIG.routing.snapDistance ? nearest.item : null;
+  },
+
+  // Segment ids closed by active alerts from closing rules, matched to edges
+  // by nearest station as on the alerts overlay
+  alertClosures: (graph: RouteGraph, alerts: RoadAlert[], stationWeather: StationWeather[]) => {
+    if (!CONFIG.routing.alertNetworks.includes(ROUTING_PROFILES[graph.mode].network)) return [];
+    const stations = new Set(alerts
+      .filter((a) => a.closesRoad && roadStatusUtils.isActive(a))
+      .map((a) => a.segment.stationId));
+    if (!stations.size) return [];
+    return graph.edges
+      .filter((edge) => {
+        const obs = roadUtils.nearestStation(edge.feature, stationWeather);
+        return !!(obs && stations.has(obs.station.id));
+      })
+      .map((edge) => edge.id);
+  },
+
+  // A* on travel time between the junctions nearest to two [lon, lat]
+  // positions; `closed` is a Set of segment ids that may not be used
+  route: (graph: RouteGraph, origin: Position, destination: Position, closed: Set<string>): Route | { error: string } => {
+    const start = routingUtils.nearestNode(graph, origin);
+    const goal = routingUtils.nearestNode(graph, destination);
+    if (!start || !goal) {
+      return { error: `No ${ROUTING_PROFILES[graph.mode].label.toLowerCase()} network junction within ${CONFIG.routing.snapDistance} m of the ${start ? 'destination' : 'origin'}` };
+    }
+
+    const estimate = (node: RouteNode) => geoUtils.distance([node.lon, node.lat], [goal.lon, goal.lat]) / graph.maxSpeed;
+    const time: Record<string, number> = { [start.key]: 0 };
+    const via: Record<string, { link: RouteLink; from: RouteNode }> = {};
+    const done = new Set<string>();
+    // Binary min-heap on estimated arrival time
+    const heap = [{ node: start, f: estimate(start) }];
+    const push = (item: { node: RouteNode; f: number }) => {
+      heap.push(item);
+      for (let i = heap.length - 1; i > 0;) {
+        const parent = (i - 1) >> 1;
+        if (heap[parent].f <= heap[i].f) break;
+        [heap[parent], heap[i]] = [heap[i], heap[parent]];
+        i = parent;
+      }
+    };
+    const pop = () => {
+      const top = heap[0];
+      const last = heap.pop()!;
+      if (heap.length) {
+        heap[0] = last;
+        for (let i = 0; ;) {
+          const left = 2 * i + 1;
+          const right = left + 1;
+          let smallest = i;
+          if (left < heap.length && heap[left].f < heap[smallest].f) smallest = left;
+          if (right < heap.length && heap[right].f < heap[smallest].f) smallest = right;
+          if (smallest === i) break;
+          [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+          i = smallest;
+        }
+      }
+      return top;
+    };
+
+    while (heap.length) {
+      const { node } = pop();
+      if (node === goal) break;
+      if (done.has(node.key)) continue;
+      done.add(node.key);
+      node.links.forEach((link) => {
+        if (closed.has(link.edge.id) || done.has(link.node.key)) return;
+        const t = time[node.key] + link.time;
+        if (link.node.key in time && time[link.node.key] <= t) return;
+        time[link.node.key] = t;
+        via[link.node.key] = { link, from: node };
+        push({ node: link.node, f: t + estimate(link.node) });
+      });
+    }
+    if (!(goal.key in time)) return { error: 'No open route between origin and destination' };
+
+    const links: RouteLink[] = [];
+    for (let key = goal.key; key !== start.key; key = via[key].from.key) links.unshift(via[key].link);
+    const coordinates: Position[] = [[start.lon, start.lat]];
+    links.forEach((link) => {
+      const line = link.reverse ? [...link.edge.line].reverse() : link.edge.line;
+      coordinates.push(...line.slice(1));
+    });
+    return {
+      mode: graph.mode,
+      start,
+      goal,
+      edges: links.map((link) => link.edge),
+      coordinates,
+      distance: links.reduce((sum, link) => sum + link.edge.length, 0),
+      ascent: links.reduce((sum, link) => sum + link.ascent, 0),
+      descent: links.reduce((sum, link) => sum + link.descent, 0),
+      time: time[goal.key]
+    };
+  }
+};
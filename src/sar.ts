@@ -0,0 +1,114 @@
+import { CONFIG } from './config';
+import { Raster, RasterValues, rasterUtils } from './raster';
+
+// ============================================================================
+// SAR IMAGERY
+// ============================================================================
+
+// Manifest written by the Sentinel-1 pipeline. New acquisitions only need a new
+// entry; relative paths resolve against the manifest's own URL.
+export interface SarAcquisition {
+  date: string; // YYYY-MM-DD, acquisition or composite start date
+  url: string; // GeoTIFF of linear σ0 backscatter, one band per polarisation
+  label?: string; // slider label, defaults to the date
+}
+
+export interface SarManifest {
+  version: 1;
+  bands: string[]; // band order shared by every file, e.g. ['VV', 'VH']
+  acquisitions: SarAcquisition[];
+}
+
+// Slider and product state of the SAR panel
+export interface SarSettings {
+  enabled: boolean;
+  mode: string; // key of SAR_PRODUCTS
+  band: number;
+  index: number; // shown acquisition
+  reference: number; // earlier acquisition for difference and change
+  threshold: number; // dB
+}
+
+export interface SarChangeStats {
+  increaseKm2: number;
+  decreaseKm2: number;
+  share: number; // of all cells
+}
+
+export interface SarProduct extends RasterValues {
+  stats?: SarChangeStats;
+}
+
+export const sarUtils = {
+  validateManifest: (input: unknown, baseUrl: string): SarManifest => {
+    const manifest = input as { version?: unknown; bands?: unknown; acquisitions?: unknown } | null;
+    if (!manifest || manifest.version !== 1) throw new Error('SAR manifest: unsupported or missing version');
+    if (!Array.isArray(manifest.bands) || !manifest.bands.length) throw new Error('SAR manifest: "bands" must list the band order');
+    if (!Array.isArray(manifest.acquisitions)) throw new Error('SAR manifest: "acquisitions" must be an array');
+    const acquisitions = manifest.acquisitions.map((a: Partial<Record<keyof SarAcquisition, unknown>> | null, i: number): SarAcquisition => {
+      if (!a || typeof a.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(a.date) || typeof a.url !== 'string') {
+        throw new Error(`SAR manifest: acquisition ${i} needs a YYYY-MM-DD "date" and a "url"`);
+      }
+      return { date: a.date, url: new URL(a.url, baseUrl).href, label: typeof a.label === 'string' && a.label ? a.label : a.date };
+    });
+    return { version: 1, bands: manifest.bands, acquisitions: acquisitions.sort((a, b) => a.date.localeCompare(b.date)) };
+  },
+
+  fallbackManifest: (baseUrl: string): SarManifest => ({
+    version: 1,
+    bands: CONFIG.sar.fallbackBands,
+    acquisitions: CONFIG.sar.fallbackYears.map((year) => ({
+      date: `${year}-06-01`,
+      url: new URL(`sentinel1_${year}.tif`, baseUrl).href,
+      label: String(year)
+    }))
+  }),
+
+  loadManifest: async (url: string): Promise<SarManifest> => {
+    const baseUrl = new URL(url, window.location.href).href;
+    const response = await fetch(url);
+    if (response.status === 404) return sarUtils.fallbackManifest(baseUrl);
+    if (!response.ok) throw new Error(`SAR manifest request failed: ${response.status}`);
+    return sarUtils.validateManifest(await response.json(), baseUrl);
+  },
+
+  loadAcquisition: (acquisition: SarAcquisition, band: number) =>
+    rasterUtils.loadRaster(acquisition.url, { maxSize: CONFIG.sar.maxSize, band }),
+
+  // Linear σ0 to decibels; the offset matches the notebook and avoids log(0)
+  toDb: (values: Float32Array) => values.map((v) => 10 * Math.log10(v + 1e-10)),
+
+  // dB difference (later − earlier) on the later acquisition's grid
+  difference: (later: Raster, earlier: Raster) => {
+    const a = sarUtils.toDb(later.data);
+    const b = sarUtils.toDb(rasterUtils.resampleTo(later, earlier));
+    return a.map((v, i) => v - b[i]);
+  },
+
+  // +1 / −1 where the backscatter rose / fell by more than the threshold, NaN elsewhere
+  changeMask: (difference: Float32Array, threshold: number) =>
+    difference.map((d) => (d > threshold ? 1 : d < -threshold ? -1 : NaN)),
+
+  changeStats: (raster: Raster, mask: Float32Array): SarChangeStats => {
+    const [cellX, cellY] = rasterUtils.cellSize(raster);
+    let increase = 0;
+    let decrease = 0;
+    mask.forEach((v) => {
+      if (v === 1) increase++;
+      else if (v === -1) decrease++;
+    });
+    const toKm2 = (cells: number) => (cells * cellX * cellY) / 1e6;
+    return { increaseKm2: toKm2(increase), decreaseKm2: toKm2(decrease), share: (increase + decrease) / mask.length };
+  },
+
+  // The values shown for the current slider state, or null while rasters load
+  product: ({ mode, threshold }: SarSettings, current: Raster | undefined, reference: Raster | undefined): SarProduct | null => {
+    if (!current) return null;
+    if (mode === 'backscatter') return { raster: current, values: sarUtils.toDb(current.data) };
+    if (!reference) return null;
+    const difference = sarUtils.difference(current, reference);
+    if (mode === 'difference') return { raster: current, values: difference };
+    const mask = sarUtils.changeMask(difference, threshold);
+    return { raster: current, values: mask, stats: sarUtils.changeStats(current, mask) };
+  }
+};
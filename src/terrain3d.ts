@@ -0,0 +1,457 @@
+import type { PerspectiveCamera } from 'three';
+import { CONFIG } from './config';
+import { DEG, LatLonBounds, crsUtils } from './crs';
+import { RoadFeature, geoUtils, roadUtils } from './utils';
+import { Raster, rasterUtils } from './raster';
+
+// ============================================================================
+// 3D TERRAIN
+// ============================================================================
+
+// The DTM becomes a chunked mesh in a local metric frame: x east, y up (metres
+// above the lowest DTM cell), z south, origin at the raster centre. Each chunk
+// is a THREE.LOD whose levels sample every `step`-th cell, so distant terrain
+// costs a fraction of the full grid.
+export interface TerrainFrame {
+  cellX: number; // m
+  cellY: number;
+  base: number; // elevation at y = 0
+  size: number; // m, longer raster side
+  toLocal: (px: number, py: number) => [number, number]; // [x, z]
+  toPixel: (x: number, z: number) => [number, number];
+}
+
+// Web Mercator pixel window of the drape texture at `zoom`
+export interface DrapeWindow {
+  zoom: number;
+  x0: number;
+  y0: number;
+  width: number;
+  height: number;
+}
+
+export interface DrapeExtent extends DrapeWindow {
+  project: (lon: number, lat: number) => [number, number]; // texture [u, v]
+}
+
+// Drape texture coordinates at a DTM pixel
+export type UvLookup = (cx: number, cy: number) => [number, number];
+
+export interface ChunkSpec {
+  x0: number; // first column
+  y0: number; // first row
+  size: number; // cells per side
+  step: number; // cells between samples
+  centre: [number, number]; // [x, z] the positions are relative to
+}
+
+export type CameraMode = 'orbit' | 'fly';
+
+export const terrain3dUtils = {
+  // Software rasterizers (SwiftShader, llvmpipe) get coarser levels and a
+  // smaller drape texture
+  isSoftwareRenderer: (gl: WebGLRenderingContext | WebGL2RenderingContext) => {
+    const info = gl.getExtension('WEBGL_debug_renderer_info');
+    const name = info ? gl.getParameter(info.UNMASKED_RENDERER_WEBGL) : gl.getParameter(gl.RENDERER);
+    return /swiftshader|llvmpipe|software|basic render/i.test(String(name));
+  },
+
+  // Pixel coordinates (cell edges at integers, as rasterUtils.toPixel) ↔ local frame
+  frame: (raster: Raster, base: number): TerrainFrame => {
+    const [cellX, cellY] = rasterUtils.cellSize(raster);
+    return {
+      cellX,
+      cellY,
+      base,
+      size: Math.max(raster.width * cellX, raster.height * cellY),
+      toLocal: (px, py) => [(px - raster.width / 2) * cellX, (py - raster.height / 2) * cellY],
+      toPixel: (x, z) => [x / cellX + raster.width / 2, z / cellY + raster.height / 2]
+    };
+  },
+
+  pixelToWgs84: (raster: Raster, px: number, py: number) =>
+    crsUtils.toWgs84(raster.epsg, [raster.bbox[0] + px * raster.resX, raster.bbox[3] - py * raster.resY]),
+
+  // Bilinear DTM height at a fractional pixel position, NaN outside or on nodata
+  heightAt: (raster: Raster, px: number, py: number) => {
+    const { width, height, data } = raster;
+    const fx = px - 0.5;
+    const fy = py - 0.5;
+    if (fx < -0.5 || fy < -0.5 || fx > width - 0.5 || fy > height - 0.5) return NaN;
+    const x0 = Math.max(0, Math.min(width - 2, Math.floor(fx)));
+    const y0 = Math.max(0, Math.min(height - 2, Math.floor(fy)));
+    const tx = Math.min(1, Math.max(0, fx - x0));
+    const ty = Math.min(1, Math.max(0, fy - y0));
+    const v = (dx: number, dy: number) => data[(y0 + dy) * width + x0 + dx];
+    return (v(0, 0) * (1 - tx) + v(1, 0) * tx) * (1 - ty) + (v(0, 1) * (1 - tx) + v(1, 1) * tx) * ty;
+  },
+
+  // Drape texture coordinates, exact every `step` cells and interpolated in
+  // between (reprojecting every vertex would dominate the build time)
+  uvGrid: (raster: Raster, project: DrapeExtent['project'], step = 16): UvLookup => {
+    const cols = Math.floor((raster.width - 1) / step) + 2;
+    const rows = Math.floor((raster.height - 1) / step) + 2;
+    const nodes = new Float64Array(cols * rows * 2);
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) {
+        const [lon, lat] = terrain3dUtils.pixelToWgs84(raster, c * step + 0.5, r * step + 0.5);
+        const [u, v] = project(lon, lat);
+        nodes[(r * cols + c) * 2] = u;
+        nodes[(r * cols + c) * 2 + 1] = v;
+      }
+    }
+    return (cx, cy) => {
+      const c = Math.min(cols - 2, Math.floor(cx / step));
+      const r = Math.min(rows - 2, Math.floor(cy / step));
+      const fx = cx / step - c;
+      const fy = cy / step - r;
+      const at = (rr: number, cc: number, k: number) => nodes[(rr * cols + cc) * 2 + k];
+      const lerp = (k: number) =>
+        (at(r, c, k) * (1 - fx) + at(r, c + 1, k) * fx) * (1 - fy) +
+        (at(r + 1, c, k) * (1 - fx) + at(r + 1, c + 1, k) * fx) * fy;
+      return [lerp(0), lerp(1)];
+    };
+  },
+
+  // Mesh arrays for the cells [x0, x0 + size] × [y0, y0 + size] sampled every
+  // `step` cells, relative to `centre` ([x, z] in the local frame). A skirt
+  // hangs from the edge so chunks at different levels don't show cracks.
+  // Triangles touching nodata cells are dropped.
+  chunkGeometry: (raster: Raster, frame: TerrainFrame, uv: UvLookup, { x0, y0, size, step, centre }: ChunkSpec) => {
+    const { width, height, data } = raster;
+    const axis = (start: number, limit: number) => {
+      const end = Math.min(start + size, limit - 1);
+      const values: number[] = [];
+      for (let v = start; v < end; v += step) values.push(v);
+      values.push(end);
+      return values;
+    };
+    const xs = axis(x0, width);
+    const ys = axis(y0, height);
+    const cols = xs.length;
+    const rows = ys.length;
+    const ring = [
+      ...xs.map((_, c) => c),
+      ...ys.slice(1).map((_, r) => (r + 1) * cols + cols - 1),
+      ...xs.slice(0, -1).reverse().map((_, c) => (rows - 1) * cols + cols - 2 - c),
+      ...ys.slice(1, -1).reverse().map((_, r) => (rows - 2 - r) * cols)
+    ];
+    const count = cols * rows + ring.length;
+    const positions = new Float32Array(count * 3);
+    const uvs = new Float32Array(count * 2);
+    const valid = new Uint8Array(count);
+
+    ys.forEach((cy, r) => {
+      xs.forEach((cx, c) => {
+        const i = r * cols + c;
+        const h = data[cy * width + cx];
+        const [x, z] = frame.toLocal(cx + 0.5, cy + 0.5);
+        const [u, v] = uv(cx, cy);
+        positions.set([x - centre[0], Number.isNaN(h) ? 0 : h - frame.base, z - centre[1]], i * 3);
+        uvs.set([u, v], i * 2);
+        valid[i] = Number.isNaN(h) ? 0 : 1;
+      });
+    });
+    ring.forEach((edge, k) => {
+      const i = cols * rows + k;
+      positions.set([positions[edge * 3], positions[edge * 3 + 1] - CONFIG.terrain3d.skirt, positions[edge * 3 + 2]], i * 3);
+      uvs.set([uvs[edge * 2], uvs[edge * 2 + 1]], i * 2);
+      valid[i] = valid[edge];
+    });
+
+    const index: number[] = [];
+    const triangle = (a: number, b: number, c: number) => {
+      if (valid[a] && valid[b] && valid[c]) index.push(a, b, c);
+    };
+    for (let r = 0; r < rows - 1; r++) {
+      for (let c = 0; c < cols - 1; c++) {
+        const i = r * cols + c;
+        triangle(i, i + cols, i + 1);
+        triangle(i + 1, i + cols, i + cols + 1);
+      }
+    }
+    ring.forEach((edge, k) => {
+      const next = ring[(k + 1) % ring.length];
+      const skirt = cols * rows + k;
+      const skirtNext = cols * rows + ((k + 1) % ring.length);
+      triangle(edge, skirt, next);
+      triangle(next, skirt, skirtNext);
+    });
+    return { positions, uvs, index };
+  },
+
+  // Web Mercator tile window covering the raster at the largest zoom that
+  // fits maxSize pixels; project(lon, lat) gives drape texture coordinates
+  drapeExtent: (raster: Raster, maxSize: number): DrapeExtent => {
+    const outline: [number, number][] = [];
+    for (let i = 0; i <= 10; i++) {
+      const t = i / 10;
+      outline.push([t * raster.width, 0], [t * raster.width, raster.height], [0, t * raster.height], [raster.width, t * raster.height]);
+    }
+    const corners = outline.map(([px, py]) => terrain3dUtils.pixelToWgs84(raster, px, py));
+    const west = Math.min(...corners.map((c) => c[0]));
+    const east = Math.max(...corners.map((c) => c[0]));
+    const south = Math.min(...corners.map((c) => c[1]));
+    const north = Math.max(...corners.map((c) => c[1]));
+
+    const worldPixel = (lon: number, lat: number, z: number): [number, number] => [
+      ((lon + 180) / 360) * 256 * 2 ** z,
+      ((1 - Math.log(Math.tan(lat * DEG) + 1 / Math.cos(lat * DEG)) / Math.PI) / 2) * 256 * 2 ** z
+    ];
+    const windowAt = (z: number): DrapeWindow => {
+      const [x0, y0] = worldPixel(west, north, z);
+      const [x1, y1] = worldPixel(east, south, z);
+      return { zoom: z, x0, y0, width: Math.ceil(x1 - x0), height: Math.ceil(y1 - y0) };
+    };
+    let extent = windowAt(18);
+    while (extent.zoom > 1 && Math.max(extent.width, extent.height) > maxSize) extent = windowAt(extent.zoom - 1);
+    const { zoom, x0, y0, width, height } = extent;
+    return {
+      ...extent,
+      project: (lon, lat) => {
+        const [x, y] = worldPixel(lon, lat, zoom);
+        return [(x - x0) / width, 1 - (y - y0) / height];
+      }
+    };
+  },
+
+  // Basemap tiles for a drapeExtent stitched into one canvas, or painted over
+  // an existing one. Tiles that fail (or are served without CORS headers) stay
+  // blank; `loaded` counts the rest.
+  loadDrape: async ({ zoom, x0, y0, width, height }: DrapeWindow, template: string, subdomains: string[],
+    canvas = document.createElement('canvas')) => {
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    const ctx = canvas.getContext('2d')!;
+    const jobs: Promise<boolean>[] = [];
+    for (let tx = Math.floor(x0 / 256); tx <= Math.floor((x0 + width) / 256); tx++) {
+      for (let ty = Math.floor(y0 / 256); ty <= Math.floor((y0 + height) / 256); ty++) {
+        const url = template
+          .replace('{s}', subdomains[Math.abs(tx + ty) % subdomains.length])
+          .replace('{z}', String(zoom)).replace('{x}', String(tx)).replace('{y}', String(ty));
+        jobs.push(new Promise((resolve) => {
+          const image = new Image();
+          image.crossOrigin = 'anonymous';
+          image.onload = () => {
+            ctx.drawImage(image, tx * 256 - x0, ty * 256 - y0);
+            resolve(true);
+          };
+          image.onerror = () => resolve(false);
+          image.src = url;
+        }));
+      }
+    }
+    const loaded = (await Promise.all(jobs)).filter(Boolean).length;
+    return { canvas, loaded, total: jobs.length };
+  },
+
+  // Image overlay ([[south, west], [north, east]], e.g. the orthophoto COG)
+  // painted into a drape canvas
+  drawOverlay: (extent: DrapeExtent, canvas: HTMLCanvasElement, url: string, [[south, west], [north, east]]: LatLonBounds) => new Promise<boolean>((resolve) => {
+    const image = new Image();
+    image.onload = () => {
+      const [u0, v0] = extent.project(west, north);
+      const [u1, v1] = extent.project(east, south);
+      canvas.getContext('2d')!.drawImage(
+        image, u0 * extent.width, (1 - v0) * extent.height, (u1 - u0) * extent.width, (v0 - v1) * extent.height
+      );
+      resolve(true);
+    };
+    image.onerror = () => resolve(false);
+    image.src = url;
+  }),
+
+  // Road lines as segment pairs with per-vertex colours, densified to the cell
+  // size and lifted CONFIG.terrain3d.roadOffset above the surface
+  roadGeometry: (features: RoadFeature[], raster: Raster, frame: TerrainFrame) => {
+    const positions: number[] = [];
+    const colors: number[] = [];
+    const spacing = Math.min(frame.cellX, frame.cellY);
+    features.forEach((feature) => {
+      if (!feature.geometry) return;
+      const lines = feature.geometry.type === 'MultiLineString' ? feature.geometry.coordinates
+        : feature.geometry.type === 'LineString' ? [feature.geometry.coordinates] : [];
+      const color = roadUtils.getStyle(feature).color;
+      const rgb = [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16) / 255);
+      lines.forEach((line) => {
+        const points = geoUtils.densify(line, spacing).map(({ lon, lat }) => {
+          const [x, y] = crsUtils.fromWgs84(raster.epsg, [lon, lat]);
+          const [px, py] = rasterUtils.toPixel(raster, x, y);
+          const h = terrain3dUtils.heightAt(raster, px, py);
+          const [lx, lz] = frame.toLocal(px, py);
+          return Number.isNaN(h) ? null : [lx, h - frame.base + CONFIG.terrain3d.roadOffset, lz];
+        });
+        for (let i = 1; i < points.length; i++) {
+          const [from, to] = [points[i - 1], points[i]];
+          if (!from || !to) continue;
+          positions.push(...from, ...to);
+          colors.push(...rgb, ...rgb);
+        }
+      });
+    });
+    return { positions: new Float32Array(positions), colors: new Float32Array(colors) };
+  },
+
+  // Orbit (drag rotates, right- or shift-drag pans, wheel zooms) and fly (drag
+  // looks around, WASD moves, Q/E descend/climb, wheel sets speed) controls.
+  // groundAt(x, z) is the surface height in world units; onChange requests a redraw.
+  createControls: (THREE: Window['THREE'], camera: PerspectiveCamera, element: HTMLElement,
+    groundAt: (x: number, z: number) => number, onChange: () => void) => {
+    const target = new THREE.Vector3();
+    const orbit = { radius: 1000, theta: 0, phi: 0.9, maxRadius: 10000 };
+    const fly = { yaw: 0, pitch: 0, speed: 200 };
+    const keys = new Set<string>();
+    let mode: CameraMode = 'orbit';
+    let drag: { x: number; y: number; pan: boolean } | null = null;
+    const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+    const keepAboveGround = () => {
+      const ground = groundAt(camera.position.x, camera.position.z);
+      if (Number.isFinite(ground)) camera.position.y = Math.max(camera.position.y, ground + CONFIG.terrain3d.minClearance);
+    };
+    const forward = () => new THREE.Vector3(
+      Math.sin(fly.yaw) * Math.cos(fly.pitch), Math.sin(fly.pitch), Math.cos(fly.yaw) * Math.cos(fly.pitch)
+    );
+
+    const applyOrbit = () => {
+      const { radius, theta, phi } = orbit;
+      camera.position.set(
+        target.x + radius * Math.sin(phi) * Math.sin(theta),
+        target.y + radius * Math.cos(phi),
+        target.z + radius * Math.sin(phi) * Math.cos(theta)
+      );
+      keepAboveGround();
+      camera.lookAt(target);
+      onChange();
+    };
+    const applyFly = () => {
+      keepAboveGround();
+      camera.lookAt(camera.position.clone().add(forward()));
+      onChange();
+    };
+
+    const onPointerDown = (e: PointerEvent) => {
+      element.focus();
+      element.setPointerCapture(e.pointerId);
+      drag = { x: e.clientX, y: e.clientY, pan: e.button === 2 || e.shiftKey };
+    };
+    const onPointerMove = (e: PointerEvent) => {
+      if (!drag) return;
+      const dx = e.clientX - drag.x;
+      const dy = e.clientY - drag.y;
+      drag.x = e.clientX;
+      drag.y = e.clientY;
+      if (mode === 'fly') {
+        fly.yaw -= dx * 0.003;
+        fly.pitch = clamp(fly.pitch - dy * 0.003, -1.5, 1.5);
+        applyFly();
+      } else if (drag.pan) {
+        const scale = orbit.radius * 0.0015;
+        const right = new THREE.Vector3(Math.cos(orbit.theta), 0, -Math.sin(orbit.theta));
+        const ahead = new THREE.Vector3(-Math.sin(orbit.theta), 0, -Math.cos(orbit.theta));
+        target.addScaledVector(right, -dx * scale).addScaledVector(ahead, dy * scale);
+        const ground = groundAt(target.x, target.z);
+        if (Number.isFinite(ground)) target.y = ground;
+        applyOrbit();
+      } else {
+        orbit.theta -= dx * 0.005;
+        orbit.phi = clamp(orbit.phi - dy * 0.005, 0.05, 1.55);
+        applyOrbit();
+      }
+    };
+    const onPointerUp = () => {
+      drag = null;
+    };
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = e.deltaY > 0 ? 1.1 : 1 / 1.1;
+      if (mode === 'fly') {
+        fly.speed = clamp(fly.speed / factor, 10, 5000);
+        return;
+      }
+      orbit.radius = clamp(orbit.radius * factor, 50, orbit.maxRadius);
+      applyOrbit();
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (mode !== 'fly' || !'wasdqe'.includes(e.key.toLowerCase())) return;
+      keys.add(e.key.toLowerCase());
+      onChange();
+    };
+    const onKeyUp = (e: KeyboardEvent) => keys.delete(e.key.toLowerCase());
+    const onContextMenu = (e: MouseEvent) => e.preventDefault();
+
+    element.tabIndex = 0;
+    element.addEventListener('pointerdown', onPointerDown);
+    element.addEventListener('pointermove', onPointerMove);
+    element.addEventListener('pointerup', onPointerUp);
+    element.addEventListener('wheel', onWheel, { passive: false });
+    element.addEventListener('keydown', onKeyDown);
+    element.addEventListener('keyup', onKeyUp);
+    element.addEventListener('contextmenu', onContextMenu);
+
+    return {
+      // Frames the whole scene from the south
+      reset: (size: number) => {
+        target.set(0, groundAt(0, 0) || 0, 0);
+        Object.assign(orbit, { radius: size * 0.8, theta: 0, phi: 0.9, maxRadius: size * 3 });
+        fly.speed = size / 20;
+        mode = 'orbit';
+        applyOrbit();
+      },
+
+      setMode: (next: CameraMode) => {
+        if (next === mode) return;
+        const dir = target.clone().sub(camera.position).normalize();
+        if (next === 'fly') {
+          fly.yaw = Math.atan2(dir.x, dir.z);
+          fly.pitch = Math.asin(clamp(dir.y, -1, 1));
+        } else {
+          target.copy(camera.position).addScaledVector(forward(), orbit.radius);
+          const ground = groundAt(target.x, target.z);
+          if (Number.isFinite(ground)) target.y = ground;
+          const offset = camera.position.clone().sub(target);
+          orbit.radius = offset.length();
+          orbit.theta = Math.atan2(offset.x, offset.z);
+          orbit.phi = clamp(Math.acos(offset.y / orbit.radius), 0.05, 1.55);
+        }
+        mode = next;
+        keys.clear();
+        if (mode === 'fly') applyFly();
+        else applyOrbit();
+      },
+
+      // Moves the fly camera for held keys; returns whether it is still moving
+      update: (dt: number) => {
+        if (mode !== 'fly' || !keys.size) return false;
+        const step = fly.speed * dt;
+        const ahead = new THREE.Vector3(Math.sin(fly.yaw), 0, Math.cos(fly.yaw));
+        const right = new THREE.Vector3(-Math.cos(fly.yaw), 0, Math.sin(fly.yaw));
+        if (keys.has('w')) camera.position.addScaledVector(ahead, step);
+        if (keys.has('s')) camera.position.addScaledVector(ahead, -step);
+        if (keys.has('d')) camera.position.addScaledVector(right, step);
+        if (keys.has('a')) camera.position.addScaledVector(right, -step);
+        if (keys.has('e')) camera.position.y += step;
+        if (keys.has('q')) camera.position.y -= step;
+        applyFly();
+        return true;
+      },
+
+      // Point the camera looks at: the orbit centre, or 1 km ahead when flying
+      lookTarget: () => (mode === 'orbit'
+        ? target.clone()
+        : camera.position.clone().addScaledVector(new THREE.Vector3(Math.sin(fly.yaw), 0, Math.cos(fly.yaw)), 1000)),
+
+      dispose: () => {
+        element.removeEventListener('pointerdown', onPointerDown);
+        element.removeEventListener('pointermove', onPointerMove);
+        element.removeEventListener('pointerup', onPointerUp);
+        element.removeEventListener('wheel', onWheel);
+        element.removeEventListener('keydown', onKeyDown);
+        element.removeEventListener('keyup', onKeyUp);
+        element.removeEventListener('contextmenu', onContextMenu);
+      }
+    };
+  }
+};
@@ -0,0 +1,275 @@
+import type { Feature, FeatureCollection, Geometry, LineString, MultiLineString, MultiPolygon, Polygon, Position } from 'geojson';
+import { ROAD_CONDITIONS, HIGHWAY_STYLES } from './config';
+import { DEG, Coordinates, LatLonBounds, crsUtils } from './crs';
+import { loadSqlJs } from './libs';
+import { StationWeather } from './weather';
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking right after click() can cancel the download before the browser reads the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// A point along a line, `distance` metres from its start
+export interface LinePoint {
+  distance: number;
+  lon: number;
+  lat: number;
+}
+
+export const geoUtils = {
+  // Great-circle distance in metres between two [lon, lat] positions
+  distance: ([lon1, lat1]: Position, [lon2, lat2]: Position) => {
+    const R = 6371008.8;
+    const dLat = (lat2 - lat1) * DEG;
+    const dLon = (lon2 - lon1) * DEG;
+    const h = Math.sin(dLat / 2) ** 2 +
+      Math.cos(lat1 * DEG) * Math.cos(lat2 * DEG) * Math.sin(dLon / 2) ** 2;
+    return 2 * R * Math.asin(Math.sqrt(h));
+  },
+
+  // Points every `spacing` metres along a [lon, lat] line, with distance from the start
+  densify: (coordinates: Position[], spacing: number) => {
+    const points: LinePoint[] = [];
+    let distance = 0;
+
+    coordinates.forEach((end, i) => {
+      if (i === 0) return;
+      const start = coordinates[i - 1];
+      const length = geoUtils.distance(start, end);
+      const steps = Math.max(1, Math.ceil(length / spacing));
+      for (let k = i === 1 ? 0 : 1; k <= steps; k++) {
+        const t = k / steps;
+        points.push({
+          distance: distance + t * length,
+          lon: start[0] + t * (end[0] - start[0]),
+          lat: start[1] + t * (end[1] - start[1])
+        });
+      }
+      distance += length;
+    });
+    return points;
+  },
+
+  // LineString / MultiLineString coordinates as a list of lines
+  lines: (geometry: LineString | MultiLineString): Position[][] =>
+    (geometry.type === 'MultiLineString' ? geometry.coordinates : [geometry.coordinates]),
+
+  // Polygon / MultiPolygon coordinates as a list of polygons (outer ring + holes)
+  polygons: (geometry: Polygon | MultiPolygon): Position[][][] =>
+    (geometry.type === 'MultiPolygon' ? geometry.coordinates : [geometry.coordinates]),
+
+  lineMidpoint: (coordinates: Position[]) => coordinates[Math.floor(coordinates.length / 2)],
+
+  nearest: <T>(position: Position, items: T[], getPosition: (item: T) => Position) =>
+    items.reduce<{ item: T; distance: number } | null>((best, item) => {
+      const d = geoUtils.distance(position, getPosition(item));
+      return !best || d < best.distance ? { item, distance: d } : best;
+    }, null)
+};
+
+// GeoPackage geometry blobs: "GP" header + optional envelope, followed by WKB
+const readWkb = (view: DataView, offset: number): { geometry: Geometry; offset: number } => {
+  const little = view.getUint8(offset) === 1;
+  let type = view.getUint32(offset + 1, little);
+  let pos = offset + 5;
+
+  // Z/M flags come either ISO-style (1000/2000/3000) or EWKB-style (high bits)
+  let hasZ = (type & 0x80000000) !== 0;
+  let hasM = (type & 0x40000000) !== 0;
+  type &= 0x0fffffff;
+  const iso = Math.floor(type / 1000);
+  type %= 1000;
+  if (iso === 1 || iso === 3) hasZ = true;
+  if (iso === 2 || iso === 3) hasM = true;
+
+  const readPoint = (): Position => {
+    const coord = [view.getFloat64(pos, little), view.getFloat64(pos + 8, little)];
+    pos += 16;
+    if (hasZ) {
+      coord.push(view.getFloat64(pos, little));
+      pos += 8;
+    }
+    if (hasM) pos += 8;
+    return coord;
+  };
+  const readPoints = () => {
+    const n = view.getUint32(pos, little);
+    pos += 4;
+    return Array.from({ length: n }, readPoint);
+  };
+  const readRings = () => {
+    const n = view.getUint32(pos, little);
+    pos += 4;
+    return Array.from({ length: n }, readPoints);
+  };
+  const readParts = (): Coordinates[] => {
+    const n = view.getUint32(pos, little);
+    pos += 4;
+    return Array.from({ length: n }, () => {
+      const part = readWkb(view, pos);
+      pos = part.offset;
+      return (part.geometry as Exclude<Geometry, { type: 'GeometryCollection' }>).coordinates;
+    });
+  };
+
+  const geometryTypes: Record<number, [Geometry['type'], () => Coordinates]> = {
+    1: ['Point', readPoint],
+    2: ['LineString', readPoints],
+    3: ['Polygon', readRings],
+    4: ['MultiPoint', readParts],
+    5: ['MultiLineString', readParts],
+    6: ['MultiPolygon', readParts]
+  };
+  if (!geometryTypes[type]) throw new Error(`Unsupported WKB geometry type ${type}`);
+
+  const [geometryType, read] = geometryTypes[type];
+  const coordinates = read();
+  return { geometry: { type: geometryType, coordinates } as Geometry, offset: pos };
+};
+
+// OSM tags and user text are untrusted once they end up in popup HTML
+export const escapeHtml = (text: unknown) => String(text).replace(/[&<>"']/g, (c) => ({
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+} as Record<string, string>)[c]);
+
+// osmnx edge attributes as stored in the GeoPackage edges table
+export interface RoadProperties {
+  fid?: number;
+  u?: number; // start node id
+  v?: number; // end node id
+  name?: string | null;
+  highway?: string | null;
+  surface?: string | null;
+  length?: number | null; // m
+  oneway?: number | boolean | null;
+  [column: string]: unknown;
+}
+
+export type RoadFeature = Feature<LineString | MultiLineString, RoadProperties>;
+export type RoadCollection = FeatureCollection<LineString | MultiLineString, RoadProperties>;
+
+// A loaded network as held in the app's roadNetworks state
+export interface RoadNetwork {
+  geojson: RoadCollection;
+  edges: number;
+  km: number;
+}
+
+export const roadUtils = {
+  parseGpkgGeometry: (bytes: Uint8Array) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const flags = view.getUint8(3);
+    if (flags & 0x10) return null; // empty geometry
+    const envelopeSize = [0, 32, 48, 48, 64][(flags >> 1) & 0x07] || 0;
+    return readWkb(view, 8 + envelopeSize).geometry;
+  },
+
+  // osmnx writes list-valued attributes as "['track', 'path']"
+  firstValue: (value: unknown): string | null => {
+    if (value === null || value === undefined) return null;
+    if (typeof value !== 'string') return String(value);
+    if (!value.startsWith('[')) return value;
+    const match = value.match(/^\[\s*'?([^',\]]*)'?/);
+    return match ? match[1] : value;
+  },
+
+  getHighwayClass: (properties: RoadProperties) => roadUtils.firstValue(properties.highway) || 'default',
+
+  getStyle: (feature?: RoadFeature) => {
+    const style = (feature && HIGHWAY_STYLES[roadUtils.getHighwayClass(feature.properties)]) || HIGHWAY_STYLES.default;
+    return { opacity: 1, ...style };
+  },
+
+  getPopupHtml: (properties: RoadProperties) => {
+    const name = roadUtils.firstValue(properties.name) || 'Unnamed road';
+    const length = properties.length != null ? `${Math.round(properties.length)} m` : '—';
+    const oneway = properties.oneway === 1 || properties.oneway === true ? 'yes' : 'no';
+    return `<strong>${escapeHtml(name)}</strong><br/>` +
+      `Type: ${escapeHtml(roadUtils.getHighwayClass(properties))}<br/>` +
+      `Length: ${length}<br/>` +
+      `Surface: ${escapeHtml(roadUtils.firstValue(properties.surface) || '—')}<br/>` +
+      `Oneway: ${oneway}`;
+  },
+
+  loadNetwork: async (url: string): Promise<RoadCollection> => {
+    const [SQL, response] = await Promise.all([loadSqlJs(), fetch(url)]);
+    if (!response.ok) throw new Error(`Road network request failed: ${response.status} ${url}`);
+
+    const db = new SQL.Database(new Uint8Array(await response.arrayBuffer()));
+    try {
+      const [result] = db.exec('SELECT * FROM edges');
+      const features: RoadFeature[] = [];
+
+      (result ? result.values : []).forEach((row) => {
+        const properties: RoadProperties = {};
+        let geometry: Geometry | null = null;
+        result.columns.forEach((column, i) => {
+          if (column === 'geom') {
+            geometry = row[i] ? roadUtils.parseGpkgGeometry(row[i] as Uint8Array) : null;
+          } else {
+            properties[column] = row[i] === '' ? null : row[i];
+          }
+        });
+        if (geometry) features.push({ type: 'Feature', properties, geometry: geometry as LineString | MultiLineString });
+      });
+
+      return { type: 'FeatureCollection', features };
+    } finally {
+      db.close();
+    }
+  },
+
+  nearestStation: (feature: RoadFeature, stationWeather: StationWeather[]) => {
+    const nearest = geoUtils.nearest(
+      geoUtils.lineMidpoint(geoUtils.lines(feature.geometry)[0]),
+      stationWeather,
+      (obs) => [obs.station.lon, obs.station.lat]
+    );
+    return nearest ? nearest.item : null;
+  },
+
+  // Colour each edge by the road condition at its nearest weather station
+  getConditionStyle: (feature: RoadFeature, stationWeather: StationWeather[]) => {
+    const obs = roadUtils.nearestStation(feature, stationWeather);
+    const condition = ROAD_CONDITIONS[obs ? obs.roadCondition : 'unknown'];
+    return { color: condition.color, weight: 8, opacity: 0.6 };
+  },
+
+  summarize: (geojson: RoadCollection) => ({
+    edges: geojson.features.length,
+    km: geojson.features.reduce((sum, f) => sum + (f.properties.length || 0), 0) / 1000
+  })
+};
+
+// The area of interest, reprojected to WGS84
+export interface Aoi {
+  geojson: FeatureCollection<Polygon | MultiPolygon>;
+  sourceCrs: number;        // EPSG code of the source file
+  bounds: LatLonBounds;
+  areaKm2: number;
+}
+
+export const aoiUtils = {
+  loadAoi: async (url: string): Promise<Aoi> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`AOI request failed: ${response.status} ${url}`);
+    const source = await response.json();
+    const geojson = crsUtils.reprojectGeoJSON(source) as FeatureCollection<Polygon | MultiPolygon>;
+
+    return {
+      geojson,
+      sourceCrs: crsUtils.parseCrs(source),
+      bounds: crsUtils.getBounds(geojson),
+      areaKm2: crsUtils.getAreaKm2(geojson)
+    };
+  }
+};
@@ -0,0 +1,117 @@
+import { CONFIG, NDSM_CLASSES } from './config';
+import { Raster, RasterValues, TerrainRasters, Warp, rasterUtils } from './raster';
+
+// ============================================================================
+// VEGETATION & STRUCTURES
+// ============================================================================
+
+export interface TreelineBand {
+  base: number;             // band floor (m)
+  cells: number;
+  forest: number;
+  cover: number;            // forest share of the band's cells
+}
+
+export interface Treeline {
+  bands: TreelineBand[];
+  elevation: number | null;
+}
+
+export interface CoverStats {
+  shares: ((typeof NDSM_CLASSES)[number] & { share: number })[];
+  forestCover: number;
+  areaKm2: number;
+}
+
+// The classified nDSM as held by the app
+export interface Vegetation extends RasterValues {
+  classes: Uint8Array;
+  warp: Warp;
+  stats: CoverStats;
+  inAoi: boolean;           // stats are limited to the AOI
+  treeline: Treeline;
+}
+
+export const vegetationUtils = {
+  // Object heights on their own grid: the nDSM, or DSM − DTM when it's missing
+  heights: ({ dtm, dsm, ndsm }: TerrainRasters): RasterValues | null => {
+    if (ndsm) return { raster: ndsm, values: ndsm.data };
+    if (!dsm || !dtm) return null;
+    const ground = rasterUtils.resampleTo(dsm, dtm, true);
+    return { raster: dsm, values: dsm.data.map((z, i) => Math.max(0, z - ground[i])) };
+  },
+
+  // Index into NDSM_CLASSES per cell (255 = nodata). Objects above shrub height
+  // are split by canopy roughness: roofs are smooth, tree crowns are not.
+  classify: ({ raster, values }: RasterValues) => {
+    const { width, height } = raster;
+    const classes = new Uint8Array(values.length).fill(255);
+    const buildings = NDSM_CLASSES.findIndex((c) => c.key === 'buildings');
+    const shrubHeight = NDSM_CLASSES.find((c) => c.key === 'shrubs')!.max!;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const h = values[i];
+        if (Number.isNaN(h)) continue;
+        classes[i] = NDSM_CLASSES.findIndex((c) => c.max !== undefined && h <= c.max);
+        if (h <= shrubHeight || x === 0 || y === 0 || x === width - 1 || y === height - 1) continue;
+
+        let min = Infinity;
+        let max = -Infinity;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const v = values[i + dy * width + dx];
+            min = Math.min(min, v);
+            max = Math.max(max, v);
+          }
+        }
+        if (max - min <= CONFIG.vegetation.roughness) classes[i] = buildings;
+      }
+    }
+    return classes;
+  },
+
+  color: (index: number) => {
+    const hex = NDSM_CLASSES[index].color;
+    return [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  },
+
+  // Forest share per elevation band; the treeline is the top of the highest
+  // band that still reaches treelineCover
+  treeline: ({ raster }: RasterValues, classes: Uint8Array, dtm: Raster): Treeline => {
+    const elevation = rasterUtils.resampleTo(raster, dtm, true);
+    const forest = NDSM_CLASSES.findIndex((c) => c.key === 'forest');
+    const size = CONFIG.vegetation.bandSize;
+    const bands: { base: number; cells: number; forest: number }[] = [];
+    for (let i = 0; i < classes.length; i++) {
+      if (classes[i] === 255 || Number.isNaN(elevation[i])) continue;
+      const k = Math.floor(elevation[i] / size);
+      bands[k] = bands[k] || { base: k * size, cells: 0, forest: 0 };
+      bands[k].cells++;
+      if (classes[i] === forest) bands[k].forest++;
+    }
+    const list = bands
+      .filter(Boolean)
+      .map((b) => ({ ...b, cover: b.forest / b.cells }));
+    const top = list.filter((b) => b.cover >= CONFIG.vegetation.treelineCover).pop();
+    return { bands: list, elevation: top ? top.base + size : null };
+  },
+
+  // Share of each class (and forest cover) among valid cells inside a mask
+  coverStats: ({ raster }: RasterValues, classes: Uint8Array, mask: Uint8Array | null): CoverStats => {
+    const counts = NDSM_CLASSES.map(() => 0);
+    let total = 0;
+    for (let i = 0; i < classes.length; i++) {
+      if ((mask && !mask[i]) || classes[i] === 255) continue;
+      counts[classes[i]]++;
+      total++;
+    }
+    const [cellX, cellY] = rasterUtils.cellSize(raster);
+    return {
+      shares: NDSM_CLASSES.map((c, i) => ({ ...c, share: total ? counts[i] / total : 0 })),
+      forestCover: total ? counts[NDSM_CLASSES.findIndex((c) => c.key === 'forest')] / total : 0,
+      areaKm2: (total * cellX * cellY) / 1e6
+    };
+  }
+};
@@ -0,0 +1,139 @@
+import { CONFIG, BASEMAPS, TERRAIN_LAYERS } from './config';
+
+// ============================================================================
+// VIEW STATE
+// ============================================================================
+
+// Map overlay switches; every road network in CONFIG.roads.networks adds its
+// own key
+export interface LayerVisibility {
+  conditions: boolean;
+  alerts: boolean;
+  incidents: boolean;
+  avalanche: boolean;
+  vegetation: boolean;
+  [network: string]: boolean;
+}
+
+// The shareable part of the app state lives in the URL hash, e.g.
+// #v=1&view=map&base=osm&terrain=none&layers=drive,alerts&at=47.08260,12.84340,14
+// Missing parameters keep their defaults; invalid ones are dropped with a
+// warning so an old or hand-edited link still opens.
+interface ViewState {
+  activeView?: string;
+  basemap?: string;
+  terrain?: string;
+  layersVisible?: LayerVisibility;
+  center?: [number, number]; // [lat, lon]
+  zoom?: number;
+  feature?: string; // "<network>:<fid>" of the road segment whose popup is open
+  sarDate?: string; // acquisition shown on the SAR time slider
+}
+
+// The app state the hash is written from; null leaves a parameter out
+interface ViewSnapshot {
+  activeView: string;
+  basemap: string;
+  terrain: string;
+  layersVisible: LayerVisibility;
+  center: [number, number] | null;
+  zoom: number;
+  feature: string | null;
+  sarDate: string | null;
+}
+
+// A named view in localStorage, stored as its hash
+export interface SavedView {
+  name: string;
+  hash: string;
+  savedAt: string; // ISO time
+}
+
+export const viewStateUtils = {
+  views: ['map', '3d', 'weather', 'history', 'info', 'hydrology', 'alerts', 'incidents'],
+
+  serialize: (state: ViewSnapshot) => {
+    const params: [string, string | number | null | undefined][] = [
+      ['v', CONFIG.views.version],
+      ['view', state.activeView],
+      ['base', state.basemap],
+      ['terrain', state.terrain],
+      ['layers', Object.keys(state.layersVisible).filter((key) => state.layersVisible[key]).join(',')],
+      ['at', state.center && `${state.center[0].toFixed(5)},${state.center[1].toFixed(5)},${state.zoom}`],
+      ['feature', state.feature],
+      ['sar', state.sarDate]
+    ];
+    return params
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => `${key}=${encodeURIComponent(String(value)).replace(/%2C/g, ',').replace(/%3A/g, ':')}`) // readable lists and ids
+      .join('&');
+  },
+
+  // `layerDefaults` is the initial layersVisible object, whose keys are the
+  // layers a link may switch on
+  parse: (hash: string, layerDefaults: LayerVisibility) => {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const state: ViewState = {};
+    const warnings: string[] = [];
+    if (![...params.keys()].length) return { state, warnings };
+
+    const version = params.get('v');
+    if (version !== String(CONFIG.views.version)) {
+      warnings.push(`Link version ${version || 'unknown'} is outdated, settings were applied where still valid`);
+    }
+    const view = params.get('view');
+    if (view !== null) {
+      if (viewStateUtils.views.includes(view)) state.activeView = view;
+      else warnings.push(`Unknown view "${view}"`);
+    }
+    const base = params.get('base');
+    if (base !== null) {
+      if (BASEMAPS[base]) state.basemap = base;
+      else warnings.push(`Unknown basemap "${base}"`);
+    }
+    const terrain = params.get('terrain');
+    if (terrain !== null) {
+      if (terrain === 'none' || TERRAIN_LAYERS[terrain]) state.terrain = terrain;
+      else warnings.push(`Unknown terrain layer "${terrain}"`);
+    }
+    const layers = params.get('layers');
+    if (layers !== null) {
+      const keys = layers.split(',').filter(Boolean);
+      keys.filter((key) => !(key in layerDefaults)).forEach((key) => warnings.push(`Unknown layer "${key}"`));
+      state.layersVisible = Object.fromEntries(Object.keys(layerDefaults).map((key) => [key, keys.includes(key)])) as LayerVisibility;
+    }
+    const at = params.get('at');
+    if (at !== null) {
+      const [lat, lon, zoom] = at.split(',').map(Number);
+      if (Math.abs(lat) <= 90 && Math.abs(lon) <= 180 && Number.isInteger(zoom) && zoom >= 0 && zoom <= 20) {
+        state.center = [lat, lon];
+        state.zoom = zoom;
+      } else {
+        warnings.push(`Invalid map position "${at}"`);
+      }
+    }
+    const feature = params.get('feature');
+    if (feature !== null) {
+      const [network, fid] = feature.split(':');
+      if (CONFIG.roads.networks[network] && fid) state.feature = feature;
+      else warnings.push(`Invalid road segment "${feature}"`);
+    }
+    const sarDate = params.get('sar');
+    if (sarDate !== null) {
+      if (/^\d{4}(-\d{2}(-\d{2})?)?$/.test(sarDate)) state.sarDate = sarDate;
+      else warnings.push(`Invalid SAR date "${sarDate}"`);
+    }
+    return { state, warnings };
+  },
+
+  loadSaved: (): SavedView[] => {
+    try {
+      return JSON.parse(localStorage.getItem(CONFIG.views.storageKey) || 'null') || [];
+    } catch (error) {
+      console.warn('Saved views could not be read:', error);
+      return [];
+    }
+  },
+
+  save: (views: SavedView[]) => localStorage.setItem(CONFIG.views.storageKey, JSON.stringify(views))
+};
@@ -0,0 +1,116 @@
+// Service worker for the Großglockner digital twin: keeps the app usable at the
+// pass when connectivity drops. Cache names must match CONFIG.offline.caches in
+// src/config.ts; the app fills them via "Download area for offline use".
+
+const CACHES = {
+  app: 'gg-app-v1', // app shell, CDN libraries, our GeoJSON/GeoPackage/COG data
+  tiles: 'gg-tiles-v1', // third-party basemap tiles as they are viewed, never prefetched
+  weather: 'gg-weather-v1'
+};
+const TILE_LIMIT = 2000; // basemap tiles kept, oldest dropped first
+
+const TILE_HOSTS = /(^|\.)(google\.com|tile\.openstreetmap\.org)$/;
+const WEATHER_HOSTS = /(^|\.)(open-meteo\.com|geosphere\.at)$/;
+const LIB_HOSTS = /^unpkg\.com$/;
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => {
+  const current = Object.values(CACHES);
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(names.filter((n) => n.startsWith('gg-') && !current.includes(n)).map((n) => caches.delete(n))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// COGs are read with HTTP range requests, which the Cache API can't store;
+// answer them from the cached full file instead. Slicing the Blob hands back
+// only the requested bytes rather than copying the whole COG into memory.
+// Suffix (bytes=-500) and multi-part ranges go to the network.
+const rangeResponse = async (request, cached) => {
+  const match = /^bytes=(\d+)-(\d*)$/.exec(request.headers.get('range'));
+  if (!match) return fetch(request);
+  const blob = await cached.blob();
+  const start = Number(match[1]);
+  const end = match[2] ? Math.min(Number(match[2]), blob.size - 1) : blob.size - 1;
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || 'application/octet-stream',
+      'Content-Range': `bytes ${start}-${end}/${blob.size}`,
+      'Content-Length': String(end - start + 1)
+    }
+  });
+};
+
+// Cache keys come back in insertion order, so trimming from the front drops the oldest
+const trimCache = async (cache, limit) => {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - limit)).map((key) => cache.delete(key)));
+};
+
+const cacheFirst = async (request, cacheName, limit = Infinity) => {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    cache.put(request, response.clone()).then(() => limit < Infinity && trimCache(cache, limit));
+  }
+  return response;
+};
+
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.status === 200) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreVary: true });
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Weather copies carry their fetch time so the app can flag stale forecasts
+const weatherNetworkFirst = async (request) => {
+  const cache = await caches.open(CACHES.weather);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      // Re-wrap the cloned stream so the body goes to the cache without buffering
+      const headers = new Headers(response.headers);
+      headers.set('X-Fetched-At', new Date().toISOString());
+      cache.put(request, new Response(response.clone().body, { status: 200, headers }));
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.headers.has('range')) {
+    event.respondWith(
+      caches.open(CACHES.app)
+        .then((cache) => cache.match(request.url))
+        .then((cached) => (cached ? rangeResponse(request, cached) : fetch(request)))
+    );
+  } else if (WEATHER_HOSTS.test(url.hostname)) {
+    event.respondWith(weatherNetworkFirst(request));
+  } else if (TILE_HOSTS.test(url.hostname)) {
+    event.respondWith(cacheFirst(request, CACHES.tiles, TILE_LIMIT));
+  } else if (LIB_HOSTS.test(url.hostname)) {
+    event.respondWith(cacheFirst(request, CACHES.app));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(request, CACHES.app));
+  }
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { crsUtils } from '../src/crs';
+
+const GROSSGLOCKNER = [12.6939, 47.0745];
+
+describe('crsUtils', () => {
+  it('round-trips WGS84 through MGI / Austria GK Central', () => {
+    const [x, y] = crsUtils.fromWgs84(31255, GROSSGLOCKNER);
+    const [lon, lat] = crsUtils.toWgs84(31255, [x, y]);
+    expect(lon).toBeCloseTo(GROSSGLOCKNER[0], 7);
+    expect(lat).toBeCloseTo(GROSSGLOCKNER[1], 7);
+  });
+
+  it('places the summit west of the GK Central meridian', () => {
+    const [x, y] = crsUtils.fromWgs84(31255, GROSSGLOCKNER);
+    // ~0.64° west of 13°20' is about 48 km; y is the meridian arc less the 5000 km false northing
+    expect(x).toBeGreaterThan(-50000);
+    expect(x).toBeLessThan(-47000);
+    expect(y).toBeGreaterThan(214000);
+    expect(y).toBeLessThan(216000);
+  });
+
+  it('round-trips WGS84 through ETRS89 / LAEA Europe', () => {
+    const [x, y] = crsUtils.fromWgs84(3035, GROSSGLOCKNER);
+    const [lon, lat] = crsUtils.toWgs84(3035, [x, y]);
+    expect(lon).toBeCloseTo(GROSSGLOCKNER[0], 7);
+    expect(lat).toBeCloseTo(GROSSGLOCKNER[1], 7);
+  });
+
+  it('maps the LAEA origin to the false easting and northing', () => {
+    const [x, y] = crsUtils.fromWgs84(3035, [10, 52]);
+    expect(x).toBeCloseTo(4321000, 3);
+    expect(y).toBeCloseTo(3210000, 3);
+    expect(crsUtils.toWgs84(3035, [4321000, 3210000])).toEqual([10, 52]);
+  });
+
+  it('keeps extra ordinates such as elevation', () => {
+    expect(crsUtils.fromWgs84(3035, [...GROSSGLOCKNER, 3798])[2]).toBe(3798);
+    expect(crsUtils.toWgs84(4326, [12, 47, 100])).toEqual([12, 47, 100]);
+  });
+
+  it('reads the legacy crs member of GDAL exports', () => {
+    const collection = (name?: string) => ({ type: 'FeatureCollection' as const, features: [], crs: { properties: { name } } });
+    expect(crsUtils.parseCrs(collection('urn:ogc:def:crs:EPSG::31255'))).toBe(31255);
+    expect(crsUtils.parseCrs(collection('urn:ogc:def:crs:OGC:1.3:CRS84'))).toBe(4326);
+    expect(crsUtils.parseCrs(null)).toBe(4326);
+    expect(() => crsUtils.parseCrs(collection('local grid'))).toThrow('Unrecognised CRS');
+    expect(() => crsUtils.getDefinition(32633)).toThrow('Unsupported CRS EPSG:32633');
+  });
+
+  it('reprojects a GeoJSON polygon and drops the crs member', () => {
+    const ring = [[0, 0], [1000, 0], [1000, 1000], [0, 1000], [0, 0]].map(([dx, dy]) => {
+      const [x, y] = crsUtils.fromWgs84(31255, GROSSGLOCKNER);
+      return [x + dx, y + dy];
+    });
+    const reprojected = crsUtils.reprojectGeoJSON({
+      type: 'FeatureCollection',
+      crs: { properties: { name: 'urn:ogc:def:crs:EPSG::31255' } },
+      features: [{ type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [ring] } }]
+    });
+    expect('crs' in reprojected).toBe(false);
+    const [[south, west], [north, east]] = crsUtils.getBounds(reprojected);
+    // Grid north is rotated against true north, so the corners are only close
+    expect(south).toBeCloseTo(GROSSGLOCKNER[1], 3);
+    expect(west).toBeCloseTo(GROSSGLOCKNER[0], 3);
+    expect(north).toBeGreaterThan(south);
+    expect(east).toBeGreaterThan(west);
+    expect(crsUtils.getAreaKm2(reprojected)).toBeCloseTo(1, 2);
+  });
+});
@@ -0,0 +1,105 @@
+import { crsUtils } from '../src/crs';
+import { Raster } from '../src/raster';
+import { DailyWeather, StationWeather } from '../src/weather';
+
+// Synthetic rasters for the tests: `res` m cells in ETRS89 / LAEA with the
+// north-west corner at the projection origin, values from z(column, row)
+export const grid = (width: number, height: number, z: (x: number, y: number) => number, res = 10): Raster => {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[y * width + x] = z(x, y);
+  }
+  return { width, height, data, epsg: 3035, bbox: [4321000, 3210000 - height * res, 4321000 + width * res, 3210000], resX: res, resY: res };
+};
+
+// WGS84 [lon, lat] of a position on a `grid`, in (fractional) cells from its north-west corner
+export const gridPosition = (raster: Raster, x: number, y: number) =>
+  crsUtils.toWgs84(raster.epsg, [raster.bbox[0] + x * raster.resX, raster.bbox[3] - y * raster.resY]);
+
+// A dry forecast day; tests override the values they are about
+export const day = (date: string, values: Partial<DailyWeather> = {}): DailyWeather => ({
+  date, tempMax: 5, tempMin: -1, snowfall: 0, precipitation: 0, gustMax: 20, condition: 0, ...values
+});
+
+// Road station weather with the given forecast days; current values are dry and mild
+export const stationWeather = (id: string, [lon, lat]: number[], elevation: number, daily: DailyWeather[],
+  values: Partial<StationWeather> = {}): StationWeather => ({
+  station: { id, name: `Station ${id}`, lat, lon, elevation },
+  temp: 3,
+  wind: 10,
+  windDirection: 270,
+  condition: 0,
+  snow: 0,
+  precipitation: 0,
+  freezingLevel: 2800,
+  roadCondition: 'dry',
+  daily,
+  ...values
+});
+
+// Minimal uncompressed, pixel-interleaved Float32 GeoTIFF (one strip) in the
+// given projected CRS, for reading through geotiff.js like a COG from the server
+export const geoTiff = (bands: number[][], width: number, height: number,
+  { epsg = 31255, origin = [-50000, 220000], res = 10, nodata = null as number | null } = {}) => {
+  const pixels = new Float32Array(width * height * bands.length);
+  bands.forEach((band, b) => band.forEach((v, i) => { pixels[i * bands.length + b] = v; }));
+  const perBand = (value: number) => bands.map(() => value);
+  const nodataText = nodata === null ? null : `${nodata}\0`;
+  // [tag, type (3 SHORT, 4 LONG, 12 DOUBLE, 2 ASCII), values]
+  const entries: [number, number, number[] | string][] = [
+    [256, 4, [width]],
+    [257, 4, [height]],
+    [258, 3, perBand(32)],
+    [259, 3, [1]],
+    [262, 3, [bands.length >= 3 ? 2 : 1]],
+    [273, 4, [0]], // strip offset, set below
+    [277, 3, [bands.length]],
+    [278, 4, [height]],
+    [279, 4, [pixels.byteLength]],
+    [284, 3, [1]],
+    [339, 3, perBand(3)],
+    [33550, 12, [res, res, 0]],
+    [33922, 12, [0, 0, 0, origin[0], origin[1], 0]],
+    // GTModelType projected, ProjectedCSType epsg
+    [34735, 3, [1, 1, 0, 2, 1024, 0, 1, 1, 3072, 0, 1, epsg]]
+  ];
+  if (nodataText) entries.push([42113, 2, nodataText]);
+
+  const size = (type: number) => ({ 2: 1, 3: 2, 4: 4, 12: 8 } as Record<number, number>)[type];
+  const ifdSize = 2 + entries.length * 12 + 4;
+  let extra = 8 + ifdSize;
+  const offsets = entries.map(([, type, values]) => {
+    const bytes = size(type) * values.length;
+    if (bytes <= 4) return null;
+    const at = extra;
+    extra += bytes + (bytes % 2);
+    return at;
+  });
+  const stripOffset = Math.ceil(extra / 4) * 4; // Float32 aligned
+  const buffer = new ArrayBuffer(stripOffset + pixels.byteLength);
+  const view = new DataView(buffer);
+  entries[5][2] = [stripOffset];
+
+  view.setUint16(0, 0x4949);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+  entries.forEach(([tag, type, values], e) => {
+    const entry = 10 + e * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, values.length, true);
+    const offset = offsets[e];
+    if (offset !== null) view.setUint32(entry + 8, offset, true);
+    let at = offset ?? entry + 8;
+    for (let i = 0; i < values.length; i++, at += size(type)) {
+      const value = values[i];
+      if (typeof value === 'string') view.setUint8(at, value.charCodeAt(0));
+      else if (type === 3) view.setUint16(at, value, true);
+      else if (type === 4) view.setUint32(at, value, true);
+      else view.setFloat64(at, value, true);
+    }
+  });
+  new Float32Array(buffer, stripOffset).set(pixels);
+  return buffer;
+};
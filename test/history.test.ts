@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { HistoryDay, HistoryInput, historyUtils } from '../src/history';
+
+const row = (source: string, values: Partial<HistoryInput>): HistoryInput => ({
+  stationId: 'hochtor',
+  date: '2026-01-10',
+  source,
+  ...values
+});
+
+const fold = (rows: HistoryInput[]) => rows.reduce<HistoryDay | undefined>(historyUtils.mergeDay, undefined)!;
+
+describe('historyUtils.mergeDay', () => {
+  it('keeps the daily extremes and largest totals of one source', () => {
+    const day = fold([
+      row('forecast', { temp: -4, wind: 30, snowfall: 6, alerts: ['snow-chains'] }),
+      row('forecast', { temp: -7, wind: 20, snowfall: 9, alerts: ['snow-chains', 'pass-storm'] })
+    ]);
+    expect(day).toMatchObject({ source: 'forecast', tempMin: -7, tempMax: -4, windMax: 30, snowfall: 9, samples: 2 });
+    expect(day.alerts).toEqual(['snow-chains', 'pass-storm']);
+  });
+
+  it('replaces forecast values with observed ones', () => {
+    const day = fold([
+      row('forecast', { temp: -12, wind: 80, snowfall: 15 }),
+      row('observed', { temp: -3, wind: 25 })
+    ]);
+    // The forecast snowfall stays, having no measured counterpart
+    expect(day).toMatchObject({ source: 'observed', tempMin: -3, tempMax: -3, windMax: 25, snowfall: 15, samples: 2 });
+  });
+
+  it('lets forecasts only fill gaps in an observed day', () => {
+    const day = fold([
+      row('observed', { temp: -3, wind: 25 }),
+      row('forecast', { temp: -12, wind: 80, snowfall: 15 }),
+      row('observed', { temp: -5, wind: 40 })
+    ]);
+    expect(day).toMatchObject({ source: 'observed', tempMin: -5, tempMax: -3, windMax: 40, snowfall: 15, samples: 3 });
+  });
+
+  it('counts archive rows as observed', () => {
+    const day = fold([
+      row('forecast', { tempMin: -9, tempMax: -2 }),
+      { stationId: 'hochtor', date: '2026-01-10', tempMin: -6, tempMax: -1 }
+    ]);
+    expect(day).toMatchObject({ source: 'observed', tempMin: -6, tempMax: -1 });
+  });
+});
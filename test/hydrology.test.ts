@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest';
+import { hydrologyUtils, runoffUtils } from '../src/hydrology';
+import { RoadFeature } from '../src/utils';
+import { day, grid, gridPosition, stationWeather } from './fixtures';
+
+// whitebox D8 pointers: 1 NE, 2 E, 4 SE, 8 S, 16 SW, 32 W, 64 NW, 128 N; 0 = no outflow
+//   →  →  →  ↓
+//   →  →  →  ↓
+//   →  →  →  ↓
+//   →  →  →  →   (leaves the grid)
+const RIVER = [
+  [2, 2, 2, 8],
+  [2, 2, 2, 8],
+  [2, 2, 2, 8],
+  [2, 2, 2, 2]
+];
+// Cells draining through each cell, itself included
+const RIVER_ACCUMULATION = [
+  [1, 2, 3, 4],
+  [1, 2, 3, 8],
+  [1, 2, 3, 12],
+  [1, 2, 3, 16]
+];
+
+const pointers = (rows: number[][], res = 10) => grid(rows[0].length, rows.length, (x, y) => rows[y][x], res);
+
+describe('hydrologyUtils.delineateCatchment', () => {
+  it('follows every D8 pointer code', () => {
+    // All eight neighbours point at the centre
+    const d8 = pointers([
+      [4, 8, 16],
+      [2, 0, 32],
+      [1, 128, 64]
+    ]);
+    const { mask, cells, areaKm2 } = hydrologyUtils.delineateCatchment(d8, 4);
+    expect(cells).toBe(9);
+    expect(Array.from(mask)).toEqual([1, 1, 1, 1, 1, 1, 1, 1, 1]);
+    expect(areaKm2).toBeCloseTo(9 * 100 / 1e6, 12);
+  });
+
+  it('ignores neighbours that drain elsewhere', () => {
+    // Same neighbours, none of them pointing at the centre
+    const d8 = pointers([
+      [2, 16, 8],
+      [1, 0, 16],
+      [128, 2, 128]
+    ]);
+    expect(hydrologyUtils.delineateCatchment(d8, 4).cells).toBe(1);
+  });
+
+  it('matches the flow accumulation of every cell', () => {
+    const d8 = pointers(RIVER);
+    const cells = RIVER.flatMap((row, y) => row.map((_, x) => hydrologyUtils.delineateCatchment(d8, y * 4 + x).cells));
+    expect(cells).toEqual(RIVER_ACCUMULATION.flat());
+  });
+
+  it('marks the upstream cells of a tributary only', () => {
+    const { mask } = hydrologyUtils.delineateCatchment(pointers(RIVER), 7);
+    expect(Array.from(mask)).toEqual([
+      1, 1, 1, 1,
+      1, 1, 1, 1,
+      0, 0, 0, 0,
+      0, 0, 0, 0
+    ]);
+  });
+
+  it('stops at flats without an outflow', () => {
+    const d8 = pointers([[2, 0, 2, 2]]);
+    expect(Array.from(hydrologyUtils.delineateCatchment(d8, 3).mask)).toEqual([0, 0, 1, 1]);
+    // The flat cell still collects what drains into it
+    expect(Array.from(hydrologyUtils.delineateCatchment(d8, 1).mask)).toEqual([1, 1, 0, 0]);
+  });
+
+  it('stops at nodata', () => {
+    const d8 = pointers([[2, 2, NaN, 2, 2]]);
+    expect(hydrologyUtils.delineateCatchment(d8, 4).cells).toBe(2);
+    expect(hydrologyUtils.delineateCatchment(d8, 2).cells).toBe(3);
+  });
+});
+
+describe('hydrologyUtils.snapPourPoint', () => {
+  const accumulation = pointers(RIVER_ACCUMULATION);
+
+  it('moves to the highest accumulation within the radius', () => {
+    expect(hydrologyUtils.snapPourPoint(accumulation, 6, 1)).toBe(11);
+    expect(hydrologyUtils.snapPourPoint(accumulation, 6, 2)).toBe(15);
+    expect(hydrologyUtils.snapPourPoint(accumulation, 6, 0)).toBe(6);
+  });
+
+  it('leaves a nodata cell for any valid one', () => {
+    const gappy = grid(3, 1, (x) => [NaN, 1, 2][x]);
+    expect(hydrologyUtils.snapPourPoint(gappy, 0, 1)).toBe(1);
+  });
+});
+
+describe('hydrologyUtils.catchmentAt', () => {
+  const d8 = pointers(RIVER);
+
+  it('snaps the clicked cell onto the stream', () => {
+    const [lon, lat] = gridPosition(d8, 1.5, 1.5);
+    const catchment = hydrologyUtils.catchmentAt(d8, pointers(RIVER_ACCUMULATION), lat, lon)!;
+    // Within CONFIG.hydrology.snapRadius (3 cells) of the outlet
+    expect(catchment.cells).toBe(16);
+    const [outletLon, outletLat] = gridPosition(d8, 3.5, 3.5);
+    expect(catchment.outlet.lon).toBeCloseTo(outletLon, 9);
+    expect(catchment.outlet.lat).toBeCloseTo(outletLat, 9);
+  });
+
+  it('uses the clicked cell without a matching accumulation grid', () => {
+    const [lon, lat] = gridPosition(d8, 1.5, 1.5);
+    expect(hydrologyUtils.catchmentAt(d8, null, lat, lon)!.cells).toBe(2);
+    expect(hydrologyUtils.catchmentAt(d8, grid(2, 2, () => 1), lat, lon)!.cells).toBe(2);
+  });
+
+  it('returns null outside the grid', () => {
+    const [lon, lat] = gridPosition(d8, 5.5, 1.5);
+    expect(hydrologyUtils.catchmentAt(d8, null, lat, lon)).toBeNull();
+  });
+});
+
+describe('runoffUtils', () => {
+  it('finds where a road crosses a stream', () => {
+    // Stream down the middle column, accumulation growing downstream
+    const accumulation = grid(5, 5, (x, y) => (x === 2 ? 4900 + 100 * y : 10));
+    const road: RoadFeature = {
+      type: 'Feature',
+      properties: { name: 'Glocknerstraße', highway: 'primary' },
+      geometry: { type: 'LineString', coordinates: [gridPosition(accumulation, 0.2, 2.5), gridPosition(accumulation, 4.8, 2.5)] }
+    };
+    const crossings = runoffUtils.findCrossings([road], accumulation);
+    expect(crossings).toHaveLength(1);
+    expect(crossings[0]).toMatchObject({ index: 12, accumulation: 5100, road: 'Glocknerstraße' });
+    expect(runoffUtils.findCrossings([road], accumulation, 6000)).toEqual([]);
+  });
+
+  it('adds snowmelt to rain, limited by the snowpack', () => {
+    const inputs = runoffUtils.waterInputs([
+      day('2026-04-01', { snowfall: 7, precipitation: 10, tempMax: -2, tempMin: -8 }),
+      day('2026-04-02', { tempMax: 10, tempMin: 2 }),
+      day('2026-04-03', { tempMax: 10, tempMin: 2, precipitation: 3 })
+    ]);
+    // 7 cm of fresh snow hold the day's 10 mm; 6 °C melts 27 mm but only 10 mm are there
+    expect(inputs).toEqual([0, 10, 3]);
+    expect(runoffUtils.waterInputs([day('2026-04-02', { tempMax: 10, tempMin: 2 })], 100)).toEqual([27]);
+  });
+
+  it('scores crossings by the wettest forecast day of the nearest station', () => {
+    const d8 = pointers(RIVER, 100);
+    const crossing = (x: number, y: number) => {
+      const [lon, lat] = gridPosition(d8, x + 0.5, y + 0.5);
+      return { index: y * 4 + x, accumulation: RIVER_ACCUMULATION[y][x], lat, lon, road: 'Glocknerstraße' };
+    };
+    const [stationLon, stationLat] = gridPosition(d8, 2, 2);
+    const weather = [stationWeather('pass', [stationLon, stationLat], 2400, [
+      day('2026-06-01', { precipitation: 10, tempMin: 4, tempMax: 12 }),
+      day('2026-06-02', { precipitation: 30, tempMin: 4, tempMax: 12 }),
+      day('2026-06-03', { precipitation: 5, tempMin: 4, tempMax: 12 }),
+      // Beyond CONFIG.runoff.forecastDays
+      day('2026-06-04', { precipitation: 100, tempMin: 4, tempMax: 12 })
+    ])];
+
+    const [outlet, headwater] = runoffUtils.assessCrossings([crossing(1, 0), crossing(3, 3)], d8, weather);
+    // 16 cells of 1 ha, 30 mm, half of it running off
+    expect(outlet).toMatchObject({ id: 'crossing-2', station: 'Station pass', date: '2026-06-02', waterInput: 30 });
+    expect(outlet.areaKm2).toBeCloseTo(0.16, 9);
+    expect(outlet.volume).toBeCloseTo(2400, 6);
+    expect(outlet.risk.level).toBe('moderate');
+    expect(headwater).toMatchObject({ id: 'crossing-1', date: '2026-06-02' });
+    expect(headwater.volume).toBeCloseTo(300, 6);
+    expect(headwater.risk.level).toBe('low');
+  });
+
+  it('scores nothing without weather or outside the D8 grid', () => {
+    const d8 = pointers(RIVER);
+    const [lon, lat] = gridPosition(d8, 6.5, 0.5);
+    const [assessed] = runoffUtils.assessCrossings([{ index: 0, accumulation: 1, lat, lon, road: 'track' }], d8, []);
+    expect(assessed).toMatchObject({ areaKm2: 0, station: null, date: null, waterInput: 0, volume: 0 });
+    expect(assessed.risk.level).toBe('low');
+  });
+});
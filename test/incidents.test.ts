@@ -0,0 +1,128 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CONFIG } from '../src/config';
+import { idbDone } from '../src/history';
+import { INCIDENT_SYNC_ADAPTERS, Incident, incidentUtils } from '../src/incidents';
+
+const SYNC_URL = CONFIG.incidents.syncUrl;
+const rest = INCIDENT_SYNC_ADAPTERS.rest!;
+
+const incident = (id: string, updatedAt: string, fields: Partial<Incident> = {}): Incident => ({
+  id,
+  geometry: { type: 'Point', coordinates: [12.8434, 47.0826] },
+  category: 'rockfall',
+  severity: 'warning',
+  status: 'open',
+  notes: '',
+  photos: [],
+  createdAt: '2026-06-01T08:00:00.000Z',
+  updatedAt,
+  ...fields
+});
+
+// The REST endpoint as incident_mock_server.js implements it: PUT keeps the
+// later updatedAt and stamps syncedAt, GET returns what was stored after `since`
+const stubServer = (stored: Incident[] = []) => {
+  const incidents = Object.fromEntries(stored.map((i) => [i.id, i]));
+  let clock = Date.parse('2026-06-01T12:00:00.000Z');
+  const fetch = vi.fn(async (url: string, init: RequestInit = {}) => {
+    if (init.method === 'PUT') {
+      const body: Incident = JSON.parse(init.body as string);
+      const current = incidents[body.id];
+      if (!current || current.updatedAt <= body.updatedAt) {
+        incidents[body.id] = { ...body, syncedAt: new Date(++clock).toISOString() };
+      }
+      return { ok: true, status: 200, json: async () => incidents[body.id] };
+    }
+    const since = new URLSearchParams(url.split('?')[1]).get('since') || '';
+    return { ok: true, status: 200, json: async () => Object.values(incidents).filter((i) => i.syncedAt! > since) };
+  });
+  vi.stubGlobal('fetch', fetch);
+  return { incidents, fetch };
+};
+
+const putLocal = async (...incidents: Incident[]) => {
+  const db = await incidentUtils.open();
+  const tx = db.transaction('incidents', 'readwrite');
+  incidents.forEach((i) => tx.objectStore('incidents').put(i));
+  await idbDone(tx);
+};
+
+const local = async () => Object.fromEntries((await incidentUtils.loadAll()).map((i) => [i.id, i]));
+
+describe('incidentUtils.sync', () => {
+  beforeEach(async () => {
+    vi.stubGlobal('window', { indexedDB });
+    const db = await incidentUtils.open();
+    const tx = db.transaction(['incidents', 'meta'], 'readwrite');
+    tx.objectStore('incidents').clear();
+    tx.objectStore('meta').clear();
+    await idbDone(tx);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('pushes local changes and marks them synced', async () => {
+    const { incidents, fetch } = stubServer();
+    await putLocal(
+      incident('rock-1', '2026-06-01T09:00:00.000Z', { synced: false }),
+      incident('tree-1', '2026-06-01T07:00:00.000Z', { category: 'fallen-tree', synced: true })
+    );
+
+    await expect(incidentUtils.sync(rest)).resolves.toEqual({ pushed: 1, pulled: 1 });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe(`${SYNC_URL}/rock-1`);
+    expect(init!.method).toBe('PUT');
+    expect(JSON.parse(init!.body as string)).not.toHaveProperty('synced');
+    expect(incidents['rock-1'].syncedAt).toBe('2026-06-01T12:00:00.001Z');
+    expect((await local())['rock-1'].synced).toBe(true);
+  });
+
+  it('pulls what changed since the last sync and applies tombstones', async () => {
+    const { incidents, fetch } = stubServer([
+      incident('rock-1', '2026-06-01T09:00:00.000Z', { syncedAt: '2026-06-01T10:00:00.000Z' }),
+      incident('drift-1', '2026-06-01T09:30:00.000Z', { category: 'snow-drift', syncedAt: '2026-06-01T10:05:00.000Z' })
+    ]);
+    await incidentUtils.sync(rest);
+    expect(fetch).toHaveBeenLastCalledWith(SYNC_URL);
+    expect(Object.keys(await local()).sort()).toEqual(['drift-1', 'rock-1']);
+
+    // Another client cleared the drift
+    incidents['drift-1'] = {
+      ...incidents['drift-1'], deleted: true, updatedAt: '2026-06-01T11:00:00.000Z', syncedAt: '2026-06-01T11:00:01.000Z'
+    };
+    await expect(incidentUtils.sync(rest)).resolves.toEqual({ pushed: 0, pulled: 1 });
+    expect(fetch).toHaveBeenLastCalledWith(`${SYNC_URL}?since=${encodeURIComponent('2026-06-01T10:05:00.000Z')}`);
+    expect(Object.keys(await local())).toEqual(['rock-1']);
+
+    await expect(incidentUtils.sync(rest)).resolves.toEqual({ pushed: 0, pulled: 0 });
+    expect(fetch).toHaveBeenLastCalledWith(`${SYNC_URL}?since=${encodeURIComponent('2026-06-01T11:00:01.000Z')}`);
+  });
+
+  it('keeps the later edit when both sides changed', async () => {
+    stubServer([
+      incident('rock-1', '2026-06-01T10:00:00.000Z', { notes: 'server, newer', syncedAt: '2026-06-01T10:00:01.000Z' }),
+      incident('rail-1', '2026-06-01T08:00:00.000Z', { category: 'guardrail', notes: 'server, older', syncedAt: '2026-06-01T08:00:01.000Z' })
+    ]);
+    await putLocal(
+      incident('rock-1', '2026-06-01T09:00:00.000Z', { notes: 'local, older', synced: true }),
+      incident('rail-1', '2026-06-01T09:00:00.000Z', { category: 'guardrail', notes: 'local, newer', synced: false })
+    );
+
+    await incidentUtils.sync(rest);
+    const after = await local();
+    expect(after['rock-1']).toMatchObject({ notes: 'server, newer', synced: true });
+    expect(after['rail-1']).toMatchObject({ notes: 'local, newer', synced: true });
+  });
+
+  it('removes a local tombstone once the server has it', async () => {
+    const { incidents } = stubServer([incident('rock-1', '2026-06-01T09:00:00.000Z', { syncedAt: '2026-06-01T09:00:01.000Z' })]);
+    await putLocal(incident('rock-1', '2026-06-01T11:00:00.000Z', { deleted: true, synced: false }));
+
+    await incidentUtils.sync(rest);
+    expect(incidents['rock-1'].deleted).toBe(true);
+    expect(await local()).toEqual({});
+  });
+});
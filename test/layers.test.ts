@@ -0,0 +1,56 @@
+import type { Layer, Map as LeafletMap } from 'leaflet';
+import { describe, expect, it, vi } from 'vitest';
+import { createLayerRegistry } from '../src/layers';
+
+// Just enough of Leaflet's Map and Layer to see what the registry adds and removes
+const mockMap = () => {
+  const shown = new Set<Layer>();
+  const map = { removeLayer: vi.fn((layer: Layer) => shown.delete(layer)) };
+  return { map: map as unknown as LeafletMap, shown, removeLayer: map.removeLayer };
+};
+
+const mockLayer = (shown: Set<Layer>) => {
+  const layer = { addTo: vi.fn(() => shown.add(layer as unknown as Layer) && layer) };
+  return layer as unknown as Layer;
+};
+
+describe('createLayerRegistry', () => {
+  it('replaces the layer held under a key', () => {
+    const { map, shown } = mockMap();
+    const layers = createLayerRegistry();
+    layers.attach(map);
+    const first = layers.set('drawing', mockLayer(shown));
+    const second = layers.set('drawing', mockLayer(shown));
+    expect(layers.get('drawing')).toBe(second);
+    expect([...shown]).toEqual([second]);
+    expect(shown.has(first)).toBe(false);
+  });
+
+  it('keeps hidden layers registered until removed', () => {
+    const { map, shown } = mockMap();
+    const layers = createLayerRegistry();
+    layers.attach(map);
+    const hand = layers.set('hand', mockLayer(shown), false);
+    expect(shown.size).toBe(0);
+    layers.show('hand', true);
+    expect(shown.has(hand)).toBe(true);
+    layers.show('hand', false);
+    expect(shown.has(hand)).toBe(false);
+    expect(layers.get('hand')).toBe(hand);
+    layers.remove('hand');
+    expect(layers.get('hand')).toBeNull();
+  });
+
+  it('holds layers before a map is attached', () => {
+    const { map, shown, removeLayer } = mockMap();
+    const layers = createLayerRegistry();
+    const aoi = layers.set('aoi', mockLayer(shown));
+    expect(aoi.addTo).not.toHaveBeenCalled();
+    layers.attach(map);
+    layers.show('aoi', true);
+    expect(aoi.addTo).toHaveBeenCalledWith(map);
+    layers.clear();
+    expect(removeLayer).toHaveBeenCalledWith(aoi);
+    expect(layers.get('aoi')).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import * as GeoTIFF from 'geotiff';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { rasterUtils, terrainUtils } from '../src/raster';
+import { geoTiff, grid, gridPosition } from './fixtures';
+
+describe('terrainUtils.gradients', () => {
+  it('recovers the slope of an inclined plane with Horn differences', () => {
+    // Rises 1 m per 10 m cell towards the east
+    const dem = grid(5, 5, (x) => 100 + x);
+    const { dzdx, dzdy } = terrainUtils.gradients(dem);
+    const i = 2 * 5 + 2;
+    expect(dzdx[i]).toBeCloseTo(0.1, 6);
+    expect(dzdy[i]).toBeCloseTo(0, 6);
+    expect(terrainUtils.slopeAt(dzdx[i], dzdy[i])).toBeCloseTo(Math.atan(0.1) * 180 / Math.PI, 4);
+    // A slope rising to the east faces west
+    expect(terrainUtils.aspectAt(dzdx[i], dzdy[i])).toBeCloseTo(270, 6);
+  });
+
+  it('reports aspect clockwise from north', () => {
+    // Rows run south, so a plane rising to the north faces south
+    const dem = grid(5, 5, (x, y) => 100 - 2 * y);
+    const { dzdx, dzdy } = terrainUtils.gradients(dem);
+    const aspect = terrainUtils.aspect({ dzdx, dzdy })[12];
+    expect(aspect).toBeCloseTo(180, 6);
+    expect(terrainUtils.compassDirection(aspect)).toBe('S');
+    expect(terrainUtils.compassDirection(terrainUtils.aspectAt(-1, 1))).toBe('NE');
+  });
+
+  it('treats flat ground as aspect -1', () => {
+    const { dzdx, dzdy } = terrainUtils.gradients(grid(3, 3, () => 2500));
+    expect(terrainUtils.slopeAt(dzdx[4], dzdy[4])).toBe(0);
+    expect(terrainUtils.aspectAt(dzdx[4], dzdy[4])).toBe(-1);
+    expect(terrainUtils.compassDirection(-1)).toBe('flat');
+  });
+
+  it('lights flat ground by the sun altitude only', () => {
+    const gradients = terrainUtils.gradients(grid(3, 3, () => 2500));
+    const shade = terrainUtils.hillshade(gradients, { azimuth: 315, altitude: 45 });
+    expect(shade[4]).toBeCloseTo(255 * Math.sin(Math.PI / 4), 3);
+  });
+});
+
+describe('rasterUtils', () => {
+  it('samples the nearest cell and returns NaN outside', () => {
+    const raster = grid(4, 3, (x, y) => y * 4 + x);
+    const [lon, lat] = gridPosition(raster, 2.5, 1.5);
+    expect(rasterUtils.sample(raster, raster.data, lon, lat)).toBe(6);
+    const [outLon, outLat] = gridPosition(raster, -2.5, 0.5);
+    expect(rasterUtils.sample(raster, raster.data, outLon, outLat)).toBeNaN();
+  });
+
+  it('interpolates bilinearly between cell centres', () => {
+    const raster = grid(4, 4, (x, y) => 10 * x + y);
+    const [lon, lat] = gridPosition(raster, 2, 2);
+    // Midway between the centres of cells 1 and 2 in both directions
+    expect(rasterUtils.sampleBilinear(raster, raster.data, lon, lat)).toBeCloseTo(16.5, 3);
+  });
+
+  it('skips nodata in the statistics', () => {
+    expect(rasterUtils.getStats([1, NaN, 3, 8])).toEqual({ min: 1, max: 8, mean: 4, count: 3 });
+    expect(rasterUtils.getStats([NaN, NaN])).toBeNull();
+  });
+
+  it('converts geographic cell sizes to metres', () => {
+    const [cellX, cellY] = rasterUtils.cellSize({ width: 1, height: 1, epsg: 4326, bbox: [12, 59.5, 13, 60.5], resX: 1, resY: 1 });
+    expect(cellX).toBeCloseTo(111320 / 2, 0);
+    expect(cellY).toBe(110574);
+  });
+
+  it('masks the cell centres inside a polygon', () => {
+    const raster = grid(4, 4, () => 0);
+    const ring = [[0.9, 0.9], [3.1, 0.9], [3.1, 3.1], [0.9, 3.1], [0.9, 0.9]]
+      .map(([x, y]) => gridPosition(raster, x, y));
+    const mask = rasterUtils.polygonMask(raster, [[ring]]);
+    expect(Array.from(mask)).toEqual([
+      0, 0, 0, 0,
+      0, 1, 1, 0,
+      0, 1, 1, 0,
+      0, 0, 0, 0
+    ]);
+  });
+});
+
+// COG fixtures served by URL; libs.ts keeps the first window.GeoTIFF it sees,
+// so all readers share one stub
+const inside = (i: number) => [i % 8, Math.floor(i / 8)].every((v) => v >= 2 && v <= 5);
+// 8 × 8 DTM clipped to the AOI: a two-cell nodata border around 2000–2015 m
+const dtm = Array.from({ length: 64 }, (_, i) => (inside(i) ? 2000 + (Math.floor(i / 8) - 2) * 4 + (i % 8) - 2 : -9999));
+// 8 × 8 RGB orthophoto with a two-pixel black (nodata 0) collar
+const band = (value: number) => Array.from({ length: 64 }, (_, i) => (inside(i) ? value : 0));
+const TIFFS: Record<string, ArrayBuffer> = {
+  'dtm_cog.tif': geoTiff([dtm], 8, 8, { nodata: -9999 }),
+  'orthophoto_cog.tif': geoTiff([band(200), band(180), band(120)], 8, 8, { nodata: 0 })
+};
+
+beforeAll(() => {
+  vi.stubGlobal('window', { GeoTIFF: { ...GeoTIFF, fromUrl: async (url: string) => GeoTIFF.fromArrayBuffer(TIFFS[url]) } });
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('rasterUtils.loadRaster', () => {
+  it('masks nodata so the stats cover the valid cells only', async () => {
+    const raster = await rasterUtils.loadRaster('dtm_cog.tif');
+    expect(raster).toMatchObject({ width: 8, height: 8, epsg: 31255, resX: 10, resY: 10 });
+    expect(raster.bbox).toEqual([-50000, 219920, -49920, 220000]);
+    expect(rasterUtils.getStats(raster.data)).toEqual({ min: 2000, max: 2015, mean: 2007.5, count: 16 });
+  });
+
+  it('keeps nodata out of downsampled reads', async () => {
+    // 8 → 5 cells, so output cells fall between input cells
+    const raster = await rasterUtils.loadRaster('dtm_cog.tif', { maxSize: 5 });
+    expect(raster).toMatchObject({ width: 5, height: 5, resX: 16, resY: 16 });
+    // Every cell is a DTM value or nodata, never a blend of the two
+    Array.from(raster.data).forEach((v) => expect(Number.isNaN(v) || dtm.includes(v)).toBe(true));
+    const stats = rasterUtils.getStats(raster.data)!;
+    expect(stats.min).toBeGreaterThanOrEqual(2000);
+    expect(stats.max).toBeLessThanOrEqual(2015);
+  });
+});
+
+describe('rasterUtils.loadImage', () => {
+  it('cuts the nodata collar cleanly in downsampled reads', async () => {
+    const image = await rasterUtils.loadImage('orthophoto_cog.tif', 5);
+    expect(image).toMatchObject({ width: 5, height: 5, epsg: 31255 });
+    for (let i = 0; i < 25; i++) {
+      const pixel = Array.from(image.rgba.slice(i * 4, i * 4 + 4));
+      // Either fully transparent or the unblended image colour, no dark fringe
+      if (pixel[3] === 0) expect(pixel.slice(0, 3)).toEqual([0, 0, 0]);
+      else expect(pixel).toEqual([200, 180, 120, 255]);
+    }
+  });
+});
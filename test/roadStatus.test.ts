@@ -0,0 +1,118 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RoadStatusRule, roadStatusUtils } from '../src/roadStatus';
+import { day, stationWeather } from './fixtures';
+
+const RULES: RoadStatusRule[] = [
+  {
+    id: 'snow-chains',
+    title: 'Snow chains required',
+    message: '{snowfall} cm fresh snow expected at {elevation} m',
+    severity: 'warning',
+    when: { metric: 'snowfall', op: '>', value: 5 }
+  },
+  {
+    id: 'pass-storm',
+    severity: 'critical',
+    closesRoad: true,
+    when: {
+      all: [
+        { metric: 'elevation', op: '>=', value: 2300 },
+        { any: [{ metric: 'gustMax', op: '>', value: 100 }, { metric: 'wind', op: '>', value: 80 }] }
+      ]
+    }
+  }
+];
+
+const localMidnight = (date: string) => new Date(`${date}T00:00`).toISOString();
+
+describe('roadStatusUtils.matches', () => {
+  const { when } = RULES[1];
+
+  it('combines all and any groups', () => {
+    expect(roadStatusUtils.matches(when, { elevation: 2500, gustMax: 120, wind: null })).toBe(true);
+    expect(roadStatusUtils.matches(when, { elevation: 2500, gustMax: 60, wind: 90 })).toBe(true);
+    expect(roadStatusUtils.matches(when, { elevation: 2000, gustMax: 120, wind: 90 })).toBe(false);
+  });
+
+  it('never matches a missing metric', () => {
+    expect(roadStatusUtils.matches({ metric: 'temp', op: '<', value: 0 }, { temp: null })).toBe(false);
+    expect(roadStatusUtils.matches({ metric: 'temp', op: '<', value: 0 }, {})).toBe(false);
+  });
+});
+
+describe('roadStatusUtils.formatMessage', () => {
+  it('fills in rounded metrics and dashes for missing ones', () => {
+    expect(roadStatusUtils.formatMessage('{snowfall} cm at {elevation} m, {temp} °C', { snowfall: 12.345, elevation: 2504 }))
+      .toBe('12.3 cm at 2504 m, — °C');
+  });
+});
+
+describe('roadStatusUtils.validateRules', () => {
+  it('accepts well-formed rules', () => {
+    expect(roadStatusUtils.validateRules({ rules: RULES })).toEqual(RULES);
+    expect(roadStatusUtils.validateRules(null)).toEqual([]);
+  });
+
+  it('rejects unknown severities and operators', () => {
+    expect(() => roadStatusUtils.validateRules({ rules: [{ ...RULES[0], severity: 'extreme' }] }))
+      .toThrow('Rule "snow-chains" is missing id, severity or when');
+    expect(() => roadStatusUtils.validateRules({
+      rules: [{ ...RULES[1], when: { all: [{ metric: 'gustMax', op: '=>', value: 100 }] } }]
+    })).toThrow('Rule "pass-storm" has an invalid condition');
+  });
+});
+
+describe('roadStatusUtils.loadRules', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('validates the fetched rules file', async () => {
+    const fetch = vi.fn().mockResolvedValue({ ok: true, json: async () => ({ version: 1, rules: RULES }) });
+    vi.stubGlobal('fetch', fetch);
+    await expect(roadStatusUtils.loadRules('config/road_status_rules.json')).resolves.toEqual(RULES);
+    expect(fetch).toHaveBeenCalledWith('config/road_status_rules.json');
+  });
+
+  it('reports a failed request', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+    await expect(roadStatusUtils.loadRules('missing.json')).rejects.toThrow('Road status rules request failed: 404 missing.json');
+  });
+});
+
+describe('roadStatusUtils.evaluate', () => {
+  const now = new Date('2026-01-10T09:00:00');
+
+  it('merges consecutive days into one alert per rule and station', () => {
+    const weather = [stationWeather('pass', [12.78, 47.08], 2504, [
+      day('2026-01-10', { snowfall: 8 }),
+      day('2026-01-11', { snowfall: 12 }),
+      day('2026-01-12'),
+      day('2026-01-13', { snowfall: 6 })
+    ])];
+    const alerts = roadStatusUtils.evaluate([RULES[0]], weather, now);
+    expect(alerts.map((a) => [a.id, a.validFrom, a.validTo])).toEqual([
+      ['snow-chains:pass:2026-01-10', now.toISOString(), localMidnight('2026-01-12')],
+      ['snow-chains:pass:2026-01-13', localMidnight('2026-01-13'), localMidnight('2026-01-14')]
+    ]);
+    expect(alerts[0].message).toBe('8 cm fresh snow expected at 2504 m');
+    expect(alerts[0].closesRoad).toBe(false);
+  });
+
+  it('tests current values on the first day only and sorts by severity', () => {
+    const windy = { wind: 90 };
+    const weather = [
+      stationWeather('valley', [12.82, 47.12], 1300, [day('2026-01-10', { snowfall: 10 })], windy),
+      stationWeather('pass', [12.78, 47.08], 2504, [day('2026-01-10'), day('2026-01-11')], windy)
+    ];
+    const alerts = roadStatusUtils.evaluate(RULES, weather, now);
+    expect(alerts.map((a) => a.id)).toEqual(['pass-storm:pass:2026-01-10', 'snow-chains:valley:2026-01-10']);
+    expect(alerts[0]).toMatchObject({ title: 'pass-storm', closesRoad: true, validTo: localMidnight('2026-01-11') });
+  });
+
+  it('is active between validFrom and validTo', () => {
+    const [alert] = roadStatusUtils.evaluate([RULES[0]], [stationWeather('pass', [12.78, 47.08], 2504, [day('2026-01-10', { snowfall: 8 })])], now);
+    expect(roadStatusUtils.isActive(alert, now)).toBe(true);
+    expect(roadStatusUtils.isActive(alert, new Date('2026-01-11T00:00'))).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import type { Position } from 'geojson';
+import { describe, expect, it } from 'vitest';
+import { RoadAlert } from '../src/roadStatus';
+import { Raster } from '../src/raster';
+import { Route, routingUtils } from '../src/routing';
+import { RoadCollection, RoadProperties } from '../src/utils';
+import { stationWeather } from './fixtures';
+
+// A — B — C along a primary road, with a longer track A — D — C to the north
+const A = [12.70, 47.07];
+const B = [12.71, 47.07];
+const C = [12.72, 47.07];
+const D = [12.71, 47.08];
+
+const road = (u: number, v: number, coordinates: Position[], properties: Partial<RoadProperties> = {}) => ({
+  type: 'Feature' as const,
+  properties: { u, v, highway: 'primary', ...properties },
+  geometry: { type: 'LineString' as const, coordinates }
+});
+
+const network = (...features: ReturnType<typeof road>[]): RoadCollection => ({ type: 'FeatureCollection', features });
+
+const roads = network(
+  road(1, 2, [A, B], { name: 'Glocknerstraße' }),
+  road(2, 3, [B, C], { name: 'Glocknerstraße' }),
+  road(1, 4, [A, D], { highway: 'track' }),
+  road(4, 3, [D, C], { highway: 'track' })
+);
+
+// Rises 100 m per 0.01° towards the east
+const slope: Raster = {
+  width: 4,
+  height: 3,
+  data: new Float32Array([2000, 2100, 2200, 2300, 2000, 2100, 2200, 2300, 2000, 2100, 2200, 2300]),
+  epsg: 4326,
+  bbox: [12.69, 47.06, 12.73, 47.09],
+  resX: 0.01,
+  resY: 0.01
+};
+
+const found = (result: Route | { error: string }) => {
+  if ('error' in result) throw new Error(result.error);
+  return result;
+};
+
+describe('routingUtils.buildGraph', () => {
+  it('joins edges at shared endpoints', () => {
+    const graph = routingUtils.buildGraph(roads, null, 'drive');
+    expect(graph.nodes).toHaveLength(4);
+    expect(graph.edges.map((edge) => edge.id)).toEqual(['1-2', '2-3', '1-4', '3-4']);
+    const a = graph.nodes.find((node) => node.key === routingUtils.nodeKey(A))!;
+    expect(a.links.map((link) => link.node.key)).toEqual([routingUtils.nodeKey(B), routingUtils.nodeKey(D)]);
+  });
+
+  it('links oneway edges in their line direction only', () => {
+    const graph = routingUtils.buildGraph(network(road(1, 2, [A, B], { oneway: true })), null, 'drive');
+    const [a, b] = graph.nodes;
+    expect(a.links).toHaveLength(1);
+    expect(b.links).toHaveLength(0);
+  });
+
+  it('costs climbs per direction from the DTM', () => {
+    const [edge] = routingUtils.buildGraph(network(road(1, 2, [A, B])), slope, 'bike').edges;
+    expect(edge.forward.ascent).toBeCloseTo(100, 0);
+    expect(edge.backward.ascent).toBeCloseTo(0, 6);
+    expect(edge.forward.time).toBeGreaterThan(edge.backward.time);
+  });
+});
+
+describe('routingUtils.route', () => {
+  it('takes the fastest path', () => {
+    const graph = routingUtils.buildGraph(roads, null, 'drive');
+    const route = found(routingUtils.route(graph, A, C, new Set()));
+    expect(route.edges.map((edge) => edge.id)).toEqual(['1-2', '2-3']);
+    expect(route.coordinates).toEqual([A, B, C]);
+    expect(route.distance).toBeCloseTo(route.edges[0].length + route.edges[1].length, 6);
+    // 50 km/h on primary roads
+    expect(route.time).toBeCloseTo(route.distance / (50 / 3.6), 3);
+  });
+
+  it('detours around closed segments', () => {
+    const graph = routingUtils.buildGraph(roads, null, 'drive');
+    const route = found(routingUtils.route(graph, C, A, new Set(['2-3'])));
+    expect(route.edges.map((edge) => edge.id)).toEqual(['3-4', '1-4']);
+    expect(route.coordinates).toEqual([C, D, A]);
+  });
+
+  it('reports ascent and descent for the direction travelled', () => {
+    const graph = routingUtils.buildGraph(roads, slope, 'bike');
+    const up = found(routingUtils.route(graph, A, C, new Set()));
+    const down = found(routingUtils.route(graph, C, A, new Set()));
+    expect(up.ascent).toBeCloseTo(200, 0);
+    expect(up.descent).toBeCloseTo(0, 6);
+    expect(down.descent).toBeCloseTo(200, 0);
+    expect(down.time).toBeLessThan(up.time);
+  });
+
+  it('explains why no route was found', () => {
+    const graph = routingUtils.buildGraph(roads, null, 'drive');
+    expect(routingUtils.route(graph, [13.5, 47.5], C, new Set())).toEqual({
+      error: 'No car network junction within 500 m of the origin'
+    });
+    expect(routingUtils.route(graph, A, C, new Set(['2-3', '3-4']))).toEqual({ error: 'No open route between origin and destination' });
+  });
+});
+
+describe('routingUtils.alertClosures', () => {
+  const alert = (stationId: string, closesRoad: boolean): RoadAlert => ({
+    id: `heavy-snow-closure:${stationId}:2026-01-01`,
+    ruleId: 'heavy-snow-closure',
+    severity: 'critical',
+    title: 'Closure likely: heavy snowfall',
+    message: '',
+    segment: { stationId, name: stationId, elevation: 2500, lat: 47.07, lon: 12.7 },
+    closesRoad,
+    validFrom: new Date(Date.now() - 3600 * 1000).toISOString(),
+    validTo: new Date(Date.now() + 3600 * 1000).toISOString()
+  });
+  // Edges are matched by their midpoint, which for two-point lines is the end
+  // point, so only the edges ending at C are nearest to the east station
+  const stations = [stationWeather('west', A, 2000, []), stationWeather('east', [12.73, 47.07], 2300, [])];
+
+  it('closes the segments nearest to stations with active closing alerts', () => {
+    const graph = routingUtils.buildGraph(roads, null, 'drive');
+    expect(routingUtils.alertClosures(graph, [alert('east', true)], stations).sort()).toEqual(['2-3', '3-4']);
+    expect(routingUtils.alertClosures(graph, [alert('east', false)], stations)).toEqual([]);
+  });
+
+  it('leaves walking routes open', () => {
+    const graph = routingUtils.buildGraph(roads, null, 'walk');
+    expect(routingUtils.alertClosures(graph, [alert('east', true)], stations)).toEqual([]);
+  });
+});
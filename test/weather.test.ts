@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StationMeta, getWeatherProvider, weatherUtils } from '../src/weather';
+
+const STATIONS: StationMeta[] = [
+  { id: 'fuscher-toerl', name: 'Fuscher Törl', lat: 47.1225, lon: 12.8103, elevation: 2428 },
+  { id: 'heiligenblut', name: 'Heiligenblut', lat: 47.0393, lon: 12.8428, elevation: 1288 }
+];
+
+// Answers each request with the body of the first route whose key the URL
+// starts with; unknown URLs fail like an unreachable server would
+const stubFetch = (routes: Record<string, unknown>, headers: Record<string, string> = {}) => {
+  const fetch = vi.fn(async (url: string) => {
+    const key = Object.keys(routes).find((prefix) => url.startsWith(prefix));
+    if (!key) throw new TypeError('Failed to fetch');
+    return { ok: true, status: 200, json: async () => routes[key], headers: { get: (name: string) => headers[name] ?? null } };
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+};
+
+const OPEN_METEO = 'https://api.open-meteo.com/v1/forecast';
+const TAWES = 'https://dataset.api.hub.geosphere.at/v1/station/current/tawes-v1-10min';
+
+const openMeteoLocation = (elevation: number, temperature: number) => ({
+  elevation,
+  current_weather: { temperature, windspeed: 25, winddirection: 300, weathercode: 71 },
+  daily: {
+    time: ['2026-01-10', '2026-01-11'],
+    temperature_2m_max: [temperature + 2, null],
+    temperature_2m_min: [temperature - 4, temperature - 6],
+    snowfall_sum: [6.3, 0],
+    precipitation_sum: [4.4, 0],
+    wind_gusts_10m_max: [61, 40]
+  },
+  hourly: {
+    time: ['2026-01-10T08:00', '2026-01-10T09:00', '2026-01-10T10:00'],
+    temperature_2m: [temperature - 1, temperature, temperature + 1],
+    freezing_level_height: [1500, 1600, 1700],
+    snow_depth: [0.5, 0.52, null]
+  }
+});
+
+describe('weatherUtils', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-10T09:10'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('turns Open-Meteo columns into one object per day', () => {
+    expect(weatherUtils.parseDaily(openMeteoLocation(2000, -3).daily)).toEqual([
+      { date: '2026-01-10', tempMax: -1, tempMin: -7, snowfall: 6.3, precipitation: 4.4, gustMax: 61, condition: null },
+      { date: '2026-01-11', tempMax: null, tempMin: -9, snowfall: 0, precipitation: 0, gustMax: 40, condition: null }
+    ]);
+    expect(weatherUtils.parseDaily()).toEqual([]);
+  });
+
+  it('converts hourly snow depth from m to cm', () => {
+    const hourly = weatherUtils.parseHourly(openMeteoLocation(2000, -3).hourly);
+    expect(hourly.map((h) => h.snowDepth)).toEqual([50, 52, null]);
+    expect(hourly[1]).toMatchObject({ time: '2026-01-10T09:00', temp: -3, freezingLevel: 1600 });
+  });
+
+  it('puts the snow line below the freezing level of the current hour', () => {
+    const hourly = weatherUtils.parseHourly(openMeteoLocation(2000, -3).hourly);
+    expect(weatherUtils.getCurrentHour(hourly)!.time).toBe('2026-01-10T09:00');
+    expect(weatherUtils.getSnowLine(hourly)).toBe(1300);
+    expect(weatherUtils.getSnowLine([])).toBeNull();
+  });
+
+  it('classifies the road surface', () => {
+    expect(weatherUtils.classifyRoadCondition({ temp: 0.5, snow: 2, precipitation: 3 })).toBe('snow');
+    expect(weatherUtils.classifyRoadCondition({ temp: -2, snow: 0, precipitation: 0 })).toBe('ice');
+    expect(weatherUtils.classifyRoadCondition({ temp: 4, snow: 0, precipitation: 1 })).toBe('wet');
+    expect(weatherUtils.classifyRoadCondition({ temp: 4, snow: null, precipitation: null })).toBe('dry');
+    expect(weatherUtils.classifyRoadCondition({ temp: null, snow: 5, precipitation: 5 })).toBe('unknown');
+  });
+
+  it('describes WMO weather codes', () => {
+    expect(weatherUtils.getDescription(71)).toBe('Snow fall: Slight');
+    expect(weatherUtils.getIcon(95)).toBe('thunderstorm');
+    expect(weatherUtils.getDescription(null)).toBe('Unknown');
+    expect(weatherUtils.getIcon(42)).toBe('unknown');
+  });
+});
+
+describe('Open-Meteo provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('corrects station forecasts from the grid-cell to the road elevation', async () => {
+    const fetch = stubFetch({ [OPEN_METEO]: [openMeteoLocation(2228, -4), openMeteoLocation(1488, 1)] });
+    const [pass, valley] = await getWeatherProvider('open-meteo').fetchStations(STATIONS);
+
+    expect(fetch.mock.calls[0][0]).toContain('latitude=47.1225,47.0393');
+    // 200 m above the grid cell at 0.0065 °C/m
+    expect(pass.temp).toBeCloseTo(-5.3, 6);
+    expect(pass.modelTemp).toBe(-4);
+    expect(pass.daily[0].tempMin).toBeCloseTo(-9.3, 6);
+    expect(pass.daily[1].tempMax).toBeNull();
+    expect(pass).toMatchObject({ snow: 6.3, precipitation: 4.4, wind: 25, roadCondition: 'snow' });
+    expect(valley.temp).toBeCloseTo(2.3, 6);
+    expect(valley.roadCondition).toBe('wet');
+  });
+
+  it('flags forecasts served from the offline cache', async () => {
+    stubFetch({ [OPEN_METEO]: openMeteoLocation(3400, -12) }, { 'X-Fetched-At': '2026-01-10T06:00:00.000Z' });
+    const report = await getWeatherProvider('open-meteo').fetchWeather(47.074, 12.694);
+    expect(report).toMatchObject({ temp: -12, snow: 6.3, condition: 71, fetchedAt: '2026-01-10T06:00:00.000Z', fromCache: true });
+    expect(report.daily).toHaveLength(2);
+    expect(report.hourly).toHaveLength(3);
+  });
+
+  it('fails on an error status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 503 }));
+    await expect(getWeatherProvider('open-meteo').fetchWeather(47.074, 12.694)).rejects.toThrow('Weather request failed: 503');
+  });
+});
+
+describe('GeoSphere TAWES provider', () => {
+  const metadata = {
+    stations: [
+      { id: 11204, name: 'Sonnblick', lat: 47.0542, lon: 12.9578, altitude: 3109 },
+      { id: 11138, name: 'Rudolfshütte', lat: 47.1347, lon: 12.6256, altitude: 2317 },
+      { id: 99999, name: 'Closed site', lat: 47.1226, lon: 12.8104, altitude: 2400, is_active: false }
+    ]
+  };
+  const current = {
+    timestamps: ['2026-01-10T08:50+00:00', '2026-01-10T09:00+00:00'],
+    features: [
+      { properties: { station: 11138, parameters: { TL: { data: [-6, -6.5] }, FF: { data: [5, 10] }, DD: { data: [280, 290] }, RR: { data: [0, 0.2] }, SCHNEE: { data: [120, null] } } } },
+      { properties: { station: 11204, parameters: { TL: { data: [-15, -14.8] }, FF: { data: [20, 25] }, DD: { data: [310, 300] }, RR: { data: [0, 0] }, SCHNEE: { data: [300, 301] } } } }
+    ]
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the latest values of the nearest active site', async () => {
+    stubFetch({ [`${TAWES}/metadata`]: metadata, [TAWES]: current });
+    const [pass] = await getWeatherProvider('geosphere').fetchObservations!(STATIONS);
+    // The closed site next to the station is skipped
+    expect(pass.source).toMatchObject({ id: '11204', name: 'Sonnblick', elevation: 3109 });
+    // 681 m below the site
+    expect(pass.temp).toBeCloseTo(-14.8 + 681 * 0.0065, 6);
+    expect(pass).toMatchObject({ wind: 90, windDirection: 300, precipitation: 0, snowDepth: 301,
+      observedAt: '2026-01-10T09:00+00:00', daily: [], roadCondition: 'ice' });
+  });
+
+  it('keeps the measured values when the Open-Meteo forecast fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    stubFetch({ [`${TAWES}/metadata`]: metadata, [TAWES]: current });
+    const report = await getWeatherProvider('geosphere').fetchWeather(47.074, 12.694);
+    expect(report).toMatchObject({ temp: -6.5, wind: 36, daily: [], hourly: [], fetchedAt: '2026-01-10T09:00+00:00' });
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});